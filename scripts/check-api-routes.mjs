@@ -0,0 +1,94 @@
+// Checks that every route the frontend's API client (src/utils/api.ts) calls exists on the edge
+// function (src/supabase/functions/server/index.tsx) with the same method.
+//
+//   npm run check:api
+//
+// Path parameters are compared by position only: `/articles/${segment(id)}` matches
+// `/articles/:id`, while a literal segment has to match exactly.
+import { readFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const SERVER = join(ROOT, 'src/supabase/functions/server/index.tsx');
+const CLIENT = join(ROOT, 'src/utils/api.ts');
+const PREFIX = '/make-server-2b00e03f';
+
+const PARAM = ':param';
+
+const normalize = (path) =>
+  path
+    .replace(/\$\{[^}]*\}/g, PARAM)
+    .split('/')
+    .map((segment) => (segment.startsWith(':') ? PARAM : segment))
+    .join('/');
+
+const serverRoutes = (source) =>
+  [...source.matchAll(/app\.(get|post|put|delete)\(\s*"([^"]+)"/g)].map(([, method, path]) => ({
+    method: method.toUpperCase(),
+    path: normalize(path.slice(PREFIX.length)),
+  }));
+
+// The string literals making up a call's path argument, which may be a conditional choosing
+// between paths. Stops at the comma or parenthesis ending the argument.
+const pathLiterals = (source, start) => {
+  const literals = [];
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === "'" || char === '`') {
+      const end = source.indexOf(char, i + 1);
+      literals.push(source.slice(i + 1, end));
+      i = end;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' || char === ',') {
+      if (depth === 0) break;
+      if (char === ')') depth--;
+    }
+  }
+  return literals.filter((literal) => literal.startsWith('/'));
+};
+
+const clientRoutes = (source) => {
+  const routes = [];
+  for (const match of source.matchAll(/request<[\s\S]*?>\(\s*'(GET|POST|PUT|DELETE)',/g)) {
+    const line = source.slice(0, match.index).split('\n').length;
+    for (const path of pathLiterals(source, match.index + match[0].length)) {
+      routes.push({ method: match[1], path: normalize(path), line });
+    }
+  }
+  // Feed links are opened rather than requested
+  for (const match of source.matchAll(/`\$\{API_URL\}(\/[^`$?]*)/g)) {
+    routes.push({ method: 'GET', path: normalize(match[1]), line: source.slice(0, match.index).split('\n').length });
+  }
+  return routes;
+};
+
+const matches = (client, server) => {
+  if (client.method !== server.method) return false;
+  const clientSegments = client.path.split('/');
+  const serverSegments = server.path.split('/');
+  return (
+    clientSegments.length === serverSegments.length &&
+    serverSegments.every((segment, i) => segment === PARAM || segment === clientSegments[i])
+  );
+};
+
+const main = async () => {
+  const server = serverRoutes(await readFile(SERVER, 'utf8'));
+  const client = clientRoutes(await readFile(CLIENT, 'utf8'));
+
+  const missing = client.filter((route) => !server.some((candidate) => matches(route, candidate)));
+  for (const route of missing) {
+    console.error(`src/utils/api.ts:${route.line}: ${route.method} ${route.path} has no route on the server`);
+  }
+  if (missing.length > 0) process.exit(1);
+
+  console.log(`All ${client.length} client routes match the server's ${server.length} routes`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
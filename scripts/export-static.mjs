@@ -0,0 +1,225 @@
+// Static export: writes every published page as plain HTML, with the feeds, sitemap and the
+// uploaded files the articles use, into a folder any static host can serve.
+//
+//   npm run export                     builds the app and its server bundle, then exports to ./static
+//   node scripts/export-static.mjs [--out <dir>] [--full] [--api <functions URL>]
+//
+// Pages come from the edge function (GET /export/pages; --api points at another deployment, such
+// as a local one, ending in /make-server-2b00e03f), so they hold exactly what the live site shows,
+// and are rendered with the app's own components from the server bundle (npm run
+// build:ssr). Links are rewritten to relative paths and media to local copies.
+//
+// Re-running into the same folder only re-renders articles whose page changed, going by a hash of
+// its head and data rather than updatedAt, which a tag rename or merge leaves alone; listings are
+// always rewritten, and everything is when the app, its styles or the site settings change.
+// --full re-renders everything regardless.
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { copyFile, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const BUILD_DIR = join(ROOT, 'build');
+const RENDERER = join(ROOT, 'src/supabase/functions/server/ssr/entry-server.js');
+const MANIFEST = '.export-manifest.json';
+const XML_FILES = ['feed.xml', 'atom.xml', 'podcast.xml', 'sitemap.xml', 'robots.txt'];
+
+const parseArgs = (argv) => {
+  const args = { out: 'static', full: false, api: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--full') args.full = true;
+    else if (argv[i] === '--out' && argv[i + 1]) args.out = argv[++i];
+    else if (argv[i] === '--api' && argv[i + 1]) args.api = argv[++i].replace(/\/$/, '');
+    else throw new Error(`Unknown argument: ${argv[i]}`);
+  }
+  return args;
+};
+
+const sha256 = (...parts) => {
+  const hash = createHash('sha256');
+  for (const part of parts) hash.update(part);
+  return hash.digest('hex');
+};
+
+const escapeHtml = (value) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Path segments arrive URL-encoded. Folders get the decoded name, except where decoding would
+// add a level (a tag containing "/") or point at another folder (a tag named "." or "..").
+const folderSegment = (segment) => {
+  const decoded = decodeURIComponent(segment);
+  if (decoded === '.' || decoded === '..') return decoded.replace(/\./g, '%2E');
+  return decoded.includes('/') ? segment : decoded;
+};
+
+const pageSegments = (path) => path.split('/').filter(Boolean).map(folderSegment);
+
+const pageFile = (out, path) => join(out, ...pageSegments(path), 'index.html');
+
+// Root-relative links from a page at `fromPath`: pages become folders, files stay files
+const relativeLink = (fromPath, target) => {
+  const [, pathname, suffix] = target.match(/^([^?#]*)(.*)$/);
+  const up = '../'.repeat(pageSegments(fromPath).length) || './';
+  const segments = pathname.split('/').filter(Boolean);
+  const isFile = /\.[a-z0-9]+$/i.test(segments[segments.length - 1] ?? '');
+  const link = (isFile ? segments : segments.map(folderSegment)).map(encodeURIComponent).join('/');
+  return up + link + (isFile || !link ? '' : '/') + suffix;
+};
+
+const mediaPath = (path) => `media/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+const replaceAll = (text, from, to) => text.split(from).join(to);
+
+// index.html without the app's scripts; the pages are static and nothing hydrates them
+const loadShell = async () => {
+  const html = await readFile(join(BUILD_DIR, 'index.html'), 'utf8').catch(() => {
+    throw new Error('build/index.html is missing, run npm run build first');
+  });
+  return html
+    .replace(/\s*<script\b[^>]*type="module"[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/\s*<link\b[^>]*rel="modulepreload"[^>]*>/gi, '');
+};
+
+// Styles, fonts and icons from the app build; its scripts aren't needed
+const copyBuildAssets = async (out, dir = BUILD_DIR) => {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const source = join(dir, entry.name);
+    const target = join(out, relative(BUILD_DIR, source));
+    if (entry.isDirectory()) {
+      await copyBuildAssets(out, source);
+    } else if (!/\.(js|mjs|map)$/.test(entry.name) && source !== join(BUILD_DIR, 'index.html')) {
+      await mkdir(dirname(target), { recursive: true });
+      await copyFile(source, target);
+    }
+  }
+};
+
+const fetchFromApi = async (apiBase, anonKey, path) => {
+  const response = await fetch(`${apiBase}/${path}`, { headers: { Authorization: `Bearer ${anonKey}` } });
+  if (!response.ok) {
+    throw new Error(`GET ${path} failed with ${response.status}: ${await response.text()}`);
+  }
+  return response;
+};
+
+const renderPage = (renderer, shell, page, media) => {
+  const appHtml = renderer.render(page.path, page.data, { staticExport: true });
+  const feedLinks = [
+    '<link rel="alternate" type="application/rss+xml" title="RSS" href="/feed.xml" />',
+    '<link rel="alternate" type="application/atom+xml" title="Atom" href="/atom.xml" />',
+  ];
+
+  let html = shell
+    .replace(/<title>[\s\S]*?<\/title>\s*/i, '')
+    .replace(/<\/head>/i, () => `  ${[page.head, ...feedLinks].join('\n    ')}\n  </head>`)
+    .replace(/<div id="root">\s*<\/div>/i, () => `<div id="root">${appHtml}</div>`)
+    .replace(/\b(href|src)="(\/(?!\/)[^"]*)"/g, (_, attribute, target) => `${attribute}="${relativeLink(page.path, target)}"`);
+
+  const up = '../'.repeat(pageSegments(page.path).length);
+  for (const file of media) {
+    html = replaceAll(html, escapeHtml(file.url), up + mediaPath(file.path));
+  }
+  return html;
+};
+
+// Feeds and the sitemap need absolute addresses: the exported site's own
+const rewriteXml = (xml, apiBase, siteUrl, media) => {
+  if (!siteUrl) return xml;
+  let rewritten = xml;
+  for (const file of media) {
+    rewritten = replaceAll(rewritten, escapeHtml(file.url), `${siteUrl}/${mediaPath(file.path)}`);
+    rewritten = replaceAll(rewritten, file.url, `${siteUrl}/${mediaPath(file.path)}`);
+  }
+  return replaceAll(rewritten, `${apiBase}/`, `${siteUrl}/`);
+};
+
+const removePage = async (out, path) => {
+  const folder = dirname(pageFile(out, path));
+  if (folder !== resolve(out)) await rm(folder, { recursive: true, force: true });
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  const out = resolve(ROOT, args.out);
+
+  if (!existsSync(RENDERER)) {
+    throw new Error('The server bundle is missing, run npm run build:ssr first');
+  }
+  const renderer = await import(pathToFileURL(RENDERER).href);
+  const apiBase = args.api ?? `https://${renderer.projectId}.supabase.co/functions/v1/make-server-2b00e03f`;
+  const shell = await loadShell();
+
+  console.log(`Exporting from ${apiBase} to ${out}`);
+  const { site, pages, media } = await (await fetchFromApi(apiBase, renderer.publicAnonKey, 'export/pages')).json();
+  if (!site.siteUrl) {
+    throw new Error('Set the Public Site URL in the site settings first; the feeds and sitemap need it for their links');
+  }
+
+  const previous = JSON.parse(await readFile(join(out, MANIFEST), 'utf8').catch(() => 'null'));
+  const fingerprint = sha256(shell, await readFile(RENDERER), JSON.stringify(site));
+  const reuse = !args.full && previous?.fingerprint === fingerprint;
+
+  await mkdir(out, { recursive: true });
+  await copyBuildAssets(out);
+
+  // Pages
+  const manifest = { fingerprint, articles: {}, listings: [], media: media.map((file) => file.path) };
+  let rendered = 0;
+  for (const page of pages) {
+    const file = pageFile(out, page.path);
+    if (page.data.page === 'article') {
+      const { id } = page.data.article;
+      const before = previous?.articles?.[id];
+      const hash = sha256(page.head, JSON.stringify(page.data));
+      manifest.articles[id] = { path: page.path, hash };
+      if (reuse && before?.path === page.path && before.hash === hash && existsSync(file)) continue;
+    } else {
+      manifest.listings.push(page.path);
+    }
+
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, renderPage(renderer, shell, page, media));
+    rendered++;
+  }
+
+  // Pages that no longer exist: unpublished or renamed articles, tags and categories nothing uses
+  const paths = new Set(pages.map((page) => page.path));
+  const previousPaths = [...Object.values(previous?.articles ?? {}).map(({ path }) => path), ...(previous?.listings ?? [])];
+  for (const path of previousPaths) {
+    if (!paths.has(path)) await removePage(out, path);
+  }
+
+  // Media; stored files never change, so existing copies are kept
+  let downloaded = 0;
+  for (const file of media) {
+    const target = join(out, 'media', ...file.path.split('/'));
+    if (existsSync(target)) continue;
+    const response = await fetch(file.url).catch((error) => error);
+    if (!(response instanceof Response) || !response.ok) {
+      // The page keeps working from the copy it links to once a later run gets it
+      console.warn(`Couldn't download ${file.url}: ${response instanceof Response ? response.status : response.message}`);
+      continue;
+    }
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, Buffer.from(await response.arrayBuffer()));
+    downloaded++;
+  }
+  for (const path of previous?.media ?? []) {
+    if (!manifest.media.includes(path)) await rm(join(out, 'media', ...path.split('/')), { force: true });
+  }
+
+  // Feeds, sitemap and robots.txt
+  for (const name of XML_FILES) {
+    const body = await (await fetchFromApi(apiBase, renderer.publicAnonKey, name)).text();
+    await writeFile(join(out, name), rewriteXml(body, apiBase, site.siteUrl, media));
+  }
+
+  await writeFile(join(out, MANIFEST), JSON.stringify(manifest, null, 2));
+  console.log(`Rendered ${rendered} of ${pages.length} pages, downloaded ${downloaded} of ${media.length} files`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,134 +1,353 @@
-import { useState, useEffect } from "react";
-import { BookOpen, ArrowLeft, Shield } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { BookOpen, ArrowLeft, Shield, Search, X, Tag, Rss } from "lucide-react";
 import { Button } from "./components/ui/button";
+import { Input } from "./components/ui/input";
+import { Badge } from "./components/ui/badge";
 import { ArticleCard } from "./components/ArticleCard";
+import { SearchResults } from "./components/SearchResults";
 import { CommentSection } from "./components/CommentSection";
 import { AudioPlayer } from "./components/AudioPlayer";
+import { ArticleContent } from "./components/ArticleContent";
 import { AdminLogin } from "./components/AdminLogin";
 import { AdminDashboard } from "./components/AdminDashboard";
-import { projectId, publicAnonKey } from "./utils/supabase/info";
-import { createClient } from "@supabase/supabase-js";
+import { NotFound } from "./components/NotFound";
+import { ReadingStats } from "./components/ReadingStats";
+import { ResponsiveImage } from "./components/ResponsiveImage";
+import { ContinueReading, ReadingProgressBar, useReadingPosition } from "./components/ReadingProgress";
+import { MobileTableOfContents, TableOfContents, useActiveHeading, useHeadings } from "./components/TableOfContents";
+import { applyPageMeta, clearPageMeta, type PageMeta } from "./utils/head";
+import { Link, matchRoute, navigate, useLocation, useScrollRestoration, type Location } from "./utils/router";
+import { supabase } from "./utils/supabase/client";
+import * as api from "./utils/api";
+import type { Article, ArticleSummary, CurrentUser, SearchResult, TagCount } from "./utils/types";
 import { Toaster, toast } from "sonner";
 
-const supabase = createClient(
-  `https://${projectId}.supabase.co`,
-  publicAnonKey
-);
-
-interface Article {
-  id: string;
-  title: string;
-  content: string;
-  excerpt: string;
-  imageUrl?: string | null;
-  videoUrl?: string | null;
-  audioUrl?: string | null;
-  createdAt: string;
-  updatedAt: string;
+type TaxonomyFilter = { type: 'tag' | 'category'; value: string };
+
+// What the server rendered the page with (see entry-server.tsx), embedded in the HTML so the
+// first render matches it and the page doesn't fetch its data again. Mirrors prerender.tsx.
+export type InitialData =
+  | { page: 'listing'; path: string; articles: ArticleSummary[]; nextCursor: string | null; tags: TagCount[]; meta: PageMeta }
+  | { page: 'article'; path: string; article: Article; meta: PageMeta };
+
+type Route =
+  | { name: 'home'; filter: TaxonomyFilter | null }
+  | { name: 'search'; query: string }
+  | { name: 'article'; slug: string }
+  | { name: 'admin-login' }
+  | { name: 'admin'; creating: boolean; editingId: string | null }
+  | { name: 'not-found' };
+
+const PAGE_SIZE = 9;
+
+// Public paths; these match the links in the feeds and the sitemap
+const articlePath = (article: { id: string; slug?: string | null }) =>
+  `/articles/${encodeURIComponent(article.slug ?? article.id)}`;
+
+// Uploaded videos play in a <video> element; anything else is treated as an embed page
+const isVideoFile = (url: string) => /\.(mp4|webm|mov)(\?|$)/i.test(url);
+
+const taxonomyPath = ({ type, value }: TaxonomyFilter) => `/${type}/${encodeURIComponent(value)}`;
+
+const resolveRoute = ({ pathname, search }: Location): Route => {
+  const query = new URLSearchParams(search);
+  let params: Record<string, string> | null;
+
+  if (matchRoute('/', pathname)) return { name: 'home', filter: null };
+  if ((params = matchRoute('/tag/:tag', pathname))) return { name: 'home', filter: { type: 'tag', value: params.tag } };
+  if ((params = matchRoute('/category/:category', pathname))) return { name: 'home', filter: { type: 'category', value: params.category } };
+  if (matchRoute('/search', pathname)) return { name: 'search', query: query.get('q')?.trim() ?? '' };
+  if ((params = matchRoute('/articles/:slug', pathname))) return { name: 'article', slug: params.slug };
+  if (matchRoute('/admin/login', pathname)) return { name: 'admin-login' };
+  if (matchRoute('/admin', pathname)) return { name: 'admin', creating: false, editingId: null };
+  if (matchRoute('/admin/articles/new', pathname)) return { name: 'admin', creating: true, editingId: null };
+  if ((params = matchRoute('/admin/articles/:id/edit', pathname))) return { name: 'admin', creating: false, editingId: params.id };
+  return { name: 'not-found' };
+};
+
+// Where to go after signing in: the admin page the visitor was sent away from, if any
+const redirectTarget = (search: string) => {
+  const next = new URLSearchParams(search).get('next');
+  return next?.startsWith('/admin') ? next : '/admin';
+};
+
+// The path server-rendered data is keyed by, in the same encoding the server uses
+const pagePath = (route: Route): string | null =>
+  route.name === 'home' ? (route.filter ? taxonomyPath(route.filter) : '/') :
+  route.name === 'article' ? `/articles/${encodeURIComponent(route.slug)}` :
+  null;
+
+interface AppProps {
+  initialData?: InitialData | null;
+  // Rendering a page for the static export (scripts/export-static.mjs): plain HTML without the
+  // app's scripts, so only what works without the server is shown
+  staticExport?: boolean;
 }
 
-type View = 'home' | 'article' | 'admin-login' | 'admin-dashboard';
+export default function App({ initialData = null, staticExport = false }: AppProps) {
+  const location = useLocation();
+  const route = resolveRoute(location);
+  const taxonomyFilter = route.name === 'home' ? route.filter : null;
+  const searchQuery = route.name === 'search' ? route.query : null;
+  const filterKey = taxonomyFilter ? taxonomyPath(taxonomyFilter) : null;
+
+  // Only trust server data for the page it was rendered for
+  const [pageData] = useState(() => (initialData && initialData.path === pagePath(route) ? initialData : null));
+  const listingData = pageData?.page === 'listing' ? pageData : null;
+  const articleData = pageData?.page === 'article' ? pageData : null;
 
-export default function App() {
-  const [currentView, setCurrentView] = useState<View>('home');
-  const [articles, setArticles] = useState<Article[]>([]);
-  const [selectedArticle, setSelectedArticle] = useState<Article | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [articles, setArticles] = useState<ArticleSummary[]>(listingData?.articles ?? []);
+  const [nextCursor, setNextCursor] = useState<string | null>(listingData?.nextCursor ?? null);
+  const [selectedArticle, setSelectedArticle] = useState<Article | null>(articleData?.article ?? null);
+  const [pageMeta, setPageMeta] = useState<PageMeta | null>(pageData?.meta ?? null);
+  const [articleMissing, setArticleMissing] = useState(false);
+  const [loading, setLoading] = useState(!listingData);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [tags, setTags] = useState<TagCount[]>(listingData?.tags ?? []);
+  const [sessionChecked, setSessionChecked] = useState(false);
   const [accessToken, setAccessToken] = useState<string | null>(() => {
-    // Restore session from localStorage
-    return localStorage.getItem('access_token');
+    // Restore session from localStorage. Server-rendered pages are rendered signed out, so they
+    // wait until after hydration.
+    return pageData || typeof window === 'undefined' ? null : localStorage.getItem('access_token');
   });
+  // The signed-in user's role and permissions, for showing the controls they can use
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+  // The listing currently held in `articles`, so back/forward can reuse it
+  const loadedListing = useRef<string | null | undefined>(undefined);
+  // Server data still to be used in place of loading the first page
+  const pendingPageData = useRef(pageData);
+  const articleBodyRef = useRef<HTMLDivElement>(null);
+  const headings = useHeadings(articleBodyRef, selectedArticle?.content);
+  const activeHeading = useActiveHeading(headings);
+  // A table of contents only helps once there are a few sections
+  const showToc = headings.length >= 2;
+  const readingPosition = useReadingPosition(articleBodyRef, selectedArticle?.id);
 
   useEffect(() => {
+    if (pageData) {
+      const storedToken = localStorage.getItem('access_token');
+      if (storedToken) setAccessToken(storedToken);
+    }
     checkSession();
-    loadArticles();
+    advertiseFeeds();
   }, []);
 
-  const checkSession = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (session?.access_token) {
-      setAccessToken(session.access_token);
-      localStorage.setItem('access_token', session.access_token);
+  useEffect(() => {
+    // Invite links used to point at the home page
+    const invite = new URLSearchParams(location.search).get('invite');
+    if (route.name === 'home' && invite) {
+      navigate(`/admin/login?invite=${encodeURIComponent(invite)}`, { replace: true });
+      return;
+    }
+
+    if (route.name !== 'search') setSearchInput("");
+
+    // The server already rendered this page with its data
+    if (pendingPageData.current) {
+      if (route.name === 'home') loadedListing.current = filterKey;
+      pendingPageData.current = null;
+      return;
+    }
+
+    if (route.name !== 'article') setPageMeta(null);
+
+    if (route.name === 'home') {
+      // Back/forward returns to the list as it was left, so the saved scroll position still fits
+      if (location.action === 'pop' && loadedListing.current === filterKey) return;
+      loadedListing.current = filterKey;
+      loadArticles();
+      loadTags();
+    } else if (route.name === 'search') {
+      setSearchInput(route.query);
+      runSearch(route.query);
+    } else if (route.name === 'article') {
+      // Settling on the canonical address replaces the entry without needing a reload
+      if (location.action === 'replace' && selectedArticle && articlePath(selectedArticle) === location.pathname) return;
+      loadArticle(route.slug);
+    }
+  }, [location.key, location.pathname, location.search]);
+
+  useEffect(() => {
+    if (!accessToken) {
+      setCurrentUser(null);
+      return;
+    }
+    api.getCurrentUser(accessToken)
+      .then((data) => setCurrentUser(data.user))
+      .catch((error) => console.error('Error loading current user:', error));
+  }, [accessToken]);
+
+  // Title, description and social tags follow the page being shown. Articles bring theirs; other
+  // pages only have them when the server rendered the page, and fall back to the defaults.
+  useEffect(() => {
+    if (!pageMeta) return;
+    applyPageMeta(pageMeta);
+    return clearPageMeta;
+  }, [pageMeta]);
+
+  // Admin pages need a session; wait for the stored one to be checked before sending anyone away
+  useEffect(() => {
+    if (!sessionChecked) return;
+    if (route.name === 'admin' && !accessToken) {
+      navigate(`/admin/login?next=${encodeURIComponent(location.pathname)}`, { replace: true });
+    } else if (route.name === 'admin-login' && accessToken) {
+      navigate(redirectTarget(location.search), { replace: true });
+    }
+  }, [sessionChecked, accessToken, location.pathname]);
+
+  const contentReady =
+    route.name === 'home' ? !loading :
+    route.name === 'search' ? !searching :
+    route.name === 'article' ? !!selectedArticle || articleMissing :
+    true;
+  useScrollRestoration(location, contentReady);
+
+  // Let browsers and feed readers discover the feeds from the page
+  const advertiseFeeds = () => {
+    const feeds = [
+      { type: 'application/rss+xml', title: 'RSS', href: api.feedUrl() },
+      { type: 'application/atom+xml', title: 'Atom', href: api.atomFeedUrl },
+    ];
+    for (const feed of feeds) {
+      if (document.head.querySelector(`link[rel="alternate"][type="${feed.type}"]`)) continue;
+      const link = document.createElement('link');
+      link.rel = 'alternate';
+      link.type = feed.type;
+      link.title = feed.title;
+      link.href = feed.href;
+      document.head.appendChild(link);
     }
   };
 
-  const loadArticles = async () => {
-    setLoading(true);
+  const checkSession = async () => {
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/articles`,
-        {
-          headers: {
-            Authorization: `Bearer ${publicAnonKey}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        console.error('Failed to load articles:', await response.text());
-        toast.error('Failed to load articles. Please try again.');
-        return;
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session?.access_token) {
+        setAccessToken(session.access_token);
+        localStorage.setItem('access_token', session.access_token);
       }
+    } finally {
+      setSessionChecked(true);
+    }
+  };
 
-      const data = await response.json();
-      setArticles(data.articles || []);
+  // Loads the first page, or the page after `cursor` when loading more
+  const loadArticles = async (cursor?: string) => {
+    const setBusy = cursor ? setLoadingMore : setLoading;
+    setBusy(true);
+    try {
+      const data = await api.listArticles({
+        tag: taxonomyFilter?.type === 'tag' ? taxonomyFilter.value : undefined,
+        category: taxonomyFilter?.type === 'category' ? taxonomyFilter.value : undefined,
+        cursor,
+        limit: PAGE_SIZE,
+        summary: true,
+      });
+      setArticles((current) => (cursor ? [...current, ...data.articles] : data.articles));
+      setNextCursor(data.nextCursor);
     } catch (error) {
       console.error('Error loading articles:', error);
-      toast.error('Unable to connect to the server. Please check your connection.');
+      toast.error(api.errorMessage(error, 'Failed to load articles. Please try again.'));
     } finally {
-      setLoading(false);
+      setBusy(false);
     }
   };
 
-  const handleReadMore = async (id: string) => {
+  const loadTags = async () => {
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/articles/${id}`,
-        {
-          headers: {
-            Authorization: `Bearer ${publicAnonKey}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        console.error('Failed to load article:', await response.text());
-        toast.error('Failed to load article. Please try again.');
-        return;
-      }
+      const data = await api.listTags();
+      setTags(data.tags);
+    } catch (error) {
+      console.error('Error loading tags:', error);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchInput.trim();
+    navigate(query ? `/search?q=${encodeURIComponent(query)}` : '/');
+  };
+
+  const runSearch = async (query: string) => {
+    setSearchResults([]);
+    if (!query) return;
 
-      const data = await response.json();
-      setSelectedArticle(data.article);
-      setCurrentView('article');
-      window.scrollTo(0, 0);
+    setSearching(true);
+    try {
+      const data = await api.searchArticles(query);
+      setSearchResults(data.results);
     } catch (error) {
-      console.error('Error loading article:', error);
-      toast.error('Unable to load article. Please check your connection.');
+      console.error('Error searching articles:', error);
+      toast.error(api.errorMessage(error, 'Search failed. Please try again.'));
+    } finally {
+      setSearching(false);
     }
   };
 
-  const handleBackToHome = () => {
-    setCurrentView('home');
+  const clearSearch = () => {
+    setSearchInput("");
+    navigate('/');
+  };
+
+  // Search results only know the article id; use the slug when the listing has it
+  const handleReadMore = (id: string) => {
+    const article = articles.find((candidate) => candidate.id === id);
+    navigate(articlePath(article ?? { id }));
+  };
+
+  // Article URLs carry the slug, or the id for articles without one
+  const fetchArticle = async (param: string) => {
+    try {
+      return await api.getArticleBySlug(param, accessToken);
+    } catch (error) {
+      if (!api.isNotFound(error)) throw error;
+      return await api.getArticle(param, accessToken);
+    }
+  };
+
+  const loadArticle = async (param: string) => {
     setSelectedArticle(null);
-    loadArticles(); // Refresh articles when going back
+    setPageMeta(null);
+    setArticleMissing(false);
+    try {
+      const data = await fetchArticle(param);
+      const article = data.article;
+      setSelectedArticle(article);
+      setPageMeta(data.meta ?? null);
+
+      // Former slugs and id links settle on the article's current address
+      if (articlePath(article) !== location.pathname) {
+        navigate(articlePath(article) + window.location.hash, { replace: true });
+      }
+    } catch (error) {
+      if (api.isNotFound(error)) {
+        setArticleMissing(true);
+        return;
+      }
+      console.error('Error loading article:', error);
+      toast.error(api.errorMessage(error, 'Failed to load article. Please try again.'));
+    }
   };
 
   const handleLoginSuccess = (token: string) => {
     setAccessToken(token);
     localStorage.setItem('access_token', token);
-    setCurrentView('admin-dashboard');
+    navigate(redirectTarget(location.search), { replace: true });
     toast.success('Successfully logged in!');
   };
 
   const handleLogout = () => {
     setAccessToken(null);
     localStorage.removeItem('access_token');
-    setCurrentView('home');
+    navigate('/');
     toast.success('Successfully logged out');
   };
 
   // Home/Blog View
-  if (currentView === 'home') {
+  if (route.name === 'home' || route.name === 'search') {
     return (
       <>
         <Toaster position="top-right" richColors />
@@ -142,41 +361,146 @@ export default function App() {
                   <BookOpen className="w-6 h-6 text-white" />
                 </div>
                 <div>
-                  <h1>My Blog</h1>
+                  <h1>
+                    <Link to="/">My Blog</Link>
+                  </h1>
                   <p className="text-sm text-gray-600">Thoughts, stories, and ideas</p>
                 </div>
               </div>
-              <Button
-                variant="outline"
-                onClick={() => setCurrentView('admin-login')}
-              >
-                <Shield className="w-4 h-4 mr-2" />
-                Admin
-              </Button>
+              <div className="flex items-center gap-2">
+                {!staticExport && (
+                  <form onSubmit={handleSearch} className="relative hidden sm:block">
+                    <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                    <Input
+                      type="search"
+                      value={searchInput}
+                      onChange={(e) => setSearchInput(e.target.value)}
+                      placeholder='Search articles ("phrase", prefix*)'
+                      className="pl-9 w-72"
+                      aria-label="Search articles"
+                    />
+                  </form>
+                )}
+                <Button variant="ghost" size="icon" asChild>
+                  {/* The export writes the feed next to the pages */}
+                  <a href={staticExport ? '/feed.xml' : api.feedUrl()} target="_blank" rel="noopener noreferrer" aria-label="RSS feed">
+                    <Rss className="w-4 h-4" />
+                  </a>
+                </Button>
+                {!staticExport && (
+                  <Button variant="outline" asChild>
+                    <Link to="/admin">
+                      <Shield className="w-4 h-4 mr-2" />
+                      Admin
+                    </Link>
+                  </Button>
+                )}
+              </div>
             </div>
+            {!staticExport && (
+              <form onSubmit={handleSearch} className="relative mt-4 sm:hidden">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                <Input
+                  type="search"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search articles"
+                  className="pl-9"
+                  aria-label="Search articles"
+                />
+              </form>
+            )}
           </div>
         </header>
 
         {/* Blog Posts */}
         <main className="max-w-6xl mx-auto px-4 py-8">
-          {loading ? (
-            <div className="text-center py-12">
-              <p className="text-gray-500">Loading articles...</p>
-            </div>
-          ) : articles.length === 0 ? (
-            <div className="text-center py-12">
-              <p className="text-gray-500 mb-4">No articles published yet.</p>
-              <p className="text-sm text-gray-400">Check back soon for new content!</p>
-            </div>
+          {searchQuery !== null ? (
+            <>
+              <Button variant="ghost" onClick={clearSearch} className="mb-4">
+                <X className="w-4 h-4 mr-2" />
+                Clear search
+              </Button>
+              <SearchResults
+                query={searchQuery}
+                results={searchResults}
+                loading={searching}
+                onReadMore={handleReadMore}
+              />
+            </>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {articles.map((article) => (
-                <ArticleCard
-                  key={article.id}
-                  article={article}
-                  onReadMore={handleReadMore}
-                />
-              ))}
+            <>
+              {taxonomyFilter ? (
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="flex items-center gap-2">
+                    <Tag className="w-5 h-5" />
+                    {taxonomyFilter.type === 'tag' ? `#${taxonomyFilter.value}` : taxonomyFilter.value}
+                  </h2>
+                  <div className="flex gap-2">
+                    {taxonomyFilter.type === 'tag' && !staticExport && (
+                      <Button variant="ghost" asChild>
+                        <a href={api.feedUrl(taxonomyFilter.value)} target="_blank" rel="noopener noreferrer">
+                          <Rss className="w-4 h-4 mr-2" />
+                          Subscribe
+                        </a>
+                      </Button>
+                    )}
+                    <Button variant="ghost" asChild>
+                      <Link to="/">
+                        <X className="w-4 h-4 mr-2" />
+                        All articles
+                      </Link>
+                    </Button>
+                  </div>
+                </div>
+              ) : tags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-6">
+                  {tags.map((tag) => (
+                    <Badge key={tag.name} variant="outline" asChild>
+                      <Link to={taxonomyPath({ type: 'tag', value: tag.name })}>
+                        #{tag.name} ({tag.count})
+                      </Link>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {loading ? (
+                <div className="text-center py-12">
+                  <p className="text-gray-500">Loading articles...</p>
+                </div>
+              ) : articles.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-gray-500 mb-4">
+                    {taxonomyFilter ? 'No articles here yet.' : 'No articles published yet.'}
+                  </p>
+                  <p className="text-sm text-gray-400">Check back soon for new content!</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {articles.map((article) => (
+                    <ArticleCard
+                      key={article.id}
+                      article={article}
+                      href={articlePath(article)}
+                      tagHref={(tag) => taxonomyPath({ type: 'tag', value: tag })}
+                      categoryHref={(category) => taxonomyPath({ type: 'category', value: category })}
+                    />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {searchQuery === null && !loading && nextCursor && (
+            <div className="text-center mt-8">
+              <Button
+                variant="outline"
+                onClick={() => loadArticles(nextCursor)}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Loading...' : 'Load More'}
+              </Button>
             </div>
           )}
         </main>
@@ -192,85 +516,181 @@ export default function App() {
     );
   }
 
+  if (route.name === 'article' && articleMissing) {
+    return (
+      <>
+        <Toaster position="top-right" richColors />
+        <NotFound message="This article doesn't exist or is no longer available." />
+      </>
+    );
+  }
+
+  if (route.name === 'article' && !selectedArticle) {
+    return (
+      <>
+        <Toaster position="top-right" richColors />
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <p className="text-gray-500">Loading article...</p>
+        </div>
+      </>
+    );
+  }
+
   // Article Detail View
-  if (currentView === 'article' && selectedArticle) {
+  if (route.name === 'article' && selectedArticle) {
     return (
       <>
         <Toaster position="top-right" richColors />
+        <ReadingProgressBar progress={readingPosition.progress} />
+        {readingPosition.resumeFrom !== null && (
+          <ContinueReading
+            progress={readingPosition.resumeFrom}
+            onContinue={readingPosition.resume}
+            onDismiss={readingPosition.dismissResume}
+          />
+        )}
         <div className="min-h-screen bg-gray-50">
         {/* Header */}
         <header className="bg-white shadow-sm border-b">
           <div className="max-w-4xl mx-auto px-4 py-4">
-            <Button variant="ghost" onClick={handleBackToHome}>
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Back to Blog
+            <Button variant="ghost" asChild>
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Blog
+              </Link>
             </Button>
           </div>
         </header>
 
+        <div
+          className={`mx-auto px-4 py-8 ${
+            showToc ? 'max-w-6xl lg:grid lg:grid-cols-[minmax(0,1fr)_14rem] lg:gap-12' : 'max-w-4xl'
+          }`}
+        >
         {/* Article Content */}
-        <article className="max-w-4xl mx-auto px-4 py-8">
+        <article className="min-w-0">
           {/* Featured Image */}
           {selectedArticle.imageUrl && (
-            <div className="w-full h-96 overflow-hidden rounded-lg mb-8">
-              <img
-                src={selectedArticle.imageUrl}
-                alt={selectedArticle.title}
-                className="w-full h-full object-cover"
-              />
-            </div>
+            <ResponsiveImage
+              src={selectedArticle.imageUrl}
+              alt={selectedArticle.title}
+              image={selectedArticle.responsiveImage}
+              sizes="(min-width: 1024px) 896px, 100vw"
+              priority
+              className="w-full h-96 rounded-lg mb-8"
+            />
           )}
 
           {/* Title and Meta */}
           <div className="mb-8">
             <h1 className="mb-4">{selectedArticle.title}</h1>
-            <div className="text-gray-600">
-              {new Date(selectedArticle.createdAt).toLocaleDateString('en-US', {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              })}
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-600">
+              {/* The server formats dates in UTC, which may be a different day from the reader's */}
+              <span suppressHydrationWarning>
+                {new Date(selectedArticle.createdAt).toLocaleDateString('en-US', {
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric'
+                })}
+                {selectedArticle.category && (
+                  <>
+                    {' · '}
+                    <Link
+                      to={taxonomyPath({ type: 'category', value: selectedArticle.category })}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {selectedArticle.category}
+                    </Link>
+                  </>
+                )}
+              </span>
+              <ReadingStats wordCount={selectedArticle.wordCount} readingTime={selectedArticle.readingTime} />
             </div>
+            {selectedArticle.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {selectedArticle.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" asChild>
+                    <Link to={taxonomyPath({ type: 'tag', value: tag })}>
+                      #{tag}
+                    </Link>
+                  </Badge>
+                ))}
+              </div>
+            )}
           </div>
 
-          {/* Audio Player */}
-          <AudioPlayer
-            audioUrl={selectedArticle.audioUrl}
-            text={selectedArticle.content}
-          />
+          {/* Audio Player; read-aloud needs the app's scripts, an audio file doesn't */}
+          {staticExport ? (
+            selectedArticle.audioUrl && (
+              <audio src={selectedArticle.audioUrl} controls preload="metadata" className="w-full mb-8" />
+            )
+          ) : (
+            <AudioPlayer
+              audioUrl={selectedArticle.audioUrl}
+              text={selectedArticle.content}
+            />
+          )}
 
           {/* Video Embed */}
           {selectedArticle.videoUrl && (
             <div className="mb-8 aspect-video">
-              <iframe
-                src={selectedArticle.videoUrl}
-                title={`Video for ${selectedArticle.title}`}
-                className="w-full h-full rounded-lg"
-                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                allowFullScreen
-              />
+              {isVideoFile(selectedArticle.videoUrl) ? (
+                <video
+                  src={selectedArticle.videoUrl}
+                  controls
+                  preload="metadata"
+                  className="w-full h-full rounded-lg bg-black"
+                />
+              ) : (
+                <iframe
+                  src={selectedArticle.videoUrl}
+                  title={`Video for ${selectedArticle.title}`}
+                  className="w-full h-full rounded-lg"
+                  allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                  allowFullScreen
+                />
+              )}
+            </div>
+          )}
+
+          {showToc && (
+            <div className="lg:hidden">
+              <MobileTableOfContents headings={headings} activeId={activeHeading} />
             </div>
           )}
 
           {/* Article Content */}
-          <div className="prose prose-lg max-w-none mb-12">
-            <div className="whitespace-pre-wrap">{selectedArticle.content}</div>
+          <div ref={articleBodyRef}>
+            <ArticleContent
+              content={selectedArticle.content}
+              format={selectedArticle.format}
+              className="text-lg mb-12"
+            />
           </div>
 
           {/* Comments Section */}
-          <CommentSection
-            articleId={selectedArticle.id}
-            isAdmin={!!accessToken}
-            accessToken={accessToken}
-          />
+          {!staticExport && (
+              <CommentSection
+                articleId={selectedArticle.id}
+                canModerate={!!currentUser?.permissions.includes('comment:moderate')}
+                accessToken={accessToken}
+              />
+          )}
         </article>
+
+        {showToc && (
+          <aside className="hidden lg:block">
+            <TableOfContents headings={headings} activeId={activeHeading} />
+          </aside>
+        )}
+        </div>
         </div>
       </>
     );
   }
 
   // Admin Login View
-  if (currentView === 'admin-login') {
+  if (route.name === 'admin-login') {
     return (
       <>
         <Toaster position="top-right" richColors />
@@ -280,18 +700,27 @@ export default function App() {
   }
 
   // Admin Dashboard View
-  if (currentView === 'admin-dashboard' && accessToken) {
+  if (route.name === 'admin') {
     return (
       <>
         <Toaster position="top-right" richColors />
-        <AdminDashboard
-          accessToken={accessToken}
-          onLogout={handleLogout}
-          onViewBlog={handleBackToHome}
-        />
+        {accessToken && (
+          <AdminDashboard
+            accessToken={accessToken}
+            creating={route.creating}
+            editingId={route.editingId}
+            onLogout={handleLogout}
+            onViewBlog={() => navigate('/')}
+          />
+        )}
       </>
     );
   }
 
-  return null;
+  return (
+    <>
+      <Toaster position="top-right" richColors />
+      <NotFound />
+    </>
+  );
 }
\ No newline at end of file
@@ -1,137 +1,185 @@
 import { useState, useEffect } from "react";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader } from "./ui/card";
-import { Edit, Trash2, Plus, LogOut, Eye } from "lucide-react";
-import { projectId, publicAnonKey } from "../utils/supabase/info";
+import { Badge } from "./ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "./ui/pagination";
+import { Edit, Trash2, Plus, LogOut, Eye, Tags, Users, Inbox, Settings } from "lucide-react";
 import { ArticleEditor } from "./ArticleEditor";
-import { createClient } from "@supabase/supabase-js";
+import { TagManager } from "./TagManager";
+import { UserManager } from "./UserManager";
+import { InviteManager } from "./InviteManager";
+import { ModerationInbox } from "./ModerationInbox";
+import { SiteSettings } from "./SiteSettings";
+import { PodcastSettings } from "./PodcastSettings";
+import { navigate } from "../utils/router";
+import { supabase } from "../utils/supabase/client";
+import * as api from "../utils/api";
+import type { Article, ArticleInput, ArticleStatus, ArticleSummary, CurrentUser, TagCount } from "../utils/types";
 import { toast } from "sonner";
 
-const supabase = createClient(
-  `https://${projectId}.supabase.co`,
-  publicAnonKey
-);
-
-interface Article {
-  id: string;
-  title: string;
-  content: string;
-  excerpt: string;
-  imageUrl?: string | null;
-  videoUrl?: string | null;
-  audioUrl?: string | null;
-  createdAt: string;
-  updatedAt: string;
-}
+const PUBLISHING_STATUSES: ArticleStatus[] = ['published', 'scheduled'];
+
+const PAGE_SIZE = 10;
+
+const STATUS_FILTERS: Array<ArticleStatus | 'all'> = ['all', 'published', 'scheduled', 'draft', 'archived'];
+
+const STATUS_BADGE_CLASSES: Record<ArticleStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  scheduled: 'bg-amber-100 text-amber-800',
+  published: 'bg-green-100 text-green-800',
+  archived: 'bg-slate-200 text-slate-600',
+};
 
 interface AdminDashboardProps {
   accessToken: string;
+  // The editor is driven by the URL: /admin/articles/new and /admin/articles/:id/edit
+  creating?: boolean;
+  editingId?: string | null;
   onLogout: () => void;
   onViewBlog: () => void;
 }
 
-export function AdminDashboard({ accessToken, onLogout, onViewBlog }: AdminDashboardProps) {
-  const [articles, setArticles] = useState<Article[]>([]);
+export function AdminDashboard({ accessToken, creating = false, editingId = null, onLogout, onViewBlog }: AdminDashboardProps) {
+  const [articles, setArticles] = useState<ArticleSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  // pageCursors[i] is the cursor that loads page i; page 0 starts without one
+  const [pageCursors, setPageCursors] = useState<Array<string | null>>([null]);
   const [loading, setLoading] = useState(true);
   const [editingArticle, setEditingArticle] = useState<Article | null>(null);
-  const [isCreating, setIsCreating] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ArticleStatus | 'all'>('all');
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [managingTags, setManagingTags] = useState(false);
+  const [managingUsers, setManagingUsers] = useState(false);
+  const [moderating, setModerating] = useState(false);
+  const [editingSettings, setEditingSettings] = useState(false);
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+
+  useEffect(() => {
+    loadArticles(0, [null]);
+  }, [statusFilter]);
 
   useEffect(() => {
-    loadArticles();
+    loadTaxonomy();
+    loadCurrentUser();
   }, []);
 
-  const loadArticles = async () => {
+  useEffect(() => {
+    if (editingId) {
+      loadEditingArticle(editingId);
+    } else {
+      setEditingArticle(null);
+    }
+  }, [editingId]);
+
+  const loadCurrentUser = async () => {
+    try {
+      const data = await api.getCurrentUser(accessToken);
+      setCurrentUser(data.user);
+    } catch (error) {
+      console.error('Error loading current user:', error);
+    }
+  };
+
+  // These mirror the server's permission checks; the server still enforces them
+  const can = (permission: string) => !!currentUser?.permissions.includes(permission);
+
+  const canEdit = (article: ArticleSummary) =>
+    can('article:edit-any') ||
+    (article.authorId === currentUser?.id &&
+      can('article:edit-own') &&
+      (currentUser?.role !== 'contributor' || article.status === 'draft'));
+
+  const canDelete = (article: ArticleSummary) =>
+    can('article:delete-any') || (article.authorId === currentUser?.id && can('article:delete-own'));
+
+  // Without publish rights, articles can't be moved into or out of reader-visible statuses
+  const allowedStatuses = (current?: ArticleStatus): ArticleStatus[] => {
+    if (can('article:publish')) return ['draft', 'scheduled', 'published', 'archived'];
+    if (current && PUBLISHING_STATUSES.includes(current)) return [current];
+    return ['draft', 'archived'];
+  };
+
+  // Tags and categories across all articles, for editor autocomplete and the tag manager
+  const loadTaxonomy = async () => {
+    try {
+      const [tagsData, categoriesData] = await Promise.all([
+        api.listTags(true, accessToken),
+        api.listCategories(true, accessToken),
+      ]);
+      setTags(tagsData.tags);
+      setCategories(categoriesData.categories.map((category) => category.name));
+    } catch (error) {
+      console.error('Error loading tags and categories:', error);
+    }
+  };
+
+  const loadArticles = async (pageIndex = page, cursors = pageCursors) => {
     setLoading(true);
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/articles`,
-        {
-          headers: {
-            Authorization: `Bearer ${publicAnonKey}`,
-          },
-        }
+      const data = await api.listArticles(
+        { status: statusFilter, cursor: cursors[pageIndex], limit: PAGE_SIZE, summary: true },
+        accessToken,
       );
-
-      if (!response.ok) {
-        console.error('Failed to load articles:', await response.text());
-        toast.error('Failed to load articles');
-        return;
+      // The page emptied out, e.g. its last article was deleted; show the one before it
+      if (data.articles.length === 0 && pageIndex > 0) {
+        return loadArticles(pageIndex - 1, cursors);
       }
 
-      const data = await response.json();
-      setArticles(data.articles || []);
+      const nextCursors = cursors.slice(0, pageIndex + 1);
+      if (data.nextCursor) nextCursors.push(data.nextCursor);
+
+      setArticles(data.articles);
+      setTotal(data.total);
+      setPage(pageIndex);
+      setPageCursors(nextCursors);
     } catch (error) {
       console.error('Error loading articles:', error);
-      toast.error('Unable to load articles. Please check your connection.');
+      toast.error(api.errorMessage(error, 'Failed to load articles'));
     } finally {
       setLoading(false);
     }
   };
 
-  const handleCreate = async (articleData: Omit<Article, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const handleCreate = async (articleData: ArticleInput) => {
     setSaving(true);
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/articles`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${accessToken}`,
-          },
-          body: JSON.stringify(articleData),
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('Failed to create article:', error);
-        toast.error('Failed to create article. Please try again.');
-        return;
-      }
+      await api.createArticle(articleData, accessToken);
 
-      setIsCreating(false);
-      await loadArticles();
+      navigate('/admin');
+      await Promise.all([loadArticles(0, [null]), loadTaxonomy()]);
       toast.success('Article created successfully!');
     } catch (error) {
       console.error('Error creating article:', error);
-      toast.error('Unable to create article. Please check your connection.');
+      toast.error(api.errorMessage(error, 'Failed to create article. Please try again.'));
     } finally {
       setSaving(false);
     }
   };
 
-  const handleUpdate = async (articleData: Omit<Article, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const handleUpdate = async (articleData: ArticleInput) => {
     if (!editingArticle) return;
 
     setSaving(true);
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/articles/${editingArticle.id}`,
-        {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${accessToken}`,
-          },
-          body: JSON.stringify(articleData),
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('Failed to update article:', error);
-        toast.error('Failed to update article. Please try again.');
-        return;
-      }
+      await api.updateArticle(editingArticle.id, articleData, accessToken);
 
-      setEditingArticle(null);
-      await loadArticles();
+      navigate('/admin');
+      await Promise.all([loadArticles(), loadTaxonomy()]);
       toast.success('Article updated successfully!');
     } catch (error) {
       console.error('Error updating article:', error);
-      toast.error('Unable to update article. Please check your connection.');
+      toast.error(api.errorMessage(error, 'Failed to update article. Please try again.'));
     } finally {
       setSaving(false);
     }
@@ -143,28 +191,26 @@ export function AdminDashboard({ accessToken, onLogout, onViewBlog }: AdminDashb
     }
 
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/articles/${id}`,
-        {
-          method: 'DELETE',
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        }
-      );
+      await api.deleteArticle(id, accessToken);
 
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('Failed to delete article:', error);
-        toast.error('Failed to delete article. Please try again.');
-        return;
-      }
-
-      await loadArticles();
+      await Promise.all([loadArticles(), loadTaxonomy()]);
       toast.success('Article deleted successfully');
     } catch (error) {
       console.error('Error deleting article:', error);
-      toast.error('Unable to delete article. Please check your connection.');
+      toast.error(api.errorMessage(error, 'Failed to delete article. Please try again.'));
+    }
+  };
+
+  // List pages only carry summaries, so fetch the full article before opening the editor
+  const loadEditingArticle = async (id: string) => {
+    setEditingArticle(null);
+    try {
+      const data = await api.getArticle(id, accessToken);
+      setEditingArticle(data.article);
+    } catch (error) {
+      console.error('Error loading article:', error);
+      toast.error(api.isNotFound(error) ? 'Article not found' : api.errorMessage(error, 'Failed to load article. Please try again.'));
+      navigate('/admin', { replace: true });
     }
   };
 
@@ -173,23 +219,42 @@ export function AdminDashboard({ accessToken, onLogout, onViewBlog }: AdminDashb
     onLogout();
   };
 
-  if (isCreating) {
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasNextPage = page + 1 < pageCursors.length;
+
+  if (creating) {
     return (
       <ArticleEditor
         onSave={handleCreate}
-        onCancel={() => setIsCreating(false)}
+        onCancel={() => navigate('/admin')}
         saving={saving}
+        allowedStatuses={allowedStatuses()}
+        availableTags={tags.map((tag) => tag.name)}
+        availableCategories={categories}
       />
     );
   }
 
-  if (editingArticle) {
+  if (editingId && editingArticle?.id !== editingId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-500">Loading article...</p>
+      </div>
+    );
+  }
+
+  if (editingId && editingArticle) {
     return (
       <ArticleEditor
+        key={editingArticle.id}
         article={editingArticle}
         onSave={handleUpdate}
-        onCancel={() => setEditingArticle(null)}
+        onCancel={() => navigate('/admin')}
         saving={saving}
+        allowedStatuses={allowedStatuses(editingArticle.status)}
+        accessToken={accessToken}
+        availableTags={tags.map((tag) => tag.name)}
+        availableCategories={categories}
       />
     );
   }
@@ -198,8 +263,37 @@ export function AdminDashboard({ accessToken, onLogout, onViewBlog }: AdminDashb
     <div className="min-h-screen bg-gray-50">
       <div className="bg-white border-b">
         <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
-          <h1>Admin Dashboard</h1>
+          <div>
+            <h1>Admin Dashboard</h1>
+            {currentUser && (
+              <p className="text-sm text-gray-500 capitalize">Signed in as {currentUser.role}</p>
+            )}
+          </div>
           <div className="flex gap-2">
+            {can('user:manage') && (
+              <Button variant="outline" onClick={() => setManagingUsers(!managingUsers)}>
+                <Users className="w-4 h-4 mr-2" />
+                {managingUsers ? 'Hide Users' : 'Users'}
+              </Button>
+            )}
+            {can('user:manage') && (
+              <Button variant="outline" onClick={() => setEditingSettings(!editingSettings)}>
+                <Settings className="w-4 h-4 mr-2" />
+                {editingSettings ? 'Hide Settings' : 'Settings'}
+              </Button>
+            )}
+            {can('comment:moderate') && (
+              <Button variant="outline" onClick={() => setModerating(!moderating)}>
+                <Inbox className="w-4 h-4 mr-2" />
+                {moderating ? 'Hide Comments' : 'Comments'}
+              </Button>
+            )}
+            {can('tag:manage') && (
+              <Button variant="outline" onClick={() => setManagingTags(!managingTags)}>
+                <Tags className="w-4 h-4 mr-2" />
+                {managingTags ? 'Hide Tags' : 'Manage Tags'}
+              </Button>
+            )}
             <Button variant="outline" onClick={onViewBlog}>
               <Eye className="w-4 h-4 mr-2" />
               View Blog
@@ -213,26 +307,76 @@ export function AdminDashboard({ accessToken, onLogout, onViewBlog }: AdminDashb
       </div>
 
       <div className="max-w-6xl mx-auto px-4 py-8">
+        {managingUsers && currentUser && can('user:manage') && (
+          <div className="mb-8 space-y-8">
+            <UserManager accessToken={accessToken} currentUserId={currentUser.id} />
+            <InviteManager accessToken={accessToken} />
+          </div>
+        )}
+
+        {editingSettings && can('user:manage') && (
+          <div className="mb-8 space-y-8">
+            <SiteSettings accessToken={accessToken} />
+            <PodcastSettings accessToken={accessToken} />
+          </div>
+        )}
+
+        {moderating && can('comment:moderate') && (
+          <div className="mb-8">
+            <ModerationInbox accessToken={accessToken} />
+          </div>
+        )}
+
+        {managingTags && can('tag:manage') && (
+          <div className="mb-8">
+            <TagManager
+              tags={tags}
+              accessToken={accessToken}
+              onTagsChanged={() => Promise.all([loadArticles(), loadTaxonomy()])}
+            />
+          </div>
+        )}
+
         <div className="flex items-center justify-between mb-6">
-          <h2>Your Articles ({articles.length})</h2>
-          <Button onClick={() => setIsCreating(true)}>
-            <Plus className="w-4 h-4 mr-2" />
-            New Article
-          </Button>
+          <h2>Your Articles ({total})</h2>
+          {can('article:create') && (
+            <Button onClick={() => navigate('/admin/articles/new')}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Article
+            </Button>
+          )}
         </div>
 
+        <Tabs
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as ArticleStatus | 'all')}
+          className="mb-6"
+        >
+          <TabsList>
+            {STATUS_FILTERS.map((status) => (
+              <TabsTrigger key={status} value={status} className="capitalize">
+                {status}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
         {loading ? (
           <div className="text-center py-12">
             <p className="text-gray-500">Loading articles...</p>
           </div>
+        ) : total === 0 && statusFilter !== 'all' ? (
+          <p className="text-center text-gray-500 py-12">No {statusFilter} articles.</p>
         ) : articles.length === 0 ? (
           <Card>
             <CardContent className="text-center py-12">
               <p className="text-gray-500 mb-4">No articles yet. Create your first one!</p>
-              <Button onClick={() => setIsCreating(true)}>
-                <Plus className="w-4 h-4 mr-2" />
-                Create Article
-              </Button>
+              {can('article:create') && (
+                <Button onClick={() => navigate('/admin/articles/new')}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Article
+                </Button>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -242,12 +386,30 @@ export function AdminDashboard({ accessToken, onLogout, onViewBlog }: AdminDashb
                 <CardContent className="pt-6">
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
-                      <h3 className="mb-2">{article.title}</h3>
+                      <div className="flex items-center gap-2 mb-2">
+                        <h3>{article.title}</h3>
+                        <Badge className={`capitalize ${STATUS_BADGE_CLASSES[article.status]}`}>
+                          {article.status}
+                        </Badge>
+                      </div>
                       <p className="text-gray-600 mb-4">{article.excerpt}</p>
+                      {(article.category || article.tags.length > 0) && (
+                        <div className="flex flex-wrap items-center gap-2 mb-4">
+                          {article.category && <Badge>{article.category}</Badge>}
+                          {article.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary">#{tag}</Badge>
+                          ))}
+                        </div>
+                      )}
                       <div className="flex items-center gap-4 text-sm text-gray-500">
                         <span>
                           Created: {new Date(article.createdAt).toLocaleDateString()}
                         </span>
+                        {article.status === 'scheduled' && article.publishAt && (
+                          <span>
+                            Publishes: {new Date(article.publishAt).toLocaleString()}
+                          </span>
+                        )}
                         {article.updatedAt !== article.createdAt && (
                           <span>
                             Updated: {new Date(article.updatedAt).toLocaleDateString()}
@@ -256,26 +418,74 @@ export function AdminDashboard({ accessToken, onLogout, onViewBlog }: AdminDashb
                       </div>
                     </div>
                     <div className="flex gap-2 ml-4">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setEditingArticle(article)}
-                      >
-                        <Edit className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDelete(article.id)}
-                        className="text-red-600 hover:text-red-700"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {canEdit(article) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(`/admin/articles/${article.id}/edit`)}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {canDelete(article) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(article.id)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
               </Card>
             ))}
+
+            {pageCount > 1 && (
+              <Pagination className="pt-4">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      aria-disabled={page === 0}
+                      className={page === 0 ? 'pointer-events-none opacity-50' : undefined}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        loadArticles(page - 1);
+                      }}
+                    />
+                  </PaginationItem>
+                  {/* Pages can only be jumped to once their cursor is known */}
+                  {pageCursors.map((_, index) => (
+                    <PaginationItem key={index}>
+                      <PaginationLink
+                        href="#"
+                        isActive={index === page}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          loadArticles(index);
+                        }}
+                      >
+                        {index + 1}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      aria-disabled={!hasNextPage}
+                      className={!hasNextPage ? 'pointer-events-none opacity-50' : undefined}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        loadArticles(page + 1);
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
           </div>
         )}
       </div>
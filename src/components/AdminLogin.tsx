@@ -1,32 +1,47 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Card, CardContent, CardHeader, CardDescription } from "./ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { Lock } from "lucide-react";
-import { createClient } from "@supabase/supabase-js";
-import { projectId, publicAnonKey } from "../utils/supabase/info";
+import { supabase } from "../utils/supabase/client";
+import * as api from "../utils/api";
+import { navigate } from "../utils/router";
 import { toast } from "sonner";
 
-const supabase = createClient(
-  `https://${projectId}.supabase.co`,
-  publicAnonKey
-);
-
 interface AdminLoginProps {
   onLoginSuccess: (accessToken: string) => void;
 }
 
+// Token from an invite link (`/admin/login?invite=...`), if the visitor followed one
+const getInviteFromUrl = () => new URLSearchParams(window.location.search).get('invite') ?? "";
+
 export function AdminLogin({ onLoginSuccess }: AdminLoginProps) {
   const [loginEmail, setLoginEmail] = useState("");
   const [loginPassword, setLoginPassword] = useState("");
   const [signupEmail, setSignupEmail] = useState("");
   const [signupPassword, setSignupPassword] = useState("");
   const [signupName, setSignupName] = useState("");
+  const [inviteToken, setInviteToken] = useState(getInviteFromUrl);
+  const [bootstrap, setBootstrap] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
 
+  useEffect(() => {
+    checkSignupStatus();
+  }, []);
+
+  // With no accounts yet, the sign-up form creates the first admin without an invite
+  const checkSignupStatus = async () => {
+    try {
+      const data = await api.getSignupStatus();
+      setBootstrap(data.bootstrap === true);
+    } catch (err) {
+      console.error('Error checking signup status:', err);
+    }
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -99,29 +114,24 @@ export function AdminLogin({ onLoginSuccess }: AdminLoginProps) {
       return;
     }
 
+    if (!bootstrap && !inviteToken.trim()) {
+      setError('An invite code is required to create an account');
+      setLoading(false);
+      return;
+    }
+
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/signup`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${publicAnonKey}`,
-          },
-          body: JSON.stringify({
-            email: signupEmail,
-            password: signupPassword,
-            name: signupName,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('Signup error:', errorData);
-        setError(errorData.error || 'Signup failed');
-        return;
-      }
+      await api.signup({
+        email: signupEmail,
+        password: signupPassword,
+        name: signupName,
+        inviteToken: bootstrap ? undefined : inviteToken.trim(),
+      });
+
+      // The invite is spent, so drop it from the address bar
+      const params = new URLSearchParams(window.location.search);
+      params.delete('invite');
+      navigate(`${window.location.pathname}${params.toString() ? `?${params}` : ''}`, { replace: true });
 
       // Auto-login after signup
       const { data, error } = await supabase.auth.signInWithPassword({
@@ -140,7 +150,7 @@ export function AdminLogin({ onLoginSuccess }: AdminLoginProps) {
       }
     } catch (err) {
       console.error('Signup error:', err);
-      setError('An unexpected error occurred');
+      setError(api.errorMessage(err, 'Signup failed'));
     } finally {
       setLoading(false);
     }
@@ -159,7 +169,7 @@ export function AdminLogin({ onLoginSuccess }: AdminLoginProps) {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="login" className="w-full">
+          <Tabs defaultValue={inviteToken ? "signup" : "login"} className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="login">Login</TabsTrigger>
               <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -202,6 +212,23 @@ export function AdminLogin({ onLoginSuccess }: AdminLoginProps) {
 
             <TabsContent value="signup">
               <form onSubmit={handleSignup} className="space-y-4">
+                {bootstrap ? (
+                  <p className="text-sm text-blue-700 bg-blue-50 p-3 rounded">
+                    No accounts exist yet. The account you create now will be the site administrator.
+                  </p>
+                ) : (
+                  <div>
+                    <Label htmlFor="signup-invite">Invite Code</Label>
+                    <Input
+                      id="signup-invite"
+                      type="text"
+                      value={inviteToken}
+                      onChange={(e) => setInviteToken(e.target.value)}
+                      placeholder="Paste the code from your invite link"
+                      required
+                    />
+                  </div>
+                )}
                 <div>
                   <Label htmlFor="signup-name">Name</Label>
                   <Input
@@ -241,7 +268,7 @@ export function AdminLogin({ onLoginSuccess }: AdminLoginProps) {
                   </div>
                 )}
                 <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? 'Creating Account...' : 'Create Account'}
+                  {loading ? 'Creating Account...' : bootstrap ? 'Create Admin Account' : 'Create Account'}
                 </Button>
               </form>
             </TabsContent>
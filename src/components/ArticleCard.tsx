@@ -1,6 +1,11 @@
 import { Calendar, User } from "lucide-react";
 import { Card, CardContent, CardFooter, CardHeader } from "./ui/card";
 import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ReadingStats } from "./ReadingStats";
+import { ResponsiveImage } from "./ResponsiveImage";
+import type { ResponsiveImageData } from "../utils/types";
+import { Link } from "../utils/router";
 
 interface ArticleCardProps {
   article: {
@@ -8,12 +13,23 @@ interface ArticleCardProps {
     title: string;
     excerpt: string;
     imageUrl?: string | null;
+    responsiveImage?: ResponsiveImageData | null;
+    tags?: string[];
+    category?: string | null;
     createdAt: string;
+    wordCount?: number;
+    readingTime?: number;
   };
-  onReadMore: (id: string) => void;
+  onReadMore?: (id: string) => void;
+  onTagClick?: (tag: string) => void;
+  onCategoryClick?: (category: string) => void;
+  // Addresses to link to instead of the click handlers, so the card works as plain HTML too
+  href?: string;
+  tagHref?: (tag: string) => string;
+  categoryHref?: (category: string) => string;
 }
 
-export function ArticleCard({ article, onReadMore }: ArticleCardProps) {
+export function ArticleCard({ article, onReadMore, onTagClick, onCategoryClick, href, tagHref, categoryHref }: ArticleCardProps) {
   const formattedDate = new Date(article.createdAt).toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
@@ -23,32 +39,73 @@ export function ArticleCard({ article, onReadMore }: ArticleCardProps) {
   return (
     <Card className="overflow-hidden hover:shadow-lg transition-shadow">
       {article.imageUrl && (
-        <div className="w-full h-48 overflow-hidden">
-          <img
-            src={article.imageUrl}
-            alt={article.title}
-            className="w-full h-full object-cover"
-          />
-        </div>
+        <ResponsiveImage
+          src={article.imageUrl}
+          alt={article.title}
+          image={article.responsiveImage}
+          sizes="(min-width: 1024px) 370px, (min-width: 768px) 50vw, 100vw"
+          className="w-full h-48"
+        />
       )}
       <CardHeader>
-        <h2 className="cursor-pointer hover:text-blue-600 transition-colors" onClick={() => onReadMore(article.id)}>
-          {article.title}
-        </h2>
-        <div className="flex items-center gap-4 text-gray-500 text-sm mt-2">
+        {article.category && (categoryHref ? (
+          <Link to={categoryHref(article.category)} className="text-xs uppercase tracking-wide text-blue-600 hover:underline w-fit">
+            {article.category}
+          </Link>
+        ) : (
+          <button
+            type="button"
+            onClick={() => onCategoryClick?.(article.category!)}
+            className="text-xs uppercase tracking-wide text-blue-600 hover:underline w-fit"
+          >
+            {article.category}
+          </button>
+        ))}
+        {href ? (
+          <h2 className="hover:text-blue-600 transition-colors">
+            <Link to={href}>{article.title}</Link>
+          </h2>
+        ) : (
+          <h2 className="cursor-pointer hover:text-blue-600 transition-colors" onClick={() => onReadMore?.(article.id)}>
+            {article.title}
+          </h2>
+        )}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-500 text-sm mt-2">
           <div className="flex items-center gap-1">
             <Calendar className="w-4 h-4" />
-            <span>{formattedDate}</span>
+            <span suppressHydrationWarning>{formattedDate}</span>
           </div>
+          <ReadingStats wordCount={article.wordCount} readingTime={article.readingTime} />
         </div>
       </CardHeader>
       <CardContent>
         <p className="text-gray-600">{article.excerpt}</p>
+        {article.tags && article.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {article.tags.map((tag) => (
+              <Badge key={tag} variant="secondary" asChild>
+                {tagHref ? (
+                  <Link to={tagHref(tag)}>#{tag}</Link>
+                ) : (
+                  <button type="button" onClick={() => onTagClick?.(tag)}>
+                    #{tag}
+                  </button>
+                )}
+              </Badge>
+            ))}
+          </div>
+        )}
       </CardContent>
       <CardFooter>
-        <Button onClick={() => onReadMore(article.id)} variant="default">
-          Read More
-        </Button>
+        {href ? (
+          <Button variant="default" asChild>
+            <Link to={href}>Read More</Link>
+          </Button>
+        ) : (
+          <Button onClick={() => onReadMore?.(article.id)} variant="default">
+            Read More
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,66 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize from "rehype-sanitize";
+import type { ComponentProps } from "react";
+import { CodeBlock } from "./CodeBlock";
+import { Link } from "../utils/router";
+import { rehypeCodeMeta, rehypeFootnoteIds, rehypeHeadingIds, sanitizeSchema } from "../utils/markdown";
+import type { ContentFormat } from "../utils/types";
+import "../styles/article-content.css";
+
+interface ArticleContentProps {
+  content: string;
+  format?: ContentFormat;
+  className?: string;
+}
+
+// Absolute links open in a new tab; links to other pages of the blog go through the router
+const isExternal = (href?: string) => !!href && /^https?:\/\//.test(href);
+
+// Section headings get a "#" link to themselves, for sharing
+const anchored = (Tag: 'h2' | 'h3' | 'h4') =>
+  function AnchoredHeading({ node: _node, id, children, ...props }: ComponentProps<typeof Tag> & { node?: unknown }) {
+    return (
+      <Tag id={id} {...props}>
+        {children}
+        {id && (
+          <a href={`#${id}`} className="heading-anchor" aria-label="Link to this section">#</a>
+        )}
+      </Tag>
+    );
+  };
+
+const components: Components = {
+  a: ({ node: _node, href, ...props }) =>
+    isExternal(href)
+      ? <a href={href} target="_blank" rel="noopener noreferrer nofollow" {...props} />
+      : href?.startsWith('/')
+        ? <Link to={href} {...props} />
+        : <a href={href} {...props} />,
+  img: ({ node: _node, ...props }) => <img loading="lazy" {...props} />,
+  pre: CodeBlock,
+  h2: anchored('h2'),
+  h3: anchored('h3'),
+  h4: anchored('h4'),
+};
+
+// GFM Markdown with inline HTML allowed; rehype-sanitize runs after rehype-raw, so whatever
+// HTML the author wrote is filtered through GitHub's allow-list (no scripts, handlers or javascript: URLs)
+export function ArticleContent({ content, format = 'plain', className = "" }: ArticleContentProps) {
+  if (format === 'plain') {
+    return <div className={`whitespace-pre-wrap ${className}`}>{content}</div>;
+  }
+
+  return (
+    <div className={`article-content ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeCodeMeta, rehypeRaw, [rehypeSanitize, sanitizeSchema], rehypeFootnoteIds, rehypeHeadingIds]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -4,45 +4,149 @@ import { Input } from "./ui/input";
 import { Textarea } from "./ui/textarea";
 import { Label } from "./ui/label";
 import { Card, CardContent, CardHeader } from "./ui/card";
-import { ArrowLeft } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+import { TagInput } from "./TagInput";
+import { RevisionHistory } from "./RevisionHistory";
+import { MarkdownEditor } from "./MarkdownEditor";
+import { MediaInput } from "./MediaInput";
+import type { Article, ArticleInput, ArticleStatus, ContentFormat } from "../utils/types";
+import { ArrowLeft, History } from "lucide-react";
 import { toast } from "sonner";
 
-interface Article {
-  id?: string;
-  title: string;
-  content: string;
-  excerpt: string;
-  imageUrl: string;
-  videoUrl: string;
-  audioUrl: string;
-}
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Roughly what search results show before cutting text off; longer is allowed, just truncated
+const SEO_TITLE_DISPLAY_LENGTH = 60;
+const SEO_DESCRIPTION_DISPLAY_LENGTH = 160;
+
+// Mirrors the server's slugify so the suggested slug matches what would be generated
+const slugify = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 80)
+    .replace(/^-+|-+$/g, '');
+
+// Rough plain-text version of Markdown for the auto-generated excerpt
+const markdownToText = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_~`|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Format seconds as h:mm:ss or m:ss
+const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.round(seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Convert an ISO timestamp to the local "YYYY-MM-DDTHH:mm" format used by datetime-local inputs
+const toDateTimeLocal = (iso?: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
 
 interface ArticleEditorProps {
   article?: Article | null;
-  onSave: (article: Omit<Article, 'id'>) => void;
+  onSave: (article: ArticleInput) => void;
   onCancel: () => void;
   saving?: boolean;
+  availableTags?: string[];
+  availableCategories?: string[];
+  accessToken?: string;
+  allowedStatuses?: ArticleStatus[];
 }
 
-export function ArticleEditor({ article, onSave, onCancel, saving = false }: ArticleEditorProps) {
+export function ArticleEditor({
+  article,
+  onSave,
+  onCancel,
+  saving = false,
+  availableTags = [],
+  availableCategories = [],
+  accessToken,
+  allowedStatuses = ['draft', 'scheduled', 'published', 'archived'],
+}: ArticleEditorProps) {
   const [title, setTitle] = useState(article?.title || "");
+  const [slug, setSlug] = useState(article?.slug || "");
+  // New articles follow the title until the slug is edited by hand
+  const [slugEdited, setSlugEdited] = useState(!!article?.slug);
   const [content, setContent] = useState(article?.content || "");
+  // New articles are Markdown; older plain-text ones stay plain until switched over
+  const [format, setFormat] = useState<ContentFormat>(article ? article.format ?? 'plain' : 'markdown');
   const [excerpt, setExcerpt] = useState(article?.excerpt || "");
   const [imageUrl, setImageUrl] = useState(article?.imageUrl || "");
   const [videoUrl, setVideoUrl] = useState(article?.videoUrl || "");
   const [audioUrl, setAudioUrl] = useState(article?.audioUrl || "");
+  // Read from the audio file itself, for the podcast feed
+  const [audioDuration, setAudioDuration] = useState<number | null>(article?.audioDuration ?? null);
+  const [tags, setTags] = useState<string[]>(article?.tags || []);
+  const [category, setCategory] = useState(article?.category || "");
+  const [status, setStatus] = useState<ArticleStatus>(article?.status || 'draft');
+  const [publishAt, setPublishAt] = useState(toDateTimeLocal(article?.publishAt));
+  const [noindex, setNoindex] = useState(article?.noindex ?? false);
+  const [seoTitle, setSeoTitle] = useState(article?.seoTitle || "");
+  const [seoDescription, setSeoDescription] = useState(article?.seoDescription || "");
+  const [showHistory, setShowHistory] = useState(false);
 
   useEffect(() => {
     if (article) {
       setTitle(article.title);
+      setSlug(article.slug || "");
+      setSlugEdited(!!article.slug);
       setContent(article.content);
+      setFormat(article.format ?? 'plain');
       setExcerpt(article.excerpt);
       setImageUrl(article.imageUrl || "");
       setVideoUrl(article.videoUrl || "");
       setAudioUrl(article.audioUrl || "");
+      setAudioDuration(article.audioDuration ?? null);
+      setTags(article.tags || []);
+      setCategory(article.category || "");
+      setStatus(article.status || 'draft');
+      setPublishAt(toDateTimeLocal(article.publishAt));
+      setNoindex(article.noindex ?? false);
+      setSeoTitle(article.seoTitle || "");
+      setSeoDescription(article.seoDescription || "");
     }
   }, [article]);
 
+  // Load just the audio file's metadata to learn its duration, once the URL stops changing
+  useEffect(() => {
+    const url = audioUrl.trim();
+    if (!/^https?:\/\/.+/.test(url)) {
+      setAudioDuration(null);
+      return;
+    }
+
+    const audio = new Audio();
+    const timer = setTimeout(() => {
+      audio.preload = 'metadata';
+      audio.onloadedmetadata = () => setAudioDuration(Number.isFinite(audio.duration) ? Math.round(audio.duration) : null);
+      audio.onerror = () => setAudioDuration(null);
+      audio.src = url;
+    }, 500);
+
+    return () => {
+      clearTimeout(timer);
+      audio.onloadedmetadata = null;
+      audio.onerror = null;
+      audio.removeAttribute('src');
+    };
+  }, [audioUrl]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -57,6 +161,11 @@ export function ArticleEditor({ article, onSave, onCancel, saving = false }: Art
       return;
     }
 
+    if (slug && !SLUG_PATTERN.test(slug)) {
+      toast.error('Slug may only contain lowercase letters, numbers and single hyphens');
+      return;
+    }
+
     if (!content.trim()) {
       toast.error('Content is required');
       return;
@@ -85,16 +194,47 @@ export function ArticleEditor({ article, onSave, onCancel, saving = false }: Art
       return;
     }
 
+    if (status === 'scheduled') {
+      if (!publishAt) {
+        toast.error('Choose a publish date for scheduled articles');
+        return;
+      }
+
+      if (new Date(publishAt).getTime() <= Date.now()) {
+        toast.error('Publish date must be in the future');
+        return;
+      }
+    }
+
+    const plainText = format === 'markdown' ? markdownToText(content) : content.trim();
+
     onSave({
+      slug: slug || undefined,
       title: title.trim(),
       content: content.trim(),
-      excerpt: excerpt.trim() || content.trim().substring(0, 150) + '...',
+      format,
+      excerpt: excerpt.trim() || plainText.substring(0, 150) + '...',
       imageUrl: imageUrl.trim() || "",
       videoUrl: videoUrl.trim() || "",
       audioUrl: audioUrl.trim() || "",
+      audioDuration: audioUrl.trim() ? audioDuration : null,
+      tags,
+      category: category.trim() || null,
+      status,
+      publishAt: status === 'scheduled' ? new Date(publishAt).toISOString() : null,
+      noindex,
+      seoTitle: seoTitle.trim() || null,
+      seoDescription: seoDescription.trim() || null,
     });
   };
 
+  const submitLabels: Record<ArticleStatus, string> = {
+    draft: 'Save Draft',
+    scheduled: 'Schedule Article',
+    published: article?.id ? 'Update Article' : 'Publish Article',
+    archived: 'Archive Article',
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="mb-6">
@@ -102,9 +242,31 @@ export function ArticleEditor({ article, onSave, onCancel, saving = false }: Art
           <ArrowLeft className="w-4 h-4 mr-2" />
           Back to Dashboard
         </Button>
-        <h2>{article?.id ? 'Edit Article' : 'Create New Article'}</h2>
+        <div className="flex items-center justify-between">
+          <h2>{article?.id ? 'Edit Article' : 'Create New Article'}</h2>
+          {article?.id && accessToken && (
+            <Button type="button" variant="outline" onClick={() => setShowHistory(!showHistory)}>
+              <History className="w-4 h-4 mr-2" />
+              {showHistory ? 'Hide History' : 'History'}
+            </Button>
+          )}
+        </div>
       </div>
 
+      {showHistory && article?.id && accessToken && (
+        <div className="mb-6">
+          <RevisionHistory
+            articleId={article.id}
+            accessToken={accessToken}
+            onRestored={(restored) => {
+              setTitle(restored.title);
+              setExcerpt(restored.excerpt);
+              setContent(restored.content);
+            }}
+          />
+        </div>
+      )}
+
       <Card>
         <CardContent className="pt-6">
           <form onSubmit={handleSubmit} className="space-y-6">
@@ -113,12 +275,32 @@ export function ArticleEditor({ article, onSave, onCancel, saving = false }: Art
               <Input
                 id="title"
                 value={title}
-                onChange={(e) => setTitle(e.target.value)}
+                onChange={(e) => {
+                  setTitle(e.target.value);
+                  if (!slugEdited) setSlug(slugify(e.target.value));
+                }}
                 placeholder="Enter article title"
                 required
               />
             </div>
 
+            <div>
+              <Label htmlFor="slug">Slug</Label>
+              <Input
+                id="slug"
+                value={slug}
+                onChange={(e) => {
+                  setSlug(e.target.value.toLowerCase());
+                  setSlugEdited(true);
+                }}
+                placeholder="generated-from-title"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                /articles/{slug || slugify(title) || '...'}
+                {article?.slug && slug !== article.slug && ' (the old link will redirect here)'}
+              </p>
+            </div>
+
             <div>
               <Label htmlFor="excerpt">Excerpt</Label>
               <Textarea
@@ -131,18 +313,150 @@ export function ArticleEditor({ article, onSave, onCancel, saving = false }: Art
             </div>
 
             <div>
-              <Label htmlFor="content">Content *</Label>
-              <Textarea
-                id="content"
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                placeholder="Write your article content here..."
-                rows={15}
-                required
-              />
+              <div className="flex items-center justify-between mb-2">
+                <Label htmlFor="content">Content *</Label>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="content-markdown"
+                    checked={format === 'markdown'}
+                    onCheckedChange={(checked) => setFormat(checked ? 'markdown' : 'plain')}
+                  />
+                  <Label htmlFor="content-markdown">Markdown</Label>
+                </div>
+              </div>
+              {format === 'markdown' ? (
+                <MarkdownEditor
+                  id="content"
+                  value={content}
+                  onChange={setContent}
+                  placeholder="Write your article in Markdown..."
+                  accessToken={accessToken}
+                />
+              ) : (
+                <Textarea
+                  id="content"
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  placeholder="Write your article content here..."
+                  rows={15}
+                  required
+                />
+              )}
               <p className="text-xs text-gray-500 mt-1">
                 {content.length} characters
+                {format === 'markdown' && ' · GitHub-flavored Markdown; HTML is allowed but scripts and unsafe attributes are removed'}
+              </p>
+            </div>
+
+            <div className="border-t pt-6">
+              <h3 className="mb-4">Taxonomy</h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="category">Category</Label>
+                  <Input
+                    id="category"
+                    list="category-options"
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                    placeholder="e.g. Engineering"
+                  />
+                  <datalist id="category-options">
+                    {availableCategories.map((option) => (
+                      <option key={option} value={option} />
+                    ))}
+                  </datalist>
+                </div>
+
+                <div>
+                  <Label htmlFor="tags">Tags</Label>
+                  <TagInput
+                    id="tags"
+                    value={tags}
+                    onChange={setTags}
+                    suggestions={availableTags}
+                    placeholder="Type a tag and press Enter"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="border-t pt-6">
+              <h3 className="mb-4">Publishing</h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="status">Status</Label>
+                  <Select value={status} onValueChange={(value) => setStatus(value as ArticleStatus)}>
+                    <SelectTrigger id="status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {allowedStatuses.map((option) => (
+                        <SelectItem key={option} value={option} className="capitalize">
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {status === 'scheduled' && (
+                  <div>
+                    <Label htmlFor="publishAt">Publish At</Label>
+                    <Input
+                      id="publishAt"
+                      type="datetime-local"
+                      value={publishAt}
+                      onChange={(e) => setPublishAt(e.target.value)}
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2 mt-4">
+                <Switch id="noindex" checked={noindex} onCheckedChange={setNoindex} />
+                <Label htmlFor="noindex">Hide from search engines (left out of the sitemap)</Label>
+              </div>
+            </div>
+
+            <div className="border-t pt-6">
+              <h3 className="mb-1">Search &amp; Social</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                How the article appears in search results and link previews. Leave empty to use the title and excerpt.
               </p>
+
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="seoTitle">SEO Title</Label>
+                  <Input
+                    id="seoTitle"
+                    value={seoTitle}
+                    onChange={(e) => setSeoTitle(e.target.value)}
+                    placeholder={title || "Defaults to the article title"}
+                    maxLength={200}
+                  />
+                  <p className={`text-xs mt-1 ${seoTitle.trim().length > SEO_TITLE_DISPLAY_LENGTH ? 'text-amber-600' : 'text-gray-500'}`}>
+                    {seoTitle.trim().length}/{SEO_TITLE_DISPLAY_LENGTH} characters shown in most search results
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor="seoDescription">SEO Description</Label>
+                  <Textarea
+                    id="seoDescription"
+                    value={seoDescription}
+                    onChange={(e) => setSeoDescription(e.target.value)}
+                    placeholder={excerpt || "Defaults to the excerpt"}
+                    maxLength={500}
+                    rows={2}
+                  />
+                  <p className={`text-xs mt-1 ${seoDescription.trim().length > SEO_DESCRIPTION_DISPLAY_LENGTH ? 'text-amber-600' : 'text-gray-500'}`}>
+                    {seoDescription.trim().length}/{SEO_DESCRIPTION_DISPLAY_LENGTH} characters shown in most search results
+                  </p>
+                </div>
+              </div>
             </div>
 
             <div className="border-t pt-6">
@@ -151,40 +465,45 @@ export function ArticleEditor({ article, onSave, onCancel, saving = false }: Art
               <div className="space-y-4">
                 <div>
                   <Label htmlFor="imageUrl">Featured Image URL</Label>
-                  <Input
+                  <MediaInput
                     id="imageUrl"
-                    type="url"
+                    kind="image"
                     value={imageUrl}
-                    onChange={(e) => setImageUrl(e.target.value)}
+                    onChange={setImageUrl}
                     placeholder="https://example.com/image.jpg"
+                    accessToken={accessToken}
                   />
                 </div>
 
                 <div>
                   <Label htmlFor="videoUrl">Video Embed URL</Label>
-                  <Input
+                  <MediaInput
                     id="videoUrl"
-                    type="url"
+                    kind="video"
                     value={videoUrl}
-                    onChange={(e) => setVideoUrl(e.target.value)}
+                    onChange={setVideoUrl}
                     placeholder="https://www.youtube.com/embed/..."
+                    accessToken={accessToken}
                   />
                   <p className="text-xs text-gray-500 mt-1">
-                    Use YouTube embed URL format
+                    Use YouTube embed URL format, or upload a video file
                   </p>
                 </div>
 
                 <div>
                   <Label htmlFor="audioUrl">Audio File URL</Label>
-                  <Input
+                  <MediaInput
                     id="audioUrl"
-                    type="url"
+                    kind="audio"
                     value={audioUrl}
-                    onChange={(e) => setAudioUrl(e.target.value)}
+                    onChange={setAudioUrl}
                     placeholder="https://example.com/audio.mp3"
+                    accessToken={accessToken}
                   />
                   <p className="text-xs text-gray-500 mt-1">
-                    Leave empty to use automatic text-to-speech
+                    {audioUrl.trim() && audioDuration
+                      ? `Duration ${formatDuration(audioDuration)} - included in the podcast feed once published`
+                      : 'Leave empty to use automatic text-to-speech'}
                   </p>
                 </div>
               </div>
@@ -192,7 +511,7 @@ export function ArticleEditor({ article, onSave, onCancel, saving = false }: Art
 
             <div className="flex gap-4 pt-6 border-t">
               <Button type="submit" disabled={saving}>
-                {saving ? 'Saving...' : article?.id ? 'Update Article' : 'Publish Article'}
+                {saving ? 'Saving...' : submitLabels[status]}
               </Button>
               <Button type="button" variant="outline" onClick={onCancel}>
                 Cancel
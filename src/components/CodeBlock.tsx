@@ -0,0 +1,143 @@
+import { lazy, Suspense, useState, type ComponentProps, type CSSProperties, type ReactNode } from "react";
+import type { ExtraProps } from "react-markdown";
+import { Check, Copy } from "lucide-react";
+import { toast } from "sonner";
+import { textOf, type HastNode } from "../utils/markdown";
+
+// Fenced code blocks take options after the language, e.g.
+//   ```ts title="server.ts" showLineNumbers {2,5-7}
+// for a filename caption, line numbers and highlighted lines.
+export interface CodeMeta {
+  title: string | null;
+  showLineNumbers: boolean;
+  highlightLines: Set<number>;
+}
+
+// Guards against a typo like {1-100000} building a huge set
+const MAX_HIGHLIGHT_RANGE = 1000;
+
+const parseLineRanges = (ranges: string): Set<number> => {
+  const lines = new Set<number>();
+  for (const part of ranges.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) continue;
+    const start = Number(match[1]);
+    const end = Math.min(Number(match[2] ?? match[1]), start + MAX_HIGHLIGHT_RANGE);
+    for (let line = start; line <= end; line++) lines.add(line);
+  }
+  return lines;
+};
+
+export const parseCodeMeta = (meta: string): CodeMeta => ({
+  title: meta.match(/\btitle=(?:"([^"]*)"|'([^']*)'|(\S+))/)?.slice(1).find((value) => value !== undefined) ?? null,
+  showLineNumbers: /\b(showLineNumbers|lineNumbers)\b/.test(meta),
+  highlightLines: parseLineRanges(meta.match(/\{([\d,\s-]+)\}/)?.[1] ?? ''),
+});
+
+// The highlighter is fetched the first time an article with a code block renders, so it stays
+// out of the main bundle. prism-react-renderer covers the common web languages; a few more
+// prismjs grammars register themselves on the global Prism.
+const HighlightedCode = lazy(async () => {
+  const { Prism } = await import("prism-react-renderer");
+  (globalThis as { Prism?: unknown }).Prism = Prism;
+  await Promise.all([
+    import("prismjs/components/prism-bash"),
+    import("prismjs/components/prism-diff"),
+    import("prismjs/components/prism-docker"),
+    import("prismjs/components/prism-java"),
+    import("prismjs/components/prism-ruby"),
+  ]);
+  const module = await import("./HighlightedCode");
+  return { default: module.HighlightedCode };
+});
+
+interface CodeLineProps {
+  lineNumber: number;
+  meta: CodeMeta;
+  className?: string;
+  style?: CSSProperties;
+  children: ReactNode;
+}
+
+export function CodeLine({ lineNumber, meta, className = "", style, children }: CodeLineProps) {
+  const highlighted = meta.highlightLines.has(lineNumber);
+  return (
+    <span
+      className={`code-line ${highlighted ? 'code-line-highlighted' : ''} ${className}`}
+      style={style}
+      data-line={lineNumber}
+    >
+      {meta.showLineNumbers && (
+        <span className="code-line-number" aria-hidden="true">{lineNumber}</span>
+      )}
+      <span>{children}</span>
+    </span>
+  );
+}
+
+const languageOf = (code: HastNode): string => {
+  const classNames = code.properties?.className;
+  const languageClass = Array.isArray(classNames)
+    ? classNames.find((name): name is string => typeof name === 'string' && name.startsWith('language-'))
+    : undefined;
+  return languageClass?.slice('language-'.length).toLowerCase() ?? 'text';
+};
+
+// Replaces Markdown's <pre><code> with a highlighted, copyable block
+export function CodeBlock({ node, children, ...props }: ComponentProps<'pre'> & ExtraProps) {
+  const [copied, setCopied] = useState(false);
+  const code = (node?.children as HastNode[] | undefined)?.find((child) => child.type === 'element' && child.tagName === 'code');
+
+  if (!code) {
+    return <pre {...props}>{children}</pre>;
+  }
+
+  const text = textOf(code).replace(/\n$/, '');
+  const language = languageOf(code);
+  const meta = parseCodeMeta(String(code.properties?.dataMeta ?? ''));
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying code:', error);
+      toast.error('Unable to copy. Please select the code manually.');
+    }
+  };
+
+  const plain = (
+    <pre className="code-block-pre">
+      <code>
+        {text.split('\n').map((line, index) => (
+          <CodeLine key={index} lineNumber={index + 1} meta={meta}>{line}</CodeLine>
+        ))}
+      </code>
+    </pre>
+  );
+
+  return (
+    <figure className="code-block">
+      <div className="code-block-header">
+        {meta.title ? (
+          <figcaption className="code-block-title">{meta.title}</figcaption>
+        ) : (
+          <span className="code-block-language">{language !== 'text' ? language : ''}</span>
+        )}
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="code-block-copy"
+          aria-label={copied ? 'Copied' : 'Copy code'}
+          title={copied ? 'Copied' : 'Copy code'}
+        >
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        </button>
+      </div>
+      <Suspense fallback={plain}>
+        <HighlightedCode code={text} language={language} meta={meta} />
+      </Suspense>
+    </figure>
+  );
+}
@@ -1,74 +1,45 @@
 import { useState, useEffect } from "react";
-import { MessageSquare, User, Trash2 } from "lucide-react";
+import { MessageSquare, User, Trash2, Reply } from "lucide-react";
 import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
 import { Textarea } from "./ui/textarea";
 import { Input } from "./ui/input";
 import { Card, CardContent, CardHeader } from "./ui/card";
-import { projectId, publicAnonKey } from "../utils/supabase/info";
+import * as api from "../utils/api";
+import type { Comment } from "../utils/types";
 import { toast } from "sonner";
 
-interface Comment {
-  id: string;
+interface CommentSectionProps {
   articleId: string;
-  name: string;
-  content: string;
-  createdAt: string;
+  // Shows the delete control; the server still checks the comment:moderate permission
+  canModerate?: boolean;
+  accessToken?: string | null;
 }
 
-interface CommentSectionProps {
+interface CommentFormProps {
   articleId: string;
-  isAdmin?: boolean;
+  parentId?: string;
+  // Signed-in staff post under their account, so they skip the name and email fields
   accessToken?: string | null;
+  onSubmitted: (comment: Comment) => void;
+  onCancel?: () => void;
 }
 
-export function CommentSection({ articleId, isAdmin = false, accessToken }: CommentSectionProps) {
-  const [comments, setComments] = useState<Comment[]>([]);
+function CommentForm({ articleId, parentId, accessToken, onSubmitted, onCancel }: CommentFormProps) {
   const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
   const [content, setContent] = useState("");
-  const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
 
-  useEffect(() => {
-    loadComments();
-  }, [articleId]);
-
-  const loadComments = async () => {
-    setLoading(true);
-    try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/comments/${articleId}`,
-        {
-          headers: {
-            Authorization: `Bearer ${publicAnonKey}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        console.error('Failed to load comments:', await response.text());
-        toast.error('Failed to load comments');
-        return;
-      }
-
-      const data = await response.json();
-      setComments(data.comments || []);
-    } catch (error) {
-      console.error('Error loading comments:', error);
-      toast.error('Unable to load comments');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!name.trim() || !content.trim()) {
+    if ((!accessToken && !name.trim()) || !content.trim()) {
       toast.error('Please fill in all fields');
       return;
     }
 
     // Validate name length
-    if (name.trim().length < 2) {
+    if (!accessToken && name.trim().length < 2) {
       toast.error('Name must be at least 2 characters');
       return;
     }
@@ -84,73 +55,219 @@ export function CommentSection({ articleId, isAdmin = false, accessToken }: Comm
       return;
     }
 
+    // Validate email format, if given
+    if (email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
+
     setSubmitting(true);
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/comments/${articleId}`,
+      const data = await api.postComment(
+        articleId,
         {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${publicAnonKey}`,
-          },
-          body: JSON.stringify({ name: name.trim(), content: content.trim() }),
-        }
+          name: name.trim() || undefined,
+          email: email.trim() || undefined,
+          content: content.trim(),
+          parentId,
+        },
+        accessToken,
       );
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('Failed to submit comment:', error);
-        toast.error('Failed to submit comment. Please try again.');
-        return;
-      }
-
       setName("");
+      setEmail("");
       setContent("");
-      await loadComments();
-      toast.success('Comment submitted successfully!');
+      if (data.comment.status === 'approved') {
+        toast.success(parentId ? 'Reply posted!' : 'Comment submitted successfully!');
+      } else {
+        toast.success('Thanks! Your comment will appear once it has been approved.');
+      }
+      onSubmitted(data.comment);
     } catch (error) {
       console.error('Error submitting comment:', error);
-      toast.error('Unable to submit comment. Please check your connection.');
+      toast.error(api.errorMessage(error, 'Failed to submit comment. Please try again.'));
     } finally {
       setSubmitting(false);
     }
   };
 
-  const handleDelete = async (commentId: string) => {
-    if (!confirm('Are you sure you want to delete this comment?')) return;
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {!accessToken && (
+        <>
+          <div>
+            <Input
+              placeholder="Your Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <Input
+              type="email"
+              placeholder="Your Email (optional, never shown)"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+        </>
+      )}
+      <div>
+        <Textarea
+          placeholder={parentId ? "Your Reply" : "Your Comment"}
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={parentId ? 3 : 4}
+          required
+          maxLength={1000}
+        />
+        <p className="text-xs text-gray-500 mt-1 text-right">
+          {content.length}/1000 characters
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={submitting}>
+          {submitting ? 'Submitting...' : parentId ? 'Post Reply' : 'Submit Comment'}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export function CommentSection({ articleId, canModerate = false, accessToken }: CommentSectionProps) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [maxDepth, setMaxDepth] = useState(0);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadComments();
+  }, [articleId]);
 
+  const loadComments = async () => {
+    setLoading(true);
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f/comments/${articleId}/${commentId}`,
-        {
-          method: 'DELETE',
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        }
-      );
+      const data = await api.listComments(articleId);
+      setComments(data.comments);
+      setMaxDepth(data.maxDepth);
+    } catch (error) {
+      console.error('Error loading comments:', error);
+      toast.error(api.errorMessage(error, 'Failed to load comments'));
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('Failed to delete comment:', error);
-        toast.error('Failed to delete comment. Please try again.');
-        return;
-      }
+  const handleSubmitted = async (comment: Comment) => {
+    setReplyingTo(null);
+    if (comment.status === 'approved') {
+      await loadComments();
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!accessToken || !confirm('Are you sure you want to delete this comment?')) return;
 
+    try {
+      await api.deleteComment(articleId, commentId, accessToken);
       await loadComments();
       toast.success('Comment deleted successfully');
     } catch (error) {
       console.error('Error deleting comment:', error);
-      toast.error('Unable to delete comment. Please check your connection.');
+      toast.error(api.errorMessage(error, 'Failed to delete comment. Please try again.'));
     }
   };
 
+  // Comments arrive oldest first, so each thread keeps its replies in posting order
+  const repliesTo = (parentId: string | null) => comments.filter((comment) => comment.parentId === parentId);
+  const visibleCount = comments.filter((comment) => !comment.deleted).length;
+
+  const renderThread = (comment: Comment) => (
+    <div key={comment.id} className="space-y-4">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start gap-3 flex-1">
+              <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center shrink-0">
+                <User className="w-5 h-5 text-blue-600" />
+              </div>
+              <div className="flex-1">
+                {comment.deleted ? (
+                  <p className="text-gray-400 italic">[deleted]</p>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{comment.name}</span>
+                      {comment.isStaff && <Badge variant="secondary">Author</Badge>}
+                      <span className="text-sm text-gray-500">
+                        {new Date(comment.createdAt).toLocaleDateString('en-US', {
+                          year: 'numeric',
+                          month: 'short',
+                          day: 'numeric',
+                          hour: '2-digit',
+                          minute: '2-digit'
+                        })}
+                      </span>
+                    </div>
+                    <p className="mt-2 text-gray-700 whitespace-pre-wrap">{comment.content}</p>
+                    {comment.depth < maxDepth && replyingTo !== comment.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="mt-2 -ml-2"
+                        onClick={() => setReplyingTo(comment.id)}
+                      >
+                        <Reply className="w-4 h-4 mr-2" />
+                        Reply
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+            {canModerate && !comment.deleted && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(comment.id)}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          {replyingTo === comment.id && (
+            <div className="mt-4 ml-13">
+              <CommentForm
+                articleId={articleId}
+                parentId={comment.id}
+                accessToken={accessToken}
+                onSubmitted={handleSubmitted}
+                onCancel={() => setReplyingTo(null)}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {repliesTo(comment.id).length > 0 && (
+        <div className="ml-6 pl-4 border-l-2 border-gray-200 space-y-4">
+          {repliesTo(comment.id).map(renderThread)}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="mt-12">
       <div className="flex items-center gap-2 mb-6">
         <MessageSquare className="w-6 h-6" />
-        <h3>Comments ({comments.length})</h3>
+        <h3>Comments ({visibleCount})</h3>
       </div>
 
       {/* Comment Form */}
@@ -159,32 +276,7 @@ export function CommentSection({ articleId, isAdmin = false, accessToken }: Comm
           <h4>Leave a Comment</h4>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <Input
-                placeholder="Your Name"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                required
-              />
-            </div>
-            <div>
-              <Textarea
-                placeholder="Your Comment"
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                rows={4}
-                required
-                maxLength={1000}
-              />
-              <p className="text-xs text-gray-500 mt-1 text-right">
-                {content.length}/1000 characters
-              </p>
-            </div>
-            <Button type="submit" disabled={submitting}>
-              {submitting ? 'Submitting...' : 'Submit Comment'}
-            </Button>
-          </form>
+          <CommentForm articleId={articleId} accessToken={accessToken} onSubmitted={handleSubmitted} />
         </CardContent>
       </Card>
 
@@ -195,44 +287,7 @@ export function CommentSection({ articleId, isAdmin = false, accessToken }: Comm
         <p className="text-gray-500">No comments yet. Be the first to comment!</p>
       ) : (
         <div className="space-y-4">
-          {comments.map((comment) => (
-            <Card key={comment.id}>
-              <CardContent className="pt-6">
-                <div className="flex items-start justify-between">
-                  <div className="flex items-start gap-3 flex-1">
-                    <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center shrink-0">
-                      <User className="w-5 h-5 text-blue-600" />
-                    </div>
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2">
-                        <span className="font-medium">{comment.name}</span>
-                        <span className="text-sm text-gray-500">
-                          {new Date(comment.createdAt).toLocaleDateString('en-US', {
-                            year: 'numeric',
-                            month: 'short',
-                            day: 'numeric',
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
-                        </span>
-                      </div>
-                      <p className="mt-2 text-gray-700">{comment.content}</p>
-                    </div>
-                  </div>
-                  {isAdmin && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDelete(comment.id)}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+          {repliesTo(null).map(renderThread)}
         </div>
       )}
     </div>
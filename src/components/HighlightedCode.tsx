@@ -0,0 +1,32 @@
+import { Highlight, themes } from "prism-react-renderer";
+import { CodeLine, type CodeMeta } from "./CodeBlock";
+
+interface HighlightedCodeProps {
+  code: string;
+  language: string;
+  meta: CodeMeta;
+}
+
+// Loaded lazily by CodeBlock; languages Prism doesn't know render as plain text
+export function HighlightedCode({ code, language, meta }: HighlightedCodeProps) {
+  return (
+    <Highlight theme={themes.vsDark} code={code} language={language}>
+      {({ style, tokens, getLineProps, getTokenProps }) => (
+        <pre className="code-block-pre" style={style}>
+          <code>
+            {tokens.map((line, index) => {
+              const { className, style: lineStyle } = getLineProps({ line });
+              return (
+                <CodeLine key={index} lineNumber={index + 1} meta={meta} className={className} style={lineStyle}>
+                  {line.map((token, key) => (
+                    <span key={key} {...getTokenProps({ token })} />
+                  ))}
+                </CodeLine>
+              );
+            })}
+          </code>
+        </pre>
+      )}
+    </Highlight>
+  );
+}
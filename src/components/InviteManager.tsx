@@ -0,0 +1,196 @@
+import { useState, useEffect } from "react";
+import { Copy, Mail, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import * as api from "../utils/api";
+import { ROLES, type Invite, type InviteState, type Role } from "../utils/types";
+import { toast } from "sonner";
+
+const EXPIRY_OPTIONS = [1, 7, 14, 30];
+
+const STATE_STYLES: Record<InviteState, string> = {
+  pending: 'bg-green-100 text-green-800',
+  used: 'bg-gray-100 text-gray-700',
+  revoked: 'bg-red-100 text-red-800',
+  expired: 'bg-yellow-100 text-yellow-800',
+};
+
+interface InviteManagerProps {
+  accessToken: string;
+}
+
+const inviteLink = (token: string) => `${window.location.origin}/admin/login?invite=${encodeURIComponent(token)}`;
+
+export function InviteManager({ accessToken }: InviteManagerProps) {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<Role>('contributor');
+  const [email, setEmail] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [creating, setCreating] = useState(false);
+  // The raw token is only returned once, right after creation
+  const [createdLink, setCreatedLink] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInvites();
+  }, []);
+
+  const loadInvites = async () => {
+    setLoading(true);
+    try {
+      const data = await api.listInvites(accessToken);
+      setInvites(data.invites);
+    } catch (error) {
+      console.error('Error loading invites:', error);
+      toast.error(api.errorMessage(error, 'Failed to load invites'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const data = await api.createInvite({ role, email: email.trim() || null, expiresInDays }, accessToken);
+      setInvites((current) => [data.invite, ...current]);
+      setCreatedLink(inviteLink(data.token));
+      setEmail("");
+      toast.success('Invite created');
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      toast.error(api.errorMessage(error, 'Failed to create invite'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this invite? Its link will stop working.')) {
+      return;
+    }
+
+    try {
+      const data = await api.revokeInvite(id, accessToken);
+      setInvites((current) => current.map((invite) => (invite.id === id ? data.invite : invite)));
+      toast.success('Invite revoked');
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      toast.error(api.errorMessage(error, 'Failed to revoke invite'));
+    }
+  };
+
+  const handleCopy = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Invite link copied');
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+      toast.error('Unable to copy. Please copy the link manually.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="flex items-center gap-2">
+          <Mail className="w-5 h-5" />
+          Invites
+        </h3>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+              <SelectTrigger className="capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((option) => (
+                  <SelectItem key={option} value={option} className="capitalize">
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="invite-email">Email (optional)</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Restrict to this address"
+            />
+          </div>
+          <div>
+            <Label>Expires after</Label>
+            <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days === 1 ? '1 day' : `${days} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={creating}>
+            {creating ? 'Creating...' : 'Create Invite'}
+          </Button>
+        </form>
+
+        {createdLink && (
+          <div className="rounded border bg-blue-50 p-3 space-y-2">
+            <p className="text-sm text-blue-900">
+              Share this link now — it won't be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input value={createdLink} readOnly onFocus={(e) => e.target.select()} />
+              <Button type="button" variant="outline" onClick={() => handleCopy(createdLink)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500">Loading invites...</p>
+        ) : invites.length === 0 ? (
+          <p className="text-gray-500">No invites yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {invites.map((invite) => (
+              <li key={invite.id} className="flex items-center justify-between gap-4 py-2">
+                <div className="text-sm">
+                  <p className="flex items-center gap-2">
+                    <span className="capitalize">{invite.role}</span>
+                    <Badge className={`${STATE_STYLES[invite.state]} capitalize`}>{invite.state}</Badge>
+                  </p>
+                  <p className="text-gray-500">
+                    {invite.email ?? 'Any email'} · expires {new Date(invite.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                {invite.state === 'pending' && (
+                  <Button type="button" variant="outline" size="sm" onClick={() => handleRevoke(invite.id)}>
+                    <X className="w-4 h-4 mr-2" />
+                    Revoke
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
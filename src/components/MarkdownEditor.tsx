@@ -0,0 +1,202 @@
+import { useRef, useState } from "react";
+import {
+  Bold,
+  Italic,
+  Heading2,
+  Heading3,
+  Link2,
+  Quote,
+  Code,
+  SquareCode,
+  List,
+  ListOrdered,
+  Image,
+  Table,
+  Eye,
+  EyeOff,
+  FolderOpen,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "./ui/resizable";
+import { ArticleContent } from "./ArticleContent";
+import { MediaLibrary, useMediaDrop } from "./MediaLibrary";
+import { mediaMarkdown, type MediaAsset } from "../utils/media";
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  // Enables the media library and uploading files dropped on the editor
+  accessToken?: string;
+}
+
+// How a toolbar action changes the selection: wrap it inline, or prefix each selected line
+type Formatting =
+  | { kind: 'wrap'; before: string; after: string; placeholder: string }
+  | { kind: 'line'; prefix: string | ((index: number) => string); placeholder: string }
+  | { kind: 'block'; text: string };
+
+const ACTIONS: Array<{ label: string; icon: typeof Bold; formatting: Formatting }> = [
+  { label: 'Bold', icon: Bold, formatting: { kind: 'wrap', before: '**', after: '**', placeholder: 'bold text' } },
+  { label: 'Italic', icon: Italic, formatting: { kind: 'wrap', before: '_', after: '_', placeholder: 'italic text' } },
+  { label: 'Heading', icon: Heading2, formatting: { kind: 'line', prefix: '## ', placeholder: 'Heading' } },
+  { label: 'Subheading', icon: Heading3, formatting: { kind: 'line', prefix: '### ', placeholder: 'Subheading' } },
+  { label: 'Link', icon: Link2, formatting: { kind: 'wrap', before: '[', after: '](https://)', placeholder: 'link text' } },
+  { label: 'Quote', icon: Quote, formatting: { kind: 'line', prefix: '> ', placeholder: 'Quote' } },
+  { label: 'Inline code', icon: Code, formatting: { kind: 'wrap', before: '`', after: '`', placeholder: 'code' } },
+  { label: 'Code block', icon: SquareCode, formatting: { kind: 'wrap', before: '```\n', after: '\n```', placeholder: 'code' } },
+  { label: 'Bulleted list', icon: List, formatting: { kind: 'line', prefix: '- ', placeholder: 'List item' } },
+  { label: 'Numbered list', icon: ListOrdered, formatting: { kind: 'line', prefix: (index) => `${index + 1}. `, placeholder: 'List item' } },
+  { label: 'Image', icon: Image, formatting: { kind: 'wrap', before: '![', after: '](https://)', placeholder: 'alt text' } },
+  { label: 'Table', icon: Table, formatting: { kind: 'block', text: '| Column | Column |\n| ------ | ------ |\n| Cell   | Cell   |' } },
+];
+
+// Apply formatting to value[start, end), returning the new text and the range to select afterwards
+const applyFormatting = (value: string, start: number, end: number, formatting: Formatting) => {
+  const selected = value.slice(start, end);
+
+  if (formatting.kind === 'wrap') {
+    const text = selected || formatting.placeholder;
+    const next = value.slice(0, start) + formatting.before + text + formatting.after + value.slice(end);
+    return { value: next, start: start + formatting.before.length, end: start + formatting.before.length + text.length };
+  }
+
+  if (formatting.kind === 'block') {
+    // Keep blocks separated from surrounding paragraphs by a blank line
+    const before = value.slice(0, start);
+    const lead = before === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+    const next = before + lead + formatting.text + '\n' + value.slice(end);
+    const blockStart = start + lead.length;
+    return { value: next, start: blockStart, end: blockStart + formatting.text.length };
+  }
+
+  // Line formatting covers every line the selection touches
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const lines = (value.slice(lineStart, end) || formatting.placeholder).split('\n');
+  const prefixed = lines
+    .map((line, index) => (typeof formatting.prefix === 'string' ? formatting.prefix : formatting.prefix(index)) + line)
+    .join('\n');
+  const next = value.slice(0, lineStart) + prefixed + value.slice(Math.max(end, lineStart));
+  return { value: next, start: lineStart, end: lineStart + prefixed.length };
+};
+
+export function MarkdownEditor({ id, value, onChange, placeholder, rows = 15, accessToken }: MarkdownEditorProps) {
+  const [showPreview, setShowPreview] = useState(true);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Uploads finish after later renders, so they must not insert into a stale copy of the text
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const format = (formatting: Formatting, { collapse = false } = {}) => {
+    const textarea = containerRef.current?.querySelector('textarea');
+    if (!textarea) return;
+
+    // Inserting media goes after the selection rather than replacing it
+    const start = collapse ? textarea.selectionEnd : textarea.selectionStart;
+    const result = applyFormatting(valueRef.current, start, textarea.selectionEnd, formatting);
+    valueRef.current = result.value;
+    onChange(result.value);
+
+    // Restore focus and select the formatted text once React has written the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.start, result.end);
+    });
+  };
+
+  const insertMedia = (asset: MediaAsset) =>
+    format({ kind: 'block', text: mediaMarkdown(asset) }, { collapse: true });
+
+  const { dragging, uploading, dropProps } = useMediaDrop({ accessToken, onUploaded: insertMedia });
+
+  const editor = (
+    <Textarea
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      rows={rows}
+      className="font-mono text-sm h-full min-h-[24rem] rounded-none border-0 focus-visible:ring-0"
+    />
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      {...dropProps}
+      className={`border rounded-md overflow-hidden ${dragging ? 'border-blue-500 ring-2 ring-blue-200' : ''}`}
+    >
+      <div className="flex flex-wrap items-center gap-1 border-b bg-gray-50 px-2 py-1">
+        {ACTIONS.map(({ label, icon: Icon, formatting }) => (
+          <Button
+            key={label}
+            type="button"
+            variant="ghost"
+            size="sm"
+            title={label}
+            aria-label={label}
+            onClick={() => format(formatting)}
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+        {accessToken && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            title="Media library"
+            aria-label="Media library"
+            onClick={() => setLibraryOpen(true)}
+          >
+            <FolderOpen className="w-4 h-4" />
+          </Button>
+        )}
+        {uploading && <span className="text-xs text-gray-500 px-2">Uploading...</span>}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => setShowPreview(!showPreview)}
+        >
+          {showPreview ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+          {showPreview ? 'Hide Preview' : 'Preview'}
+        </Button>
+      </div>
+
+      {showPreview ? (
+        <ResizablePanelGroup direction="horizontal" className="min-h-[24rem]">
+          <ResizablePanel defaultSize={50} minSize={25}>
+            {editor}
+          </ResizablePanel>
+          <ResizableHandle withHandle />
+          <ResizablePanel defaultSize={50} minSize={25}>
+            <div className="h-full max-h-[40rem] overflow-y-auto p-4 bg-white">
+              {value.trim() ? (
+                <ArticleContent content={value} format="markdown" />
+              ) : (
+                <p className="text-sm text-gray-400">Nothing to preview yet.</p>
+              )}
+            </div>
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      ) : (
+        editor
+      )}
+
+      {accessToken && (
+        <MediaLibrary
+          open={libraryOpen}
+          onOpenChange={setLibraryOpen}
+          accessToken={accessToken}
+          onSelect={insertMedia}
+        />
+      )}
+    </div>
+  );
+}
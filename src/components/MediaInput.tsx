@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { FolderOpen } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { MediaLibrary, useMediaDrop } from "./MediaLibrary";
+import type { MediaKind } from "../utils/media";
+
+interface MediaInputProps {
+  id: string;
+  kind: MediaKind;
+  value: string;
+  onChange: (url: string) => void;
+  placeholder?: string;
+  accessToken?: string;
+}
+
+// A URL field that also takes a file dropped on it, or one picked from the media library
+export function MediaInput({ id, kind, value, onChange, placeholder, accessToken }: MediaInputProps) {
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const { dragging, uploading, dropProps } = useMediaDrop({
+    accessToken,
+    kind,
+    onUploaded: (asset) => onChange(asset.url),
+  });
+
+  return (
+    <div {...dropProps} className="flex gap-2">
+      <Input
+        id={id}
+        type="url"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={uploading ? 'Uploading...' : dragging ? 'Drop to upload' : placeholder}
+        disabled={uploading}
+        className={dragging ? 'border-blue-500 ring-2 ring-blue-200' : undefined}
+      />
+      {accessToken && (
+        <>
+          <Button type="button" variant="outline" onClick={() => setLibraryOpen(true)}>
+            <FolderOpen className="w-4 h-4 mr-2" />
+            Library
+          </Button>
+          <MediaLibrary
+            open={libraryOpen}
+            onOpenChange={setLibraryOpen}
+            accessToken={accessToken}
+            kind={kind}
+            onSelect={(asset) => onChange(asset.url)}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState, type DragEvent } from "react";
+import { Film, Music, Search, Trash2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  MEDIA_ACCEPT,
+  deleteMedia,
+  formatFileSize,
+  listMedia,
+  uploadMedia,
+  type MediaAsset,
+  type MediaKind,
+} from "../utils/media";
+import { toast } from "sonner";
+
+const SEARCH_DELAY_MS = 300;
+
+interface MediaDropOptions {
+  accessToken?: string;
+  kind?: MediaKind;
+  onUploaded: (asset: MediaAsset) => void;
+}
+
+// Upload files dropped on (or picked for) an element. Spread dropProps on the drop target.
+export function useMediaDrop({ accessToken, kind, onUploaded }: MediaDropOptions) {
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const uploadFiles = async (files: File[]) => {
+    if (!accessToken || files.length === 0) return;
+
+    setUploading(true);
+    try {
+      for (const file of files) {
+        try {
+          onUploaded(await uploadMedia(file, accessToken, kind));
+          toast.success(`Uploaded ${file.name}`);
+        } catch (error) {
+          console.error('Error uploading media:', error);
+          toast.error(error instanceof Error ? error.message : `Failed to upload ${file.name}`);
+        }
+      }
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  // Drop targets can be nested (the library dialog opened from the editor), and React events
+  // bubble out of portals, so only the innermost target handles a drop
+  const claim = (e: DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return {
+    dragging,
+    uploading,
+    uploadFiles,
+    dropProps: accessToken
+      ? {
+          onDragOver: (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            claim(e);
+            e.dataTransfer.dropEffect = 'copy';
+            setDragging(true);
+          },
+          onDragLeave: (e: DragEvent) => {
+            // Moving over a child element also fires dragleave on the target
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+          },
+          onDrop: (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            claim(e);
+            setDragging(false);
+            uploadFiles(Array.from(e.dataTransfer.files));
+          },
+        }
+      : {},
+  };
+}
+
+function MediaPreview({ asset }: { asset: MediaAsset }) {
+  if (asset.kind === 'image') {
+    return <img src={asset.url} alt={asset.filename} loading="lazy" className="w-full h-full object-cover" />;
+  }
+  const Icon = asset.kind === 'audio' ? Music : Film;
+  return <Icon className="w-8 h-8 text-gray-400" />;
+}
+
+interface MediaLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accessToken: string;
+  // Only show, and only accept uploads of, this kind of file
+  kind?: MediaKind;
+  onSelect: (asset: MediaAsset) => void;
+}
+
+// Browse, search and upload media, and pick a file to use in an article
+export function MediaLibrary({ open, onOpenChange, accessToken, kind, onSelect }: MediaLibraryProps) {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [query, setQuery] = useState("");
+  const [kindFilter, setKindFilter] = useState<MediaKind | 'all'>(kind ?? 'all');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const shownKind = kind ?? (kindFilter === 'all' ? undefined : kindFilter);
+
+  const { dragging, uploading, uploadFiles, dropProps } = useMediaDrop({
+    accessToken,
+    kind,
+    onUploaded: (asset) => setAssets((current) => [asset, ...current]),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(loadAssets, query ? SEARCH_DELAY_MS : 0);
+    return () => clearTimeout(timer);
+  }, [open, query, shownKind]);
+
+  const loadAssets = async () => {
+    setLoading(true);
+    try {
+      setAssets(await listMedia(accessToken, { query: query.trim(), kind: shownKind }));
+    } catch (error) {
+      console.error('Error loading media:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load the media library');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (asset: MediaAsset) => {
+    if (!confirm(`Delete ${asset.filename}? Articles that use it will show a broken link.`)) {
+      return;
+    }
+
+    try {
+      await deleteMedia(asset.id, accessToken);
+      setAssets((current) => current.filter((existing) => existing.id !== asset.id));
+      toast.success('File deleted');
+    } catch (error) {
+      console.error('Error deleting media:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete file');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl" {...dropProps}>
+        <DialogHeader>
+          <DialogTitle>Media Library</DialogTitle>
+          <DialogDescription>
+            Choose a file, or drop new ones here to upload them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by file name"
+              className="pl-9"
+              aria-label="Search media"
+            />
+          </div>
+          {!kind && (
+            <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as MediaKind | 'all')}>
+              <SelectTrigger className="w-36" aria-label="File type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All files</SelectItem>
+                <SelectItem value="image">Images</SelectItem>
+                <SelectItem value="audio">Audio</SelectItem>
+                <SelectItem value="video">Video</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Button type="button" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+            <Upload className="w-4 h-4 mr-2" />
+            {uploading ? 'Uploading...' : 'Upload'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            accept={kind ? MEDIA_ACCEPT[kind] : Object.values(MEDIA_ACCEPT).join(',')}
+            onChange={(e) => {
+              uploadFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div
+          className={`h-96 overflow-y-auto rounded-md border-2 border-dashed p-2 transition-colors ${
+            dragging ? 'border-blue-500 bg-blue-50' : 'border-transparent'
+          }`}
+        >
+          {loading && assets.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">Loading media...</p>
+          ) : assets.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">
+              {query ? 'No files match your search.' : 'No files uploaded yet. Drop files here to upload them.'}
+            </p>
+          ) : (
+            <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+              {assets.map((asset) => (
+                <li key={asset.id} className="group relative rounded-md border bg-white overflow-hidden">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onSelect(asset);
+                      onOpenChange(false);
+                    }}
+                    className="block w-full text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                    title={asset.filename}
+                  >
+                    <div className="aspect-square bg-gray-100 flex items-center justify-center overflow-hidden">
+                      <MediaPreview asset={asset} />
+                    </div>
+                    <div className="p-2">
+                      <p className="text-sm truncate">{asset.filename}</p>
+                      <p className="text-xs text-gray-500">{formatFileSize(asset.size)}</p>
+                    </div>
+                  </button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="absolute top-1 right-1 h-7 w-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                    onClick={() => handleDelete(asset)}
+                    aria-label={`Delete ${asset.filename}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
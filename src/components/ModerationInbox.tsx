@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { Check, Inbox, ShieldAlert, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import * as api from "../utils/api";
+import type { CommentStatus, ModerationMode, ModerationSettings, QueuedComment } from "../utils/types";
+import { toast } from "sonner";
+
+const DEPTH_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+const QUEUE_TABS: CommentStatus[] = ['pending', 'spam', 'rejected'];
+
+const MODERATION_LABELS: Record<ModerationMode, string> = {
+  'auto-approve': 'Auto-approve all comments',
+  'hold-first-time': 'Hold first-time commenters',
+  'hold-all': 'Hold all comments',
+};
+
+interface ModerationInboxProps {
+  accessToken: string;
+}
+
+const commentRef = (comment: QueuedComment) => `${comment.articleId}:${comment.id}`;
+
+export function ModerationInbox({ accessToken }: ModerationInboxProps) {
+  const [status, setStatus] = useState<CommentStatus>('pending');
+  const [comments, setComments] = useState<QueuedComment[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [settings, setSettings] = useState<ModerationSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [status]);
+
+  const loadQueue = async () => {
+    setLoading(true);
+    try {
+      const data = await api.listModerationQueue(status, accessToken);
+      setComments(data.comments);
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error loading moderation queue:', error);
+      toast.error(api.errorMessage(error, 'Failed to load comments'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSettings = async () => {
+    try {
+      const data = await api.getModerationSettings(accessToken);
+      setSettings(data.settings);
+    } catch (error) {
+      console.error('Error loading moderation settings:', error);
+    }
+  };
+
+  const handleSettingsChange = async (changes: Partial<ModerationSettings>) => {
+    try {
+      const data = await api.saveModerationSettings(changes, accessToken);
+      setSettings(data.settings);
+      toast.success('Moderation settings updated');
+    } catch (error) {
+      console.error('Error updating moderation settings:', error);
+      toast.error(api.errorMessage(error, 'Failed to update settings'));
+    }
+  };
+
+  const handleModerate = async (targets: QueuedComment[], newStatus: CommentStatus) => {
+    if (targets.length === 0) return;
+
+    setWorking(true);
+    try {
+      await api.moderateComments(newStatus, targets.map(({ articleId, id }) => ({ articleId, id })), accessToken);
+
+      // Moderated comments leave this queue
+      const moved = new Set(targets.map(commentRef));
+      setComments((current) => current.filter((comment) => !moved.has(commentRef(comment))));
+      setSelected(new Set());
+      toast.success(`${targets.length} comment${targets.length === 1 ? '' : 's'} marked ${newStatus}`);
+    } catch (error) {
+      console.error('Error moderating comments:', error);
+      toast.error(api.errorMessage(error, 'Failed to update comments'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleSelected = (comment: QueuedComment) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      const ref = commentRef(comment);
+      if (next.has(ref)) {
+        next.delete(ref);
+      } else {
+        next.add(ref);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = comments.length > 0 && selected.size === comments.length;
+  const selectedComments = comments.filter((comment) => selected.has(commentRef(comment)));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <h3 className="flex items-center gap-2">
+          <Inbox className="w-5 h-5" />
+          Comment Moderation
+        </h3>
+        {settings && (
+          <div className="flex gap-2">
+            <Select
+              value={settings.moderation}
+              onValueChange={(value) => handleSettingsChange({ moderation: value as ModerationMode })}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MODERATION_LABELS) as ModerationMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {MODERATION_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={String(settings.maxDepth)}
+              onValueChange={(value) => handleSettingsChange({ maxDepth: Number(value) })}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPTH_OPTIONS.map((depth) => (
+                  <SelectItem key={depth} value={String(depth)}>
+                    {depth === 0 ? 'No replies' : `Replies ${depth} level${depth === 1 ? '' : 's'} deep`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as CommentStatus)}>
+          <TabsList>
+            {QUEUE_TABS.map((tab) => (
+              <TabsTrigger key={tab} value={tab} className="capitalize">
+                {tab}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <p className="text-gray-500">Loading comments...</p>
+        ) : comments.length === 0 ? (
+          <p className="text-gray-500">Nothing to review.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="moderation-select-all"
+                  checked={allSelected}
+                  onCheckedChange={() =>
+                    setSelected(allSelected ? new Set() : new Set(comments.map(commentRef)))
+                  }
+                />
+                <Label htmlFor="moderation-select-all">
+                  {selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+                </Label>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={working || selected.size === 0}
+                  onClick={() => handleModerate(selectedComments, 'approved')}
+                >
+                  <Check className="w-4 h-4 mr-2" />
+                  Approve
+                </Button>
+                {status !== 'rejected' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={working || selected.size === 0}
+                    onClick={() => handleModerate(selectedComments, 'rejected')}
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Reject
+                  </Button>
+                )}
+                {status !== 'spam' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={working || selected.size === 0}
+                    onClick={() => handleModerate(selectedComments, 'spam')}
+                  >
+                    <ShieldAlert className="w-4 h-4 mr-2" />
+                    Spam
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <ul className="divide-y">
+              {comments.map((comment) => (
+                <li key={commentRef(comment)} className="flex items-start gap-3 py-3">
+                  <Checkbox
+                    className="mt-1"
+                    checked={selected.has(commentRef(comment))}
+                    onCheckedChange={() => toggleSelected(comment)}
+                    aria-label={`Select comment by ${comment.name}`}
+                  />
+                  <div className="flex-1 text-sm">
+                    <p>
+                      <span className="font-medium">{comment.name}</span>
+                      {comment.email && <span className="text-gray-500"> &lt;{comment.email}&gt;</span>}
+                      <span className="text-gray-500">
+                        {' '}on {comment.articleTitle ?? 'a deleted article'} · {new Date(comment.createdAt).toLocaleString()}
+                      </span>
+                    </p>
+                    <p className="mt-1 text-gray-700 whitespace-pre-wrap">{comment.content}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+import { FileQuestion, ArrowLeft } from "lucide-react";
+import { Button } from "./ui/button";
+import { Link } from "../utils/router";
+
+interface NotFoundProps {
+  message?: string;
+}
+
+export function NotFound({ message = "The page you're looking for doesn't exist or has been moved." }: NotFoundProps) {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="text-center max-w-md">
+        <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center mx-auto mb-6">
+          <FileQuestion className="w-8 h-8 text-gray-500" />
+        </div>
+        <h1 className="mb-2">Page not found</h1>
+        <p className="text-gray-600 mb-8">{message}</p>
+        <Button asChild>
+          <Link to="/">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Blog
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect } from "react";
+import { Podcast, ExternalLink } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import * as api from "../utils/api";
+import type { PodcastSettings as PodcastSettingsValues, PodcastType } from "../utils/types";
+import { toast } from "sonner";
+
+// Apple Podcasts top-level categories
+const CATEGORIES = [
+  'Arts', 'Business', 'Comedy', 'Education', 'Fiction', 'Government', 'Health & Fitness', 'History',
+  'Kids & Family', 'Leisure', 'Music', 'News', 'Religion & Spirituality', 'Science', 'Society & Culture',
+  'Sports', 'Technology', 'True Crime', 'TV & Film',
+];
+
+interface PodcastSettingsProps {
+  accessToken: string;
+}
+
+export function PodcastSettings({ accessToken }: PodcastSettingsProps) {
+  const [values, setValues] = useState<PodcastSettingsValues | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const data = await api.getPodcastSettings(accessToken);
+      setValues(data.settings);
+    } catch (error) {
+      console.error('Error loading podcast settings:', error);
+      toast.error(api.errorMessage(error, 'Failed to load podcast settings'));
+    }
+  };
+
+  const update = <K extends keyof PodcastSettingsValues>(field: K, value: PodcastSettingsValues[K]) =>
+    setValues((current) => (current ? { ...current, [field]: value } : current));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!values) return;
+
+    setSaving(true);
+    try {
+      const data = await api.savePodcastSettings(values, accessToken);
+      setValues(data.settings);
+      toast.success('Podcast settings saved');
+    } catch (error) {
+      console.error('Error saving podcast settings:', error);
+      toast.error(api.errorMessage(error, 'Failed to save podcast settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <h3 className="flex items-center gap-2">
+          <Podcast className="w-5 h-5" />
+          Podcast
+        </h3>
+        <Button variant="ghost" size="sm" asChild>
+          <a href={api.podcastFeedUrl} target="_blank" rel="noopener noreferrer">
+            <ExternalLink className="w-4 h-4 mr-2" />
+            Podcast Feed
+          </a>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!values ? (
+          <p className="text-gray-500">Loading settings...</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Published articles with an audio file are listed as episodes. Leave the title and description
+              empty to use the site's.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="podcast-title">Show Title</Label>
+                <Input id="podcast-title" value={values.title} onChange={(e) => update('title', e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="podcast-author">Author</Label>
+                <Input id="podcast-author" value={values.author} onChange={(e) => update('author', e.target.value)} />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="podcast-description">Description</Label>
+              <Textarea
+                id="podcast-description"
+                value={values.description}
+                onChange={(e) => update('description', e.target.value)}
+                rows={3}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="podcast-owner-name">Owner Name</Label>
+                <Input
+                  id="podcast-owner-name"
+                  value={values.ownerName}
+                  onChange={(e) => update('ownerName', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="podcast-owner-email">Owner Email</Label>
+                <Input
+                  id="podcast-owner-email"
+                  type="email"
+                  value={values.ownerEmail}
+                  onChange={(e) => update('ownerEmail', e.target.value)}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="podcast-image">Cover Art URL</Label>
+              <Input
+                id="podcast-image"
+                type="url"
+                value={values.imageUrl}
+                onChange={(e) => update('imageUrl', e.target.value)}
+                placeholder="https://example.com/cover.jpg"
+              />
+              <p className="text-xs text-gray-500 mt-1">Square JPEG or PNG, 1400×1400 to 3000×3000 pixels</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label>Category</Label>
+                <Select value={values.category} onValueChange={(value) => update('category', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Show Type</Label>
+                <Select value={values.type} onValueChange={(value) => update('type', value as PodcastType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="episodic">Episodic (newest first)</SelectItem>
+                    <SelectItem value="serial">Serial (in order)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="podcast-explicit"
+                  checked={values.explicit}
+                  onCheckedChange={(checked) => update('explicit', checked)}
+                />
+                <Label htmlFor="podcast-explicit">Explicit content</Label>
+              </div>
+            </div>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Podcast Settings'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
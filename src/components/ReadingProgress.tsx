@@ -0,0 +1,156 @@
+import { useEffect, useState, type RefObject } from "react";
+import { BookOpen, X } from "lucide-react";
+import { Progress } from "./ui/progress";
+import { Button } from "./ui/button";
+
+// Where each reader stopped in each article, kept in this browser only:
+//   reading_positions -> { [articleId]: { progress, savedAt } }
+// Progress is the fraction of the article body scrolled past rather than a pixel offset, so it
+// still points at the same place when the window is a different size next time.
+const POSITIONS_STORAGE_KEY = 'reading_positions';
+const MAX_SAVED_POSITIONS = 50;
+
+// Too close to the start to be worth offering, or close enough to the end to count as read
+const MIN_RESUME_PROGRESS = 0.05;
+const FINISHED_PROGRESS = 0.95;
+
+const SAVE_DELAY_MS = 500;
+
+interface SavedPosition {
+  progress: number;
+  savedAt: string;
+}
+
+const readPositions = (): Record<string, SavedPosition> => {
+  try {
+    return JSON.parse(localStorage.getItem(POSITIONS_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const savePosition = (articleId: string, progress: number) => {
+  const positions = readPositions();
+  if (progress < MIN_RESUME_PROGRESS || progress >= FINISHED_PROGRESS) {
+    delete positions[articleId];
+  } else {
+    positions[articleId] = { progress, savedAt: new Date().toISOString() };
+  }
+
+  // Forget the least recently read articles first
+  const kept = Object.entries(positions)
+    .sort(([, a], [, b]) => b.savedAt.localeCompare(a.savedAt))
+    .slice(0, MAX_SAVED_POSITIONS);
+  try {
+    localStorage.setItem(POSITIONS_STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch (error) {
+    console.error('Error saving reading position:', error);
+  }
+};
+
+// 0 while the top of the element is below the top of the viewport, 1 once its end is in view
+const progressThrough = (element: HTMLElement): number => {
+  const { top, height } = element.getBoundingClientRect();
+  const scrollable = height - window.innerHeight;
+  if (scrollable <= 0) return top + height <= window.innerHeight ? 1 : 0;
+  return Math.min(1, Math.max(0, -top / scrollable));
+};
+
+const scrollToProgress = (element: HTMLElement, progress: number) => {
+  const { top, height } = element.getBoundingClientRect();
+  const scrollable = Math.max(0, height - window.innerHeight);
+  window.scrollTo({ top: window.scrollY + top + progress * scrollable, behavior: 'smooth' });
+};
+
+// Tracks how far through the article body the reader is, remembers it for next time, and
+// offers the position saved on an earlier visit until the reader gets there or dismisses it
+export function useReadingPosition(bodyRef: RefObject<HTMLElement>, articleId: string | undefined) {
+  const [progress, setProgress] = useState(0);
+  const [resumeFrom, setResumeFrom] = useState<number | null>(null);
+
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body || !articleId) return;
+
+    const saved = readPositions()[articleId]?.progress;
+    setResumeFrom(saved !== undefined && saved >= MIN_RESUME_PROGRESS && saved < FINISHED_PROGRESS ? saved : null);
+    setProgress(progressThrough(body));
+
+    let frame = 0;
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+    const save = () => {
+      clearTimeout(saveTimer);
+      saveTimer = undefined;
+      savePosition(articleId, progressThrough(body));
+    };
+    const onScroll = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          setProgress(progressThrough(body));
+        });
+      }
+      clearTimeout(saveTimer);
+      saveTimer = setTimeout(save, SAVE_DELAY_MS);
+    };
+
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('pagehide', save);
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('pagehide', save);
+      if (frame) cancelAnimationFrame(frame);
+      // Only record a position the reader scrolled to, not one they never moved from
+      if (saveTimer !== undefined) save();
+    };
+  }, [articleId]);
+
+  // Reached it by scrolling, or back/forward restored it
+  const offerResume = resumeFrom !== null && progress < resumeFrom - MIN_RESUME_PROGRESS;
+
+  return {
+    progress,
+    resumeFrom: offerResume ? resumeFrom : null,
+    resume: () => {
+      if (bodyRef.current && resumeFrom !== null) scrollToProgress(bodyRef.current, resumeFrom);
+      setResumeFrom(null);
+    },
+    dismissResume: () => setResumeFrom(null),
+  };
+}
+
+export function ReadingProgressBar({ progress }: { progress: number }) {
+  return (
+    <Progress
+      value={Math.round(progress * 100)}
+      aria-label="Reading progress"
+      className="fixed top-0 inset-x-0 z-50 h-1 rounded-none bg-transparent"
+    />
+  );
+}
+
+interface ContinueReadingProps {
+  progress: number;
+  onContinue: () => void;
+  onDismiss: () => void;
+}
+
+export function ContinueReading({ progress, onContinue, onDismiss }: ContinueReadingProps) {
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 inset-x-4 z-40 mx-auto max-w-md flex items-center gap-3 rounded-lg border bg-white p-3 shadow-lg"
+    >
+      <BookOpen className="w-5 h-5 text-blue-600 shrink-0" />
+      <p className="flex-1 text-sm text-gray-700">
+        Continue where you left off? You were {Math.round(progress * 100)}% through.
+      </p>
+      <Button size="sm" onClick={onContinue}>
+        Continue
+      </Button>
+      <Button size="icon" variant="ghost" onClick={onDismiss} aria-label="Dismiss">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Clock } from "lucide-react";
+
+interface ReadingStatsProps {
+  wordCount?: number;
+  readingTime?: number;
+}
+
+// "5 min read · 1,120 words"; the server computes both when an article is saved
+export function ReadingStats({ wordCount, readingTime }: ReadingStatsProps) {
+  if (wordCount === undefined || readingTime === undefined) return null;
+
+  return (
+    <div className="flex items-center gap-1">
+      <Clock className="w-4 h-4" />
+      <span>{readingTime} min read · {wordCount.toLocaleString('en-US')} words</span>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from "react";
+import { ImageWithFallback } from "./figma/ImageWithFallback";
+import type { ResponsiveImageData } from "../utils/types";
+
+interface ResponsiveImageProps {
+  src: string;
+  alt: string;
+  image?: ResponsiveImageData | null;
+  // How wide the image is drawn at each breakpoint, so the browser can pick a variant
+  sizes: string;
+  // Images at the top of the page load straight away instead of lazily
+  priority?: boolean;
+  className?: string;
+}
+
+// Fills its container (size it with className) with the best-fitting variant, showing the
+// blurred placeholder until it loads. If the variants fail the original is tried, and if that
+// fails too ImageWithFallback shows a broken-image icon instead of an empty box.
+export function ResponsiveImage({ src, alt, image, sizes, priority = false, className = "" }: ResponsiveImageProps) {
+  const [loaded, setLoaded] = useState(false);
+  const [variantsFailed, setVariantsFailed] = useState(false);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  // In a server-rendered page the image can finish loading, or fail, before React is listening
+  useEffect(() => {
+    const element = imageRef.current;
+    if (!element?.complete) return;
+    if (element.naturalWidth > 0) {
+      setLoaded(true);
+    } else {
+      setVariantsFailed(true);
+    }
+  }, []);
+
+  return (
+    <div className={`relative overflow-hidden bg-gray-100 ${className}`}>
+      {image && !loaded && (
+        // Scaled up a little so the blur doesn't fade out at the edges
+        <img src={image.placeholder} alt="" aria-hidden="true" className="absolute inset-0 w-full h-full object-cover blur-xl scale-110" />
+      )}
+      {variantsFailed || !image ? (
+        <ImageWithFallback
+          src={src}
+          alt={alt}
+          loading={priority ? 'eager' : 'lazy'}
+          decoding="async"
+          className="relative w-full h-full object-cover"
+        />
+      ) : (
+        <img
+          ref={imageRef}
+          src={src}
+          srcSet={image.variants.map((variant) => `${variant.url} ${variant.width}w`).join(', ')}
+          sizes={sizes}
+          alt={alt}
+          width={image.width}
+          height={image.height}
+          loading={priority ? 'eager' : 'lazy'}
+          decoding="async"
+          onLoad={() => setLoaded(true)}
+          onError={() => setVariantsFailed(true)}
+          className={`relative w-full h-full object-cover transition-opacity duration-500 ${loaded ? 'opacity-100' : 'opacity-0'}`}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState, useEffect } from "react";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import * as api from "../utils/api";
+import type { Revision, RevisionSummary } from "../utils/types";
+import { diffLines, diffWords, type DiffPart } from "../utils/diff";
+import { toast } from "sonner";
+
+interface RestoredArticle {
+  title: string;
+  excerpt: string;
+  content: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  excerpt: 'Excerpt',
+  content: 'Content',
+  slug: 'Slug',
+  format: 'Format',
+  status: 'Status',
+  publishAt: 'Publish date',
+  tags: 'Tags',
+  category: 'Category',
+  imageUrl: 'Featured image',
+  videoUrl: 'Video',
+  audioUrl: 'Audio',
+  seoTitle: 'SEO title',
+  seoDescription: 'SEO description',
+  noindex: 'Hidden from search engines',
+};
+
+const fieldLabel = (field: string) => FIELD_LABELS[field] ?? field;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+interface RevisionHistoryProps {
+  articleId: string;
+  accessToken: string;
+  onRestored: (article: RestoredArticle) => void;
+}
+
+// Fields other than the text that differ between two revisions. Revisions from before these
+// were recorded have none, so only fields both of them kept are compared.
+function FieldChanges({ from, to }: { from: Revision; to: Revision }) {
+  const changed = Object.keys(to.fields).filter((field) =>
+    field in from.fields && JSON.stringify(from.fields[field]) !== JSON.stringify(to.fields[field])
+  );
+
+  if (changed.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No changes</p>;
+  }
+
+  return (
+    <dl className="text-sm rounded border bg-gray-50 p-3 space-y-1">
+      {changed.map((field) => (
+        <div key={field} className="flex flex-wrap gap-2">
+          <dt className="font-medium">{fieldLabel(field)}:</dt>
+          <dd>
+            <del className="bg-red-100 text-red-900">{formatValue(from.fields[field])}</del>
+            {' → '}
+            <ins className="bg-green-100 text-green-900 no-underline">{formatValue(to.fields[field])}</ins>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function DiffView({ parts }: { parts: DiffPart[] }) {
+  if (parts.every((part) => part.type === 'equal')) {
+    return <p className="text-sm text-gray-500 italic">No changes</p>;
+  }
+
+  return (
+    <div className="whitespace-pre-wrap text-sm rounded border bg-gray-50 p-3 max-h-96 overflow-auto">
+      {parts.map((part, index) =>
+        part.type === 'added' ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.value}</ins>
+        ) : part.type === 'removed' ? (
+          <del key={index} className="bg-red-100 text-red-900">{part.value}</del>
+        ) : (
+          <span key={index}>{part.value}</span>
+        )
+      )}
+    </div>
+  );
+}
+
+export function RevisionHistory({ articleId, accessToken, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromNumber, setFromNumber] = useState<number | null>(null);
+  const [toNumber, setToNumber] = useState<number | null>(null);
+  const [fromRevision, setFromRevision] = useState<Revision | null>(null);
+  const [toRevision, setToRevision] = useState<Revision | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [articleId]);
+
+  useEffect(() => {
+    if (fromNumber !== null) loadRevision(fromNumber).then(setFromRevision);
+  }, [fromNumber]);
+
+  useEffect(() => {
+    if (toNumber !== null) loadRevision(toNumber).then(setToRevision);
+  }, [toNumber]);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    try {
+      const { revisions: list } = await api.listRevisions(articleId, accessToken);
+      setRevisions(list);
+      // Default to comparing the latest revision with the one before it
+      setToNumber(list[0]?.number ?? null);
+      setFromNumber(list[1]?.number ?? list[0]?.number ?? null);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      toast.error(api.errorMessage(error, 'Failed to load revision history'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRevision = async (number: number): Promise<Revision | null> => {
+    try {
+      const data = await api.getRevision(articleId, number, accessToken);
+      return data.revision;
+    } catch (error) {
+      console.error('Error loading revision:', error);
+      toast.error(api.errorMessage(error, `Failed to load revision ${number}`));
+      return null;
+    }
+  };
+
+  const handleRestore = async (number: number) => {
+    if (!confirm(`Restore revision ${number}? The current text will be kept in the history.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      const data = await api.restoreRevision(articleId, number, accessToken);
+      onRestored(data.article);
+      await loadRevisions();
+      toast.success(`Restored revision ${number}`);
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error(api.errorMessage(error, 'Failed to restore revision. Please try again.'));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const formatRevision = (revision: RevisionSummary) =>
+    `#${revision.number} · ${new Date(revision.createdAt).toLocaleString()}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Revision History
+        </h3>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-gray-500">Loading revisions...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-gray-500">No revisions yet.</p>
+        ) : (
+          <>
+            <ul className="divide-y max-h-64 overflow-auto">
+              {revisions.map((revision, index) => (
+                <li key={revision.number} className="flex items-center justify-between gap-4 py-2">
+                  <div className="text-sm">
+                    <p>
+                      {formatRevision(revision)}
+                      {index === 0 && <span className="ml-2 text-green-700">(current)</span>}
+                    </p>
+                    <p className="text-gray-500">
+                      {revision.authorName ?? 'Unknown author'}
+                      {revision.note && ` — ${revision.note}`}
+                    </p>
+                    {revision.changes.length > 0 && (
+                      <p className="text-gray-500">Changed: {revision.changes.map(fieldLabel).join(', ')}</p>
+                    )}
+                  </div>
+                  {index > 0 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={restoring}
+                      onClick={() => handleRestore(revision.number)}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-4">
+              <div>
+                <Label>Compare from</Label>
+                <Select
+                  value={fromNumber !== null ? String(fromNumber) : undefined}
+                  onValueChange={(value) => setFromNumber(Number(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select revision" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.number} value={String(revision.number)}>
+                        {formatRevision(revision)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>To</Label>
+                <Select
+                  value={toNumber !== null ? String(toNumber) : undefined}
+                  onValueChange={(value) => setToNumber(Number(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select revision" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.number} value={String(revision.number)}>
+                        {formatRevision(revision)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {fromRevision && toRevision && (
+              <div className="space-y-4">
+                <div>
+                  <Label className="mb-2">Title</Label>
+                  <DiffView parts={diffWords(fromRevision.title, toRevision.title)} />
+                </div>
+                <div>
+                  <Label className="mb-2">Excerpt</Label>
+                  <DiffView parts={diffWords(fromRevision.excerpt, toRevision.excerpt)} />
+                </div>
+                <div>
+                  <Label className="mb-2">Content</Label>
+                  <DiffView parts={diffLines(fromRevision.content, toRevision.content)} />
+                </div>
+                <div>
+                  <Label className="mb-2">Other fields</Label>
+                  <FieldChanges from={fromRevision} to={toRevision} />
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import { Calendar } from "lucide-react";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import type { Highlighted, SearchResult } from "../utils/types";
+
+interface SearchResultsProps {
+  query: string;
+  results: SearchResult[];
+  loading?: boolean;
+  onReadMore: (id: string) => void;
+}
+
+// Render text with the server-provided match ranges wrapped in <mark>
+function HighlightedText({ text, highlights }: Highlighted) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  highlights.forEach(([start, end], index) => {
+    if (start < cursor) return;
+    parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-100 text-inherit rounded px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
+
+export function SearchResults({ query, results, loading = false, onReadMore }: SearchResultsProps) {
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">Searching...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-gray-600 mb-6">
+        {results.length === 0
+          ? `No articles found for "${query}".`
+          : `${results.length} result${results.length === 1 ? '' : 's'} for "${query}"`}
+      </p>
+
+      <div className="space-y-4">
+        {results.map((result) => (
+          <Card key={result.article.id} className="hover:shadow-md transition-shadow">
+            <CardHeader>
+              <h2
+                className="cursor-pointer hover:text-blue-600 transition-colors"
+                onClick={() => onReadMore(result.article.id)}
+              >
+                <HighlightedText {...result.title} />
+              </h2>
+              <div className="flex items-center gap-1 text-gray-500 text-sm">
+                <Calendar className="w-4 h-4" />
+                <span>
+                  {new Date(result.article.createdAt).toLocaleDateString('en-US', {
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric'
+                  })}
+                </span>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-600">
+                <HighlightedText {...result.snippet} />
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from "react";
+import { Settings } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import * as api from "../utils/api";
+import type { FeedContentMode, SiteSettings as SiteSettingsValues } from "../utils/types";
+import { toast } from "sonner";
+
+interface SiteSettingsProps {
+  accessToken: string;
+}
+
+export function SiteSettings({ accessToken }: SiteSettingsProps) {
+  const [values, setValues] = useState<SiteSettingsValues | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const data = await api.getSiteSettings();
+      setValues(data.settings);
+    } catch (error) {
+      console.error('Error loading site settings:', error);
+      toast.error(api.errorMessage(error, 'Failed to load site settings'));
+    }
+  };
+
+  const update = <K extends keyof SiteSettingsValues>(field: K, value: SiteSettingsValues[K]) =>
+    setValues((current) => (current ? { ...current, [field]: value } : current));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!values) return;
+
+    setSaving(true);
+    try {
+      const data = await api.saveSiteSettings(values, accessToken);
+      setValues(data.settings);
+      toast.success('Site settings saved');
+    } catch (error) {
+      console.error('Error saving site settings:', error);
+      toast.error(api.errorMessage(error, 'Failed to save site settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="flex items-center gap-2">
+          <Settings className="w-5 h-5" />
+          Site Settings
+        </h3>
+      </CardHeader>
+      <CardContent>
+        {!values ? (
+          <p className="text-gray-500">Loading settings...</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="site-title">Site Title</Label>
+                <Input
+                  id="site-title"
+                  value={values.title}
+                  onChange={(e) => update('title', e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="site-url">Public Site URL</Label>
+                <Input
+                  id="site-url"
+                  type="url"
+                  value={values.siteUrl}
+                  onChange={(e) => update('siteUrl', e.target.value)}
+                  placeholder="https://blog.example.com"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="site-description">Description</Label>
+              <Textarea
+                id="site-description"
+                value={values.description}
+                onChange={(e) => update('description', e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="site-language">Language</Label>
+                <Input
+                  id="site-language"
+                  value={values.language}
+                  onChange={(e) => update('language', e.target.value)}
+                  placeholder="en"
+                />
+              </div>
+              <div>
+                <Label>Feed Content</Label>
+                <Select
+                  value={values.feedContent}
+                  onValueChange={(value) => update('feedContent', value as FeedContentMode)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="full">Full article</SelectItem>
+                    <SelectItem value="excerpt">Excerpt only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="site-feed-limit">Articles per Feed</Label>
+                <Input
+                  id="site-feed-limit"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={values.feedItemLimit}
+                  onChange={(e) => update('feedItemLimit', Number(e.target.value))}
+                />
+              </div>
+            </div>
+            <div className="border-t pt-4 space-y-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="site-allow-indexing"
+                  checked={values.allowIndexing}
+                  onCheckedChange={(checked) => update('allowIndexing', checked)}
+                />
+                <Label htmlFor="site-allow-indexing">Allow search engines to index the site</Label>
+              </div>
+              <div>
+                <Label htmlFor="site-robots-extra">Additional robots.txt Rules</Label>
+                <Textarea
+                  id="site-robots-extra"
+                  value={values.robotsExtra}
+                  onChange={(e) => update('robotsExtra', e.target.value)}
+                  rows={3}
+                  placeholder={"User-agent: GPTBot\nDisallow: /"}
+                  className="font-mono text-sm"
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
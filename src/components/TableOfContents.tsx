@@ -0,0 +1,141 @@
+import { useEffect, useState, type RefObject } from "react";
+import { ChevronDown, ListTree } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+
+export interface TocHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+// Deeper headings still get anchors, but would make the list too long to scan
+const TOC_SELECTOR = 'h2[id], h3[id]';
+
+// A heading becomes the current section once it scrolls this close to the top of the viewport
+const ACTIVE_OFFSET = 96;
+
+// Heading text without the "#" anchor link ArticleContent appends
+const headingText = (heading: Element) =>
+  Array.from(heading.childNodes)
+    .filter((child) => !(child instanceof Element && child.classList.contains('heading-anchor')))
+    .map((child) => child.textContent ?? '')
+    .join('')
+    .trim();
+
+// Read the rendered headings back from the article, so the list always matches the anchor ids
+export function useHeadings(containerRef: RefObject<HTMLElement>, content: string | undefined): TocHeading[] {
+  const [headings, setHeadings] = useState<TocHeading[]>([]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    setHeadings(
+      container
+        ? Array.from(container.querySelectorAll(TOC_SELECTOR)).map((heading) => ({
+            id: heading.id,
+            text: headingText(heading),
+            level: Number(heading.tagName.slice(1)),
+          }))
+        : []
+    );
+  }, [content]);
+
+  return headings;
+}
+
+// The last heading above the top of the viewport, i.e. the section being read
+export function useActiveHeading(headings: TocHeading[]): string | null {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (headings.length === 0) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      let current: string | null = null;
+      for (const { id } of headings) {
+        const element = document.getElementById(id);
+        if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET) current = id;
+      }
+      setActiveId(current);
+    };
+    const onScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [headings]);
+
+  return activeId;
+}
+
+interface TableOfContentsProps {
+  headings: TocHeading[];
+  activeId: string | null;
+  onNavigate?: () => void;
+}
+
+function TocList({ headings, activeId, onNavigate }: TableOfContentsProps) {
+  const topLevel = Math.min(...headings.map((heading) => heading.level));
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {headings.map((heading) => (
+        <li key={heading.id} style={{ paddingLeft: `${(heading.level - topLevel) * 0.75}rem` }}>
+          <a
+            href={`#${heading.id}`}
+            onClick={onNavigate}
+            aria-current={heading.id === activeId ? 'location' : undefined}
+            className={`block border-l-2 pl-3 py-1 transition-colors ${
+              heading.id === activeId
+                ? 'border-blue-600 text-blue-600 font-medium'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {heading.text}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Sticky sidebar for wide screens
+export function TableOfContents({ headings, activeId }: TableOfContentsProps) {
+  return (
+    <nav aria-label="Table of contents" className="sticky top-8 max-h-[calc(100vh-4rem)] overflow-y-auto">
+      <p className="flex items-center gap-2 text-sm font-medium text-gray-900 mb-3">
+        <ListTree className="w-4 h-4" />
+        On this page
+      </p>
+      <TocList headings={headings} activeId={activeId} />
+    </nav>
+  );
+}
+
+// Collapsed list above the article on small screens
+export function MobileTableOfContents({ headings, activeId }: TableOfContentsProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border rounded-lg bg-white mb-8">
+      <CollapsibleTrigger className="flex w-full items-center justify-between px-4 py-3 text-sm font-medium">
+        <span className="flex items-center gap-2">
+          <ListTree className="w-4 h-4" />
+          On this page
+        </span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4">
+        <nav aria-label="Table of contents">
+          <TocList headings={headings} activeId={activeId} onNavigate={() => setOpen(false)} />
+        </nav>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export function TagInput({ id, value, onChange, suggestions = [], placeholder }: TagInputProps) {
+  const [input, setInput] = useState("");
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const query = normalizeTag(input);
+  const matches = suggestions
+    .filter((tag) => !value.includes(tag) && (!query || tag.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized]);
+    }
+    setInput("");
+    setHighlighted(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((existing) => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(query && matches[highlighted]?.startsWith(query) ? matches[highlighted] : input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((index) => Math.min(index + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, 0));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 rounded-md border px-3 py-2">
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="hover:text-red-600"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            if (input.trim()) addTag(input);
+          }}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          className="flex-1 min-w-32 border-0 shadow-none p-0 h-auto focus-visible:ring-0"
+        />
+      </div>
+
+      {focused && matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-md py-1">
+          {matches.map((tag, index) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // Keep focus in the input so onBlur doesn't fire before the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className={`w-full text-left px-3 py-1.5 text-sm ${index === highlighted ? 'bg-gray-100' : ''}`}
+              >
+                {tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
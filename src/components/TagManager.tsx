@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Check, Merge, Pencil, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Checkbox } from "./ui/checkbox";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import * as api from "../utils/api";
+import type { TagCount } from "../utils/types";
+import { toast } from "sonner";
+
+interface TagManagerProps {
+  tags: TagCount[];
+  accessToken: string;
+  onTagsChanged: () => void;
+}
+
+export function TagManager({ tags, accessToken, onTagsChanged }: TagManagerProps) {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [working, setWorking] = useState(false);
+
+  const handleRename = async (tag: string) => {
+    if (!renameValue.trim()) {
+      toast.error('Tag name is required');
+      return;
+    }
+
+    setWorking(true);
+    try {
+      const data = await api.renameTag(tag, renameValue, accessToken);
+      setRenaming(null);
+      onTagsChanged();
+      toast.success(`Renamed "${tag}" to "${data.tag}" on ${data.updated} article(s)`);
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      toast.error(api.errorMessage(error, 'Failed to rename tag. Please try again.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (selected.length < 2 && !mergeTarget.trim()) {
+      toast.error('Select at least two tags, or one tag and a new name');
+      return;
+    }
+
+    const target = mergeTarget.trim() || selected[0];
+
+    setWorking(true);
+    try {
+      const data = await api.mergeTags(selected, target, accessToken);
+      setSelected([]);
+      setMergeTarget("");
+      onTagsChanged();
+      toast.success(`Merged into "${data.tag}" on ${data.updated} article(s)`);
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      toast.error(api.errorMessage(error, 'Failed to merge tags. Please try again.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleSelected = (tag: string, checked: boolean) => {
+    setSelected((current) => (checked ? [...current, tag] : current.filter((existing) => existing !== tag)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3>Tags ({tags.length})</h3>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tags.length === 0 ? (
+          <p className="text-gray-500">No tags yet. Add tags to articles in the editor.</p>
+        ) : (
+          <ul className="divide-y">
+            {tags.map((tag) => (
+              <li key={tag.name} className="flex items-center gap-3 py-2">
+                <Checkbox
+                  checked={selected.includes(tag.name)}
+                  onCheckedChange={(checked) => toggleSelected(tag.name, checked === true)}
+                  aria-label={`Select tag ${tag.name}`}
+                />
+                {renaming === tag.name ? (
+                  <>
+                    <Input
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      className="h-8 flex-1"
+                      autoFocus
+                    />
+                    <Button size="sm" variant="ghost" disabled={working} onClick={() => handleRename(tag.name)}>
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setRenaming(null)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1">{tag.name}</span>
+                    <span className="text-sm text-gray-500">{tag.count} article(s)</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setRenaming(tag.name);
+                        setRenameValue(tag.name);
+                      }}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selected.length > 0 && (
+          <div className="flex items-center gap-2 border-t pt-4">
+            <Input
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              placeholder={`Merge ${selected.length} tag(s) into... (default "${selected[0]}")`}
+              className="flex-1"
+            />
+            <Button onClick={handleMerge} disabled={working}>
+              <Merge className="w-4 h-4 mr-2" />
+              Merge
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect } from "react";
+import { Users } from "lucide-react";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import * as api from "../utils/api";
+import { ROLES, type Role, type StaffUser } from "../utils/types";
+import { toast } from "sonner";
+
+interface UserManagerProps {
+  accessToken: string;
+  currentUserId: string;
+}
+
+export function UserManager({ accessToken, currentUserId }: UserManagerProps) {
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    setLoading(true);
+    try {
+      const data = await api.listUsers(accessToken);
+      setUsers(data.users);
+    } catch (error) {
+      console.error('Error loading users:', error);
+      toast.error(api.errorMessage(error, 'Failed to load users'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: Role) => {
+    try {
+      await api.setUserRole(userId, role, accessToken);
+      setUsers((current) => current.map((user) => (user.id === userId ? { ...user, role } : user)));
+      toast.success('Role updated');
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error(api.errorMessage(error, 'Failed to update role'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Users ({users.length})
+        </h3>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-gray-500">Loading users...</p>
+        ) : (
+          <ul className="divide-y">
+            {users.map((user) => (
+              <li key={user.id} className="flex items-center justify-between gap-4 py-2">
+                <div>
+                  <p>{user.name ?? user.email}</p>
+                  {user.name && <p className="text-sm text-gray-500">{user.email}</p>}
+                </div>
+                <Select
+                  value={user.role}
+                  onValueChange={(value) => handleRoleChange(user.id, value as Role)}
+                  disabled={user.id === currentUserId}
+                >
+                  <SelectTrigger className="w-36 capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role} className="capitalize">
+                        {role}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,14 @@
+import { renderToString } from "react-dom/server";
+import App, { type InitialData } from "./App.tsx";
+import { setServerLocation } from "./utils/router";
+
+// Where the static export fetches its pages from
+export { projectId, publicAnonKey } from "./utils/supabase/info";
+
+// Renders a public page to HTML for the edge function's page routes (prerender.tsx), which put
+// the markup and its data into index.html, and for the static export (scripts/export-static.mjs).
+// Built with `npm run build:ssr`.
+export function render(url: string, data: InitialData, options: { staticExport?: boolean } = {}): string {
+  setServerLocation(url);
+  return renderToString(<App initialData={data} staticExport={options.staticExport} />);
+}
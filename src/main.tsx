@@ -1,7 +1,16 @@
 
-  import { createRoot } from "react-dom/client";
-  import App from "./App.tsx";
+  import { createRoot, hydrateRoot } from "react-dom/client";
+  import App, { type InitialData } from "./App.tsx";
   import "./index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
-  
\ No newline at end of file
+  const container = document.getElementById("root")!;
+
+  // Pages rendered by the server carry the data they were rendered with
+  const dataElement = document.getElementById("initial-data");
+  const initialData: InitialData | null = dataElement?.textContent ? JSON.parse(dataElement.textContent) : null;
+
+  if (initialData && container.hasChildNodes()) {
+    hydrateRoot(container, <App initialData={initialData} />);
+  } else {
+    createRoot(container).render(<App initialData={initialData} />);
+  }
@@ -0,0 +1,47 @@
+// Claims: rows in the KV table that only one request can create, for things that must be used
+// once however many requests race for them (an invite, the first-admin signup).
+//
+// Key layout:
+//   claim:<name> -> { claimedAt, ...details }
+//
+// kv_store's set is an upsert, so two requests writing the same key both succeed. A claim is an
+// insert instead, and the table's primary key turns the second one into a conflict. insertNew()
+// offers the same to other records that must never be overwritten.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import * as kv from "./kv_store.tsx";
+
+const TABLE = 'kv_store_2b00e03f';
+
+// Postgres unique_violation
+const DUPLICATE_KEY = '23505';
+
+const db = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+);
+
+const claimKey = (name: string) => `claim:${name}`;
+
+// Write a row unless the key exists, returning false if it does
+export const insertNew = async (key: string, value: unknown): Promise<boolean> => {
+  const { error } = await db.from(TABLE).insert({ key, value });
+  if (!error) return true;
+  if (error.code === DUPLICATE_KEY) return false;
+  throw new Error(error.message);
+};
+
+// Take a claim, returning false if another request already holds it
+export const claim = (name: string, details: Record<string, unknown> = {}): Promise<boolean> =>
+  insertNew(claimKey(name), { ...details, claimedAt: new Date().toISOString() });
+
+export const getClaim = (name: string): Promise<Record<string, unknown> | undefined> => kv.get(claimKey(name));
+
+// Record what a claim was used for once the work it guarded is done
+export const completeClaim = async (name: string, details: Record<string, unknown>): Promise<void> => {
+  await kv.set(claimKey(name), { ...await getClaim(name), ...details });
+};
+
+// Give a claim up, so the next request can take it
+export const releaseClaim = async (name: string): Promise<void> => {
+  await kv.del(claimKey(name));
+};
@@ -0,0 +1,231 @@
+// Reader comments and their moderation workflow, stored in the KV table.
+//
+// Key layout:
+//   comment:<articleId>:<commentId>  -> { id, articleId, parentId, depth, name, email, content, status, staffUserId,
+//                                         deleted, createdAt, moderatedAt, moderatedBy }
+//   commenter:<sha256(email|name)>   -> { approvedCount, lastApprovedAt }
+//   settings:comments                -> { moderation, maxDepth, updatedAt, updatedBy }
+//
+// Replies point at their parent through parentId; top-level comments have depth 0.
+// Comments from before moderation existed have no status and count as approved.
+import * as kv from "./kv_store.tsx";
+
+export const COMMENT_STATUSES = ['pending', 'approved', 'rejected', 'spam'] as const;
+
+export type CommentStatus = typeof COMMENT_STATUSES[number];
+
+// How new comments are treated:
+//   auto-approve    - every comment is published immediately
+//   hold-first-time - commenters without an approved comment wait for review
+//   hold-all        - every comment waits for review
+export const MODERATION_MODES = ['auto-approve', 'hold-first-time', 'hold-all'] as const;
+
+export type ModerationMode = typeof MODERATION_MODES[number];
+
+export const MAX_REPLY_DEPTH = 10;
+
+export interface CommentSettings {
+  moderation: ModerationMode;
+  // Deepest level a reply may sit at; 0 turns replies off
+  maxDepth: number;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface Comment {
+  id: string;
+  articleId: string;
+  parentId: string | null;
+  depth: number;
+  name: string;
+  email: string | null;
+  content: string;
+  status: CommentStatus;
+  // Set when a signed-in staff member wrote the comment
+  staffUserId: string | null;
+  // Deleted comments with replies stay behind as "[deleted]" placeholders
+  deleted: boolean;
+  createdAt: string;
+  moderatedAt: string | null;
+  moderatedBy: string | null;
+}
+
+// A comment as stored; those from before moderation and threading lack the later fields
+type StoredComment = Pick<Comment, 'id' | 'articleId' | 'name' | 'content' | 'createdAt'> & Partial<Comment>;
+
+const SETTINGS_KEY = 'settings:comments';
+
+const DEFAULT_SETTINGS: CommentSettings = { moderation: 'hold-first-time', maxDepth: 3, updatedAt: null, updatedBy: null };
+
+export const commentKey = (articleId: string, commentId: string) => `comment:${articleId}:${commentId}`;
+
+const commenterKey = async (name: string, email: string | null): Promise<string> => {
+  const identity = `${(email ?? '').trim().toLowerCase()}|${name.trim().toLowerCase()}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(identity));
+  return `commenter:${Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const getCommentStatus = (comment: StoredComment): CommentStatus => comment.status ?? 'approved';
+
+// Fill in defaults for comments stored before moderation existed
+const normalizeComment = (comment: StoredComment): Comment => ({
+  parentId: null,
+  depth: 0,
+  email: null,
+  staffUserId: null,
+  deleted: false,
+  moderatedAt: null,
+  moderatedBy: null,
+  ...comment,
+  status: getCommentStatus(comment),
+});
+
+// The shape readers see - the commenter's email is never exposed, nor the text of deleted comments
+export const toPublicComment = ({ email: _email, moderatedBy: _moderatedBy, staffUserId, ...comment }: Comment) => ({
+  ...comment,
+  ...(comment.deleted ? { name: '', content: '' } : {}),
+  isStaff: staffUserId !== null,
+});
+
+// Approved comments of an article plus placeholders for any hidden ancestors, so every thread stays intact
+export const toPublicThread = (articleComments: Comment[]) => {
+  const byId = new Map(articleComments.map((comment) => [comment.id, comment]));
+  const visible = new Set<string>();
+
+  for (const comment of articleComments) {
+    if (comment.status !== 'approved' || comment.deleted) continue;
+    for (let current: Comment | undefined = comment; current && !visible.has(current.id); current = byId.get(current.parentId ?? '')) {
+      visible.add(current.id);
+    }
+  }
+
+  return articleComments
+    .filter((comment) => visible.has(comment.id))
+    .map((comment) => toPublicComment(comment.status === 'approved' ? comment : { ...comment, deleted: true }));
+};
+
+export const getSettings = async (): Promise<CommentSettings> => ({
+  ...DEFAULT_SETTINGS,
+  ...(await kv.get(SETTINGS_KEY)),
+});
+
+export const saveSettings = async (
+  { moderation, maxDepth }: Pick<CommentSettings, 'moderation' | 'maxDepth'>,
+  userId: string,
+): Promise<CommentSettings> => {
+  const settings = { moderation, maxDepth, updatedAt: new Date().toISOString(), updatedBy: userId };
+  await kv.set(SETTINGS_KEY, settings);
+  return settings;
+};
+
+// Decide the status of a new comment from the site's moderation mode
+const initialStatus = async (name: string, email: string | null): Promise<CommentStatus> => {
+  const { moderation } = await getSettings();
+  if (moderation === 'auto-approve') return 'approved';
+  if (moderation === 'hold-all') return 'pending';
+
+  const commenter = await kv.get(await commenterKey(name, email));
+  return commenter?.approvedCount > 0 ? 'approved' : 'pending';
+};
+
+// Remember an approved commenter so "hold first-time commenters" lets them through next time
+const recordApprovedCommenter = async (comment: Comment): Promise<void> => {
+  const key = await commenterKey(comment.name, comment.email);
+  const commenter = await kv.get(key);
+  await kv.set(key, {
+    approvedCount: (commenter?.approvedCount ?? 0) + 1,
+    lastApprovedAt: new Date().toISOString(),
+  });
+};
+
+// Staff comments skip the moderation queue
+export const createComment = async (
+  articleId: string,
+  { name, email, content, parent, staffUserId = null }: {
+    name: string;
+    email: string | null;
+    content: string;
+    parent: Comment | null;
+    staffUserId?: string | null;
+  },
+): Promise<Comment> => {
+  const comment: Comment = {
+    id: crypto.randomUUID(),
+    articleId,
+    parentId: parent?.id ?? null,
+    depth: parent ? parent.depth + 1 : 0,
+    name,
+    email: email ? email.trim().toLowerCase() : null,
+    content,
+    status: staffUserId ? 'approved' : await initialStatus(name, email),
+    staffUserId,
+    deleted: false,
+    createdAt: new Date().toISOString(),
+    moderatedAt: null,
+    moderatedBy: null,
+  };
+
+  await kv.set(commentKey(articleId, comment.id), comment);
+  return comment;
+};
+
+export const getComment = async (articleId: string, commentId: string): Promise<Comment | null> => {
+  const comment = await kv.get(commentKey(articleId, commentId));
+  return comment ? normalizeComment(comment) : null;
+};
+
+// An article's comments, oldest first, optionally limited to one status
+export const listArticleComments = async (articleId: string, status?: CommentStatus): Promise<Comment[]> => {
+  const comments: Comment[] = (await kv.getByPrefix(`comment:${articleId}:`)).map(normalizeComment);
+  return comments
+    .filter((comment) => !status || comment.status === status)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+// Comments across every article with the given status, oldest first so the queue is worked in order
+export const listCommentsByStatus = async (status: CommentStatus): Promise<Comment[]> => {
+  const comments: Comment[] = (await kv.getByPrefix('comment:')).map(normalizeComment);
+  return comments
+    .filter((comment) => comment.status === status && !comment.deleted)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+export const setCommentStatus = async (comment: Comment, status: CommentStatus, userId: string): Promise<Comment> => {
+  const updated = { ...comment, status, moderatedAt: new Date().toISOString(), moderatedBy: userId };
+  await kv.set(commentKey(comment.articleId, comment.id), updated);
+
+  if (status === 'approved' && comment.status !== 'approved') {
+    await recordApprovedCommenter(updated);
+  }
+  return updated;
+};
+
+// Remove a comment. One with replies is blanked to a placeholder instead, and placeholders
+// left without replies are cleaned up on the way up the thread.
+export const deleteComment = async (comment: Comment): Promise<void> => {
+  const articleComments = await listArticleComments(comment.articleId);
+  const hasReplies = (id: string) => articleComments.some((other) => other.parentId === id);
+
+  if (hasReplies(comment.id)) {
+    await kv.set(commentKey(comment.articleId, comment.id), { ...comment, deleted: true, content: '' });
+    return;
+  }
+
+  await kv.del(commentKey(comment.articleId, comment.id));
+
+  let remaining = articleComments.filter((other) => other.id !== comment.id);
+  let parent = remaining.find((other) => other.id === comment.parentId);
+  while (parent?.deleted && !remaining.some((other) => other.parentId === parent!.id)) {
+    await kv.del(commentKey(parent.articleId, parent.id));
+    const removedId = parent.id;
+    remaining = remaining.filter((other) => other.id !== removedId);
+    parent = remaining.find((other) => other.id === parent!.parentId);
+  }
+};
+
+export const deleteArticleComments = async (articleId: string): Promise<void> => {
+  const comments: Comment[] = await kv.getByPrefix(`comment:${articleId}:`);
+  if (comments.length > 0) {
+    await kv.mdel(comments.map((comment) => commentKey(articleId, comment.id)));
+  }
+};
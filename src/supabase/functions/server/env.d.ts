@@ -0,0 +1,8 @@
+/// <reference types="deno" />
+
+// Secrets the Supabase Edge Runtime sets for every function, so reading them never comes back empty
+declare namespace Deno {
+  interface Env {
+    get(key: 'SUPABASE_URL' | 'SUPABASE_ANON_KEY' | 'SUPABASE_SERVICE_ROLE_KEY' | 'SUPABASE_DB_URL'): string;
+  }
+}
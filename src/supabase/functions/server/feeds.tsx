@@ -0,0 +1,153 @@
+// RSS 2.0 and Atom 1.0 feed builders for published articles.
+//
+// Feeds are generated on request from article records; nothing is stored. Item GUIDs use the
+// article id rather than its URL, so renaming a slug doesn't make readers see the article twice.
+// Feed links must be absolute, so the site settings need a siteUrl before any feed is built.
+import { renderMarkdown } from "./markdown.tsx";
+import type { SiteSettings } from "./settings.tsx";
+
+export interface FeedArticle {
+  id: string;
+  slug: string | null;
+  title: string;
+  excerpt: string;
+  content: string;
+  format: string;
+  imageUrl: string | null;
+  tags: string[];
+  category: string | null;
+  authorName: string | null;
+  publishedAt: string;
+  updatedAt: string;
+}
+
+export interface FeedOptions {
+  site: SiteSettings;
+  // Address of the feed itself, for the self link
+  selfUrl: string;
+  // Suffix for the feed title when it is filtered, e.g. "Tag: deno"
+  subtitle?: string;
+}
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const articleUrl = (site: SiteSettings, article: { id: string; slug: string | null }) =>
+  `${site.siteUrl}/articles/${encodeURIComponent(article.slug ?? article.id)}`;
+
+// Plain-text bodies: turn blank-line separated paragraphs into HTML
+const textToHtml = (text: string): string =>
+  text
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p>${escapeXml(paragraph).replace(/\n/g, '<br />')}</p>`)
+    .join('\n');
+
+const itemHtml = (site: SiteSettings, article: FeedArticle): string => {
+  const fullContent = () => (article.format === 'markdown' ? renderMarkdown(article.content) : textToHtml(article.content));
+  const body = site.feedContent === 'full' ? fullContent() : `<p>${escapeXml(article.excerpt)}</p>`;
+  return article.imageUrl
+    ? `<p><img src="${escapeXml(article.imageUrl)}" alt="${escapeXml(article.title)}" /></p>\n${body}`
+    : body;
+};
+
+const feedTitle = ({ site, subtitle }: FeedOptions) => (subtitle ? `${site.title} - ${subtitle}` : site.title);
+
+// Image MIME type from the URL's extension, for media:content
+const imageType = (url: string): string | null => {
+  const extension = new URL(url, 'https://example.invalid').pathname.split('.').pop()?.toLowerCase();
+  const types: Record<string, string> = {
+    jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp', avif: 'image/avif', svg: 'image/svg+xml',
+  };
+  return extension ? types[extension] ?? null : null;
+};
+
+// Wrap child lines in an element, skipping empty ones, indented under `indent`
+export const element = (name: string, children: Array<string | null | false | undefined>, indent: string): string =>
+  [
+    `${indent}<${name}>`,
+    ...children.filter(Boolean).map((child) => `${indent}  ${child}`),
+    `${indent}</${name}>`,
+  ].join('\n');
+
+const mediaContent = (imageUrl: string | null): string => {
+  if (!imageUrl) return '';
+  const type = imageType(imageUrl);
+  return `<media:content url="${escapeXml(imageUrl)}" medium="image"${type ? ` type="${type}"` : ''} />`;
+};
+
+// Most recent change across the feed, falling back to now for an empty feed
+const lastUpdated = (articles: FeedArticle[]): string =>
+  articles.reduce(
+    (latest, article) => (article.updatedAt > latest ? article.updatedAt : latest),
+    articles[0]?.updatedAt ?? new Date().toISOString(),
+  );
+
+const categories = (article: FeedArticle): string[] =>
+  [article.category, ...article.tags].filter((value): value is string => Boolean(value));
+
+export const buildRss = (articles: FeedArticle[], options: FeedOptions): string => {
+  const { site, selfUrl } = options;
+
+  const items = articles.map((article) => element('item', [
+    `<title>${escapeXml(article.title)}</title>`,
+    `<link>${escapeXml(articleUrl(site, article))}</link>`,
+    `<guid isPermaLink="false">urn:uuid:${article.id}</guid>`,
+    `<pubDate>${new Date(article.publishedAt).toUTCString()}</pubDate>`,
+    article.authorName && `<dc:creator>${escapeXml(article.authorName)}</dc:creator>`,
+    ...categories(article).map((name) => `<category>${escapeXml(name)}</category>`),
+    `<description>${escapeXml(article.excerpt)}</description>`,
+    `<content:encoded>${escapeXml(itemHtml(site, article))}</content:encoded>`,
+    mediaContent(article.imageUrl),
+  ], '    '));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>${escapeXml(feedTitle(options))}</title>
+    <link>${escapeXml(site.siteUrl || selfUrl)}</link>
+    <description>${escapeXml(site.description)}</description>
+    <language>${escapeXml(site.language)}</language>
+    <lastBuildDate>${new Date(lastUpdated(articles)).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+};
+
+export const buildAtom = (articles: FeedArticle[], options: FeedOptions): string => {
+  const { site, selfUrl } = options;
+
+  const entries = articles.map((article) => element('entry', [
+    `<title>${escapeXml(article.title)}</title>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(articleUrl(site, article))}" />`,
+    `<id>urn:uuid:${article.id}</id>`,
+    `<published>${new Date(article.publishedAt).toISOString()}</published>`,
+    `<updated>${new Date(article.updatedAt).toISOString()}</updated>`,
+    // Atom requires an author on every entry when the feed itself names none
+    `<author><name>${escapeXml(article.authorName ?? site.title)}</name></author>`,
+    ...categories(article).map((name) => `<category term="${escapeXml(name)}" />`),
+    `<summary>${escapeXml(article.excerpt)}</summary>`,
+    `<content type="html">${escapeXml(itemHtml(site, article))}</content>`,
+    mediaContent(article.imageUrl),
+  ], '  '));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/" xml:lang="${escapeXml(site.language)}">
+  <title>${escapeXml(feedTitle(options))}</title>
+  <subtitle>${escapeXml(site.description)}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}" />
+  <link rel="alternate" type="text/html" href="${escapeXml(site.siteUrl || selfUrl)}" />
+  <id>${escapeXml(selfUrl)}</id>
+  <updated>${new Date(lastUpdated(articles)).toISOString()}</updated>
+${entries.join('\n')}
+</feed>
+`;
+};
@@ -0,0 +1,179 @@
+// Responsive versions of article images: scaled-down WebP copies for srcset, and a tiny blurred
+// placeholder shown while the real image loads.
+//
+// Key layout:
+//   image:<sha-256 of source URL> -> { sourceUrl, width, height, placeholder, variants: [{ width, url, path }], createdAt }
+//
+// Uploaded images are processed as they are uploaded. Images referenced by URL are fetched and
+// processed the first time an article uses them, if they are in the site's media storage; images
+// hosted elsewhere are shown as-is. Either way the result is reused afterwards.
+import * as kv from "./kv_store.tsx";
+import * as media from "./media.tsx";
+import { Image, decode } from "npm:imagescript@1.3.0";
+
+// Covers phone screens up to a full-width hero on a high-density laptop display
+const VARIANT_WIDTHS = [320, 640, 960, 1280, 1920];
+
+const VARIANT_QUALITY = 80;
+
+// Small enough to inline as a data URL; the browser blurs and stretches it
+const PLACEHOLDER_WIDTH = 16;
+
+const FETCH_TIMEOUT_MS = 10000;
+
+export interface ImageVariant {
+  width: number;
+  url: string;
+}
+
+export interface ResponsiveImage {
+  width: number;
+  height: number;
+  placeholder: string;
+  variants: ImageVariant[];
+}
+
+interface StoredResponsiveImage extends ResponsiveImage {
+  sourceUrl: string;
+  variants: Array<ImageVariant & { path: string }>;
+  createdAt: string;
+}
+
+const imageKey = async (sourceUrl: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(sourceUrl));
+  return `image:${Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+// Read a response body, giving up as soon as it grows past maxBytes rather than after
+// downloading all of it; Content-Length can be missing or wrong. Leaving the loop early
+// cancels the rest of the download.
+const readLimited = async (response: Response, maxBytes: number): Promise<Uint8Array | null> => {
+  if (!response.body) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of response.body) {
+    size += chunk.length;
+    if (size > maxBytes) return null;
+    chunks.push(chunk);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+
+// The public shape, without storage paths
+const present = ({ width, height, placeholder, variants }: StoredResponsiveImage): ResponsiveImage => ({
+  width,
+  height,
+  placeholder,
+  variants: variants.map(({ width, url }) => ({ width, url })),
+});
+
+// Decode an image and write its variants under pathPrefix. Returns null for files that can't be
+// decoded here (WebP and AVIF) or shouldn't be re-encoded (animated GIFs); those are shown as-is.
+const processImage = async (
+  sourceUrl: string,
+  bytes: Uint8Array,
+  pathPrefix: string,
+  localUrl: (path: string) => string,
+): Promise<StoredResponsiveImage | null> => {
+  let image: Awaited<ReturnType<typeof decode>>;
+  try {
+    image = await decode(bytes);
+  } catch {
+    return null;
+  }
+  if (!(image instanceof Image)) return null;
+
+  const { width, height } = image;
+  const variants: StoredResponsiveImage['variants'] = [];
+
+  // Largest first, each scaled from the one before, so only one full-size bitmap is ever held
+  let current = image;
+  for (const variantWidth of VARIANT_WIDTHS.filter((candidate) => candidate < width).reverse()) {
+    current = current.resize(variantWidth, Image.RESIZE_AUTO);
+    const path = `${pathPrefix}/w${variantWidth}.webp`;
+    const url = await media.storeFile(path, await current.encodeWEBP(VARIANT_QUALITY), 'image/webp', localUrl);
+    variants.push({ width: variantWidth, url, path });
+  }
+
+  const placeholder = await current.resize(PLACEHOLDER_WIDTH, Image.RESIZE_AUTO).encodeWEBP(50);
+
+  return {
+    sourceUrl,
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${toBase64(placeholder)}`,
+    // The original is the largest candidate
+    variants: [...variants.reverse(), { width, url: sourceUrl, path: '' }],
+    createdAt: new Date().toISOString(),
+  };
+};
+
+// Called with the bytes of a freshly uploaded image
+export const prepareUploadedImage = async (
+  asset: media.MediaAsset,
+  bytes: Uint8Array,
+  localUrl: (path: string) => string,
+): Promise<void> => {
+  const processed = await processImage(asset.url, bytes, `${asset.id}/variants`, localUrl);
+  if (processed) await kv.set(await imageKey(asset.url), processed);
+};
+
+// Responsive versions of the image at a URL, processing it first if it hasn't been seen.
+// Never throws: an image that can't be fetched or processed is simply shown as-is.
+export const getResponsiveImage = async (
+  sourceUrl: string,
+  localUrl: (path: string) => string,
+): Promise<ResponsiveImage | null> => {
+  try {
+    const key = await imageKey(sourceUrl);
+    const existing: StoredResponsiveImage | null = await kv.get(key);
+    if (existing) return present(existing);
+    if (!media.isStoredFileUrl(sourceUrl, localUrl)) return null;
+
+    const response = await fetch(sourceUrl, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    const type = response.headers.get('Content-Type')?.split(';')[0].trim() ?? '';
+    const length = Number(response.headers.get('Content-Length'));
+    if (!response.ok || !type.startsWith('image/') || length > media.MAX_MEDIA_SIZES.image) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const bytes = await readLimited(response, media.MAX_MEDIA_SIZES.image);
+    if (!bytes) return null;
+
+    const processed = await processImage(sourceUrl, bytes, `remote/${key.slice('image:'.length, 'image:'.length + 32)}`, localUrl);
+    if (!processed) return null;
+
+    await kv.set(key, processed);
+    return present(processed);
+  } catch (error) {
+    console.log('Error preparing responsive image:', sourceUrl, error);
+    return null;
+  }
+};
+
+// Remove the variants of an image that is being deleted
+export const removeResponsiveImage = async (sourceUrl: string): Promise<void> => {
+  const key = await imageKey(sourceUrl);
+  const existing: StoredResponsiveImage | null = await kv.get(key);
+  if (!existing) return;
+
+  await media.removeFiles(existing.variants.map(({ path }) => path).filter(Boolean));
+  await kv.del(key);
+};
+
+// Every generated variant file, for copying them along with the images they belong to
+export const listVariantFiles = async (): Promise<Array<{ url: string; path: string }>> => {
+  const images: StoredResponsiveImage[] = await kv.getByPrefix('image:');
+  return images.flatMap((image) => image.variants.filter(({ path }) => path).map(({ url, path }) => ({ url, path })));
+};
@@ -1,7 +1,28 @@
-import { Hono } from "npm:hono";
+import { Hono, type Context } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import * as kv from "./kv_store.tsx";
+import * as searchIndex from "./search.tsx";
+import * as revisions from "./revisions.tsx";
+import * as permissions from "./permissions.tsx";
+import type { AuthUser } from "./permissions.tsx";
+import * as invites from "./invites.tsx";
+import * as claims from "./claims.tsx";
+import * as pagination from "./pagination.tsx";
+import * as comments from "./comments.tsx";
+import * as siteSettings from "./settings.tsx";
+import * as feeds from "./feeds.tsx";
+import * as podcast from "./podcast.tsx";
+import * as sitemap from "./sitemap.tsx";
+import * as markdown from "./markdown.tsx";
+import * as reading from "./reading.tsx";
+import * as media from "./media.tsx";
+import * as images from "./images.tsx";
+import * as seo from "./seo.tsx";
+import * as prerender from "./prerender.tsx";
+import * as openapi from "./openapi.tsx";
+import * as schemas from "./schemas.tsx";
+import { swaggerUI } from "npm:@hono/swagger-ui@0.6";
 import { createClient } from "npm:@supabase/supabase-js@2";
 
 const app = new Hono();
@@ -27,20 +48,100 @@ const supabase = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
 );
 
+// Public address of a request to this function. Inside the edge runtime the request URL lacks
+// the /functions/v1 prefix clients call it with, so self links are rebuilt from the project URL.
+function publicUrl(c: Context, path?: string): string {
+  const url = new URL(c.req.url);
+  const base = `${Deno.env.get('SUPABASE_URL') ?? url.origin}/functions/v1`;
+  return path ? `${base}${path}` : `${base}${url.pathname}${url.search}`;
+}
+
+const MEDIA_FILES_PATH = '/make-server-2b00e03f/media/files/';
+
+// Public URLs for files kept by the local media stand-in (MEDIA_LOCAL_DIR)
+const localMediaUrl = (c: Context) => (path: string) => publicUrl(c, `${MEDIA_FILES_PATH}${path}`);
+
 // Health check endpoint
-app.get("/make-server-2b00e03f/health", (c) => {
+app.get("/make-server-2b00e03f/health", openapi.route({
+  operationId: 'getHealth',
+  summary: 'Check that the function is running',
+  tag: 'Health',
+  auth: 'public',
+  response: schemas.HEALTH,
+}), (c) => {
   return c.json({ status: "ok" });
 });
 
 // ===== AUTH ROUTES =====
 
-// Sign up new admin user
-app.post("/make-server-2b00e03f/signup", async (c) => {
+// Registration is open only until the first account exists; that account becomes admin
+async function isBootstrapSignup(): Promise<boolean> {
+  const { data, error } = await supabase.auth.admin.listUsers({ page: 1, perPage: 1 });
+  if (error) throw error;
+  return data.users.length === 0;
+}
+
+// Claimed by the signup creating the first admin, so two signups racing on an empty project
+// can't both take the bootstrap path. It's released again if the account isn't created.
+const BOOTSTRAP_CLAIM = 'signup:bootstrap';
+
+// Undo a signup that failed part way: remove the account if it was created, and hand back its
+// invite or the bootstrap so they can be used again
+async function abandonSignup(bootstrap: boolean, invite: invites.Invite | null, userId: string | null): Promise<void> {
   try {
-    const { email, password, name } = await c.req.json();
-    
-    if (!email || !password || !name) {
-      return c.json({ error: 'Email, password, and name are required' }, 400);
+    if (userId) {
+      const { error } = await supabase.auth.admin.deleteUser(userId);
+      if (error) throw error;
+    }
+    if (invite) await invites.releaseInvite(invite);
+    if (bootstrap) await claims.releaseClaim(BOOTSTRAP_CLAIM);
+  } catch (error) {
+    console.log('Error undoing failed signup:', error);
+  }
+}
+
+// Whether the next signup is the first-user bootstrap, so the login screen can offer it
+app.get("/make-server-2b00e03f/signup/status", openapi.route({
+  operationId: 'getSignupStatus',
+  summary: 'Whether the next signup creates the first admin',
+  tag: 'Auth',
+  auth: 'public',
+  response: schemas.SIGNUP_STATUS,
+}), async (c) => {
+  try {
+    return c.json({ bootstrap: await isBootstrapSignup() });
+  } catch (error) {
+    console.log('Error checking signup status:', error);
+    return c.json({ error: 'Failed to check signup status' }, 500);
+  }
+});
+
+// Sign up a staff user - the first account is created freely as admin,
+// every later one needs a valid single-use invite token
+app.post("/make-server-2b00e03f/signup", openapi.route({
+  operationId: 'signup',
+  summary: 'Create a staff account',
+  description: 'The first account becomes an admin without an invite. Every later one needs a valid invite and gets its role.',
+  tag: 'Auth',
+  auth: 'public',
+  body: schemas.SIGNUP,
+  response: schemas.SIGNUP_RESULT,
+  responses: { 403: 'A valid invite is required to create an account' },
+}), async (c) => {
+  let bootstrap = false;
+  let invite: invites.Invite | null = null;
+  let userId: string | null = null;
+  let completed = false;
+
+  try {
+    const { email, password, name, inviteToken } = await c.req.json();
+
+    // Both are claimed before the account is created so concurrent signups can't share them
+    bootstrap = await isBootstrapSignup() && await claims.claim(BOOTSTRAP_CLAIM);
+    invite = bootstrap || !inviteToken ? null : await invites.claimInvite(inviteToken, email);
+
+    if (!bootstrap && !invite) {
+      return c.json({ error: 'A valid invite is required to create an account' }, 403);
     }
 
     const { data, error } = await supabase.auth.admin.createUser({
@@ -55,11 +156,24 @@ app.post("/make-server-2b00e03f/signup", async (c) => {
       console.log('Signup error:', error);
       return c.json({ error: error.message }, 400);
     }
+    userId = data.user.id;
+
+    const role = invite?.role ?? 'admin';
+    await permissions.setRole(data.user.id, role);
+    if (invite) {
+      await invites.markInviteUsed(invite, data.user.id);
+    }
+    if (bootstrap) {
+      await claims.completeClaim(BOOTSTRAP_CLAIM, { userId: data.user.id });
+    }
 
-    return c.json({ success: true, user: data.user });
+    completed = true;
+    return c.json({ success: true, user: data.user, role });
   } catch (error) {
     console.log('Sign up error during user creation:', error);
     return c.json({ error: 'Failed to create user' }, 500);
+  } finally {
+    if (!completed) await abandonSignup(bootstrap, invite, userId);
   }
 });
 
@@ -74,27 +188,547 @@ async function verifyAuth(request: Request): Promise<string | null> {
   return user.id;
 }
 
-// ===== ARTICLE ROUTES =====
+// Resolve the signed-in user along with their role
+async function getAuthUser(request: Request): Promise<AuthUser | null> {
+  const userId = await verifyAuth(request);
+  if (!userId) return null;
+  return { id: userId, role: await permissions.getRole(userId) };
+}
+
+// Display name for a user, used to attribute revisions
+async function getUserName(userId: string): Promise<string | null> {
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+  if (error || !data?.user) return null;
+  return data.user.user_metadata?.name ?? data.user.email ?? null;
+}
+
+// ===== USER ROUTES =====
+
+const USERS_PAGE_SIZE = 1000;
+
+// Every account - listUsers() returns one page at a time
+async function listAllUsers(): Promise<any[]> {
+  const users: any[] = [];
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: USERS_PAGE_SIZE });
+    if (error) throw error;
+    users.push(...data.users);
+    if (data.users.length < USERS_PAGE_SIZE) return users;
+  }
+}
 
-// Get all published articles
-app.get("/make-server-2b00e03f/articles", async (c) => {
+// Current user's role and permissions, so the dashboard can hide actions they can't take
+app.get("/make-server-2b00e03f/me", openapi.route({
+  operationId: 'getCurrentUser',
+  summary: 'The signed-in user\'s role and permissions',
+  tag: 'Users',
+  auth: 'signed-in',
+  response: schemas.CURRENT_USER,
+}), async (c) => {
   try {
-    const articles = await kv.getByPrefix('article:');
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    return c.json({ user: { ...user, permissions: permissions.getPermissions(user.role) } });
+  } catch (error) {
+    console.log('Error fetching current user:', error);
+    return c.json({ error: 'Failed to fetch current user' }, 500);
+  }
+});
+
+// List staff accounts with their roles (requires user:manage)
+app.get("/make-server-2b00e03f/users", openapi.route({
+  operationId: 'listUsers',
+  summary: 'List staff accounts with their roles',
+  tag: 'Users',
+  auth: 'user:manage',
+  response: schemas.USER_LIST,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'user:manage')) {
+      return c.json({ error: 'Forbidden - Only admins can manage users' }, 403);
+    }
+
+    const roles = new Map((await permissions.listRoles()).map((record) => [record.userId, record.role]));
+    const users = (await listAllUsers()).map((account) => ({
+      id: account.id,
+      email: account.email ?? null,
+      name: account.user_metadata?.name ?? null,
+      role: roles.get(account.id) ?? 'contributor',
+      createdAt: account.created_at,
+    }));
+
+    return c.json({ users });
+  } catch (error) {
+    console.log('Error fetching users:', error);
+    return c.json({ error: 'Failed to fetch users' }, 500);
+  }
+});
+
+// Change a user's role (requires user:manage)
+app.put("/make-server-2b00e03f/users/:id/role", openapi.route({
+  operationId: 'setUserRole',
+  summary: 'Change a user\'s role',
+  description: 'Admins cannot take away their own admin role, so one is always left.',
+  tag: 'Users',
+  auth: 'user:manage',
+  body: schemas.ROLE_CHANGE,
+  response: schemas.ROLE_CHANGE_RESULT,
+  responses: { 404: 'User not found' },
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'user:manage')) {
+      return c.json({ error: 'Forbidden - Only admins can manage users' }, 403);
+    }
+
+    const targetId = c.req.param('id');
+    const { role } = await c.req.json();
+
+    // Keep at least one admin around
+    if (targetId === user.id && role !== 'admin') {
+      return c.json({ error: 'You cannot remove your own admin role' }, 400);
+    }
+
+    const { data, error } = await supabase.auth.admin.getUserById(targetId);
+    if (error || !data?.user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    await permissions.setRole(targetId, role);
     
-    // Sort by createdAt (newest first)
-    const sortedArticles = articles
-      .map(item => item.value)
-      .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    return c.json({ success: true, user: { id: targetId, role } });
+  } catch (error) {
+    console.log('Error updating user role:', error);
+    return c.json({ error: 'Failed to update user role' }, 500);
+  }
+});
+
+// ===== INVITE ROUTES =====
+
+// List invites with their current state (requires user:manage)
+app.get("/make-server-2b00e03f/invites", openapi.route({
+  operationId: 'listInvites',
+  summary: 'List invites with their current state',
+  tag: 'Invites',
+  auth: 'user:manage',
+  response: schemas.INVITE_LIST,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'user:manage')) {
+      return c.json({ error: 'Forbidden - Only admins can manage invites' }, 403);
+    }
+
+    return c.json({ invites: await invites.listInvites() });
+  } catch (error) {
+    console.log('Error fetching invites:', error);
+    return c.json({ error: 'Failed to fetch invites' }, 500);
+  }
+});
+
+// Create an invite - the token is only returned here (requires user:manage)
+app.post("/make-server-2b00e03f/invites", openapi.route({
+  operationId: 'createInvite',
+  summary: 'Create an invite',
+  description: 'The token is only returned here.',
+  tag: 'Invites',
+  auth: 'user:manage',
+  body: schemas.INVITE_INPUT,
+  response: schemas.INVITE_CREATED,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'user:manage')) {
+      return c.json({ error: 'Forbidden - Only admins can manage invites' }, 403);
+    }
+
+    const { role, email = null, expiresInDays = 7 } = await c.req.json();
+
+    const { invite, token } = await invites.createInvite(role, email, expiresInDays, user.id);
+    
+    return c.json({ success: true, invite: { ...invite, state: invites.getInviteState(invite) }, token });
+  } catch (error) {
+    console.log('Error creating invite:', error);
+    return c.json({ error: 'Failed to create invite' }, 500);
+  }
+});
+
+// Revoke an invite so its token can no longer be used (requires user:manage)
+app.delete("/make-server-2b00e03f/invites/:id", openapi.route({
+  operationId: 'revokeInvite',
+  summary: 'Revoke an invite so its token can no longer be used',
+  tag: 'Invites',
+  auth: 'user:manage',
+  response: schemas.INVITE_RESULT,
+  responses: { 404: 'Invite not found' },
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'user:manage')) {
+      return c.json({ error: 'Forbidden - Only admins can manage invites' }, 403);
+    }
+
+    const invite = await invites.revokeInvite(c.req.param('id'));
+    if (!invite) {
+      return c.json({ error: 'Invite not found' }, 404);
+    }
     
-    return c.json({ articles: sortedArticles });
+    return c.json({ success: true, invite: { ...invite, state: invites.getInviteState(invite) } });
+  } catch (error) {
+    console.log('Error revoking invite:', error);
+    return c.json({ error: 'Failed to revoke invite' }, 500);
+  }
+});
+
+// ===== ARTICLE HELPERS =====
+
+// Articles created before statuses existed were live, so treat them as published
+function getArticleStatus(article: any): string {
+  return article.status ?? 'published';
+}
+
+// Scheduled articles become published once their publishAt time has passed
+function isArticlePublished(article: any, now = Date.now()): boolean {
+  const status = getArticleStatus(article);
+  if (status === 'published') return true;
+  if (status === 'scheduled' && article.publishAt) {
+    return new Date(article.publishAt).getTime() <= now;
+  }
+  return false;
+}
+
+// When an article went live: recorded when it is published, otherwise its schedule time,
+// falling back to creation time for records from before publish times were kept
+function getPublishedAt(article: any): string {
+  return article.publishedAt ?? (getArticleStatus(article) === 'scheduled' ? article.publishAt : null) ?? article.createdAt;
+}
+
+// Shape a stored article for API responses: effective status, the published flag
+// the frontend relies on, and defaults for fields older records don't have
+function presentArticle(article: any) {
+  const published = isArticlePublished(article);
+  return {
+    ...article,
+    status: published ? 'published' : getArticleStatus(article),
+    publishAt: article.publishAt ?? null,
+    published,
+    publishedAt: published ? getPublishedAt(article) : null,
+    slug: article.slug ?? null,
+    tags: article.tags ?? [],
+    category: article.category ?? null,
+    noindex: article.noindex ?? false,
+    responsiveImage: article.responsiveImage ?? null,
+    seoTitle: article.seoTitle ?? null,
+    seoDescription: article.seoDescription ?? null,
+    format: markdown.getContentFormat(article),
+    // Stored on save; records from before reading stats existed get them computed here
+    ...(article.wordCount === undefined ? reading.getReadingStats(article.content ?? '', markdown.getContentFormat(article)) : {}),
+  };
+}
+
+// Whether a signed-in user's lists include a presented article: anything published, their own
+// articles, and with article:edit-any everyone's drafts and scheduled posts too
+function canListArticle(user: AuthUser, article: any): boolean {
+  return article.published || article.authorId === user.id || permissions.hasPermission(user, 'article:edit-any');
+}
+
+// Whether a request may fetch a stored article on its own; unpublished ones are found by the
+// same users whose lists include them
+async function canViewArticle(request: Request, article: any): Promise<boolean> {
+  if (isArticlePublished(article)) return true;
+  const user = await getAuthUser(request);
+  return !!user && canListArticle(user, presentArticle(article));
+}
+
+// Project an article down to the fields needed by list views (everything except content)
+function toArticleSummary(article: any) {
+  const { content: _content, ...summary } = article;
+  return summary;
+}
+
+// Audio enclosure details for the podcast feed. The file is only probed when the URL changes, and
+// only if it's an upload; audio hosted elsewhere gets its type from the extension and no size.
+// The duration comes from the editor, which can read it from the file in the browser.
+async function getAudioMetadata(c: Context, existing: any, audioUrl: string | null, audioDuration: unknown) {
+  if (!audioUrl) {
+    return { audioLength: null, audioType: null, audioDuration: null };
+  }
+
+  const sameFile = existing?.audioUrl === audioUrl;
+  const { audioLength, audioType } = sameFile && existing.audioType
+    ? { audioLength: existing.audioLength ?? null, audioType: existing.audioType }
+    : media.isStoredFileUrl(audioUrl, localMediaUrl(c))
+      ? await podcast.probeAudio(audioUrl)
+      : { audioLength: null, audioType: podcast.audioTypeFromUrl(audioUrl) };
+  const duration = typeof audioDuration === 'number' && audioDuration > 0
+    ? Math.round(audioDuration)
+    : sameFile ? existing.audioDuration ?? null : null;
+
+  return { audioLength, audioType, audioDuration: duration };
+}
+
+// Srcset variants and placeholder for the featured image, reusing the stored ones while it is unchanged
+async function getResponsiveImage(c: Context, existing: any, imageUrl: string | null) {
+  if (!imageUrl) return null;
+  if (existing?.imageUrl === imageUrl && existing.responsiveImage) return existing.responsiveImage;
+  return await images.getResponsiveImage(imageUrl, localMediaUrl(c));
+}
+
+// Title, description, social card tags and JSON-LD for an article page
+async function getArticleMeta(article: any): Promise<seo.PageMeta> {
+  const [site, authorName] = await Promise.all([
+    siteSettings.getSiteSettings(),
+    article.authorId ? getUserName(article.authorId) : null,
+  ]);
+  return seo.buildArticleMeta(presentArticle(article), site, authorName);
+}
+
+// ===== TAXONOMY HELPERS =====
+
+// Tags are stored lowercased with collapsed whitespace so "React " and "react" are one tag
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const normalized = tags
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(normalizeTag)
+    .filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+function normalizeCategory(category: unknown): string | null {
+  return typeof category === 'string' && category.trim() ? category.trim().replace(/\s+/g, ' ') : null;
+}
+
+// Count how many articles use each value returned by `getValues`, most used first
+function countBy(articles: any[], getValues: (article: any) => string[]) {
+  const counts = new Map<string, number>();
+  for (const article of articles) {
+    for (const value of getValues(article)) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Replace every tag in `sources` with `target` across all articles
+async function mergeTags(sources: string[], target: string): Promise<number> {
+  const articles = await kv.getByPrefix('article:');
+  const affected = articles.filter((article: any) =>
+    (article.tags ?? []).some((tag: string) => sources.includes(tag))
+  );
+
+  if (affected.length === 0) return 0;
+
+  const updated = affected.map((article: any) => ({
+    ...article,
+    tags: normalizeTags(article.tags.map((tag: string) => (sources.includes(tag) ? target : tag))),
+  }));
+
+  await kv.mset(updated.map((article: any) => `article:${article.id}`), updated);
+  await prerender.invalidatePages();
+  return updated.length;
+}
+
+// ===== SLUG HELPERS =====
+
+const MAX_SLUG_LENGTH = 80;
+
+// "Hello, Wörld!" -> "hello-world"
+function slugify(text: string): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+  return slug || 'article';
+}
+
+// Slug records map every current and former slug to its article, so old links keep resolving
+async function getSlugOwner(slug: string): Promise<string | null> {
+  const record = await kv.get(`slug:${slug}`);
+  return record?.articleId ?? null;
+}
+
+// Append -2, -3, ... until the slug is free (or already belongs to this article)
+async function findAvailableSlug(base: string, articleId: string): Promise<string> {
+  let candidate = base;
+  for (let suffix = 2; ; suffix++) {
+    const owner = await getSlugOwner(candidate);
+    if (!owner || owner === articleId) return candidate;
+    candidate = `${base.slice(0, MAX_SLUG_LENGTH - String(suffix).length - 1)}-${suffix}`;
+  }
+}
+
+// ===== REVISION HELPERS =====
+
+// The revisionCount to store an updated article with: the number its revision tries first.
+// Articles saved before history existed get their original version as revision 1.
+const nextRevisionCount = (existingArticle: any) => (existingArticle.revisionCount ?? 1) + 1;
+
+// Record an update in the article's history, once the updated article has been stored
+async function recordUpdateRevision(existingArticle: any, updatedArticle: any, userId: string, note: string | null = null) {
+  if (existingArticle.revisionCount === undefined) {
+    await revisions.recordRevision(
+      { ...existingArticle, revisionCount: 1 },
+      { id: existingArticle.authorId, name: null },
+      [],
+      'Original version',
+    );
+  }
+
+  const changes = revisions.changedFields(existingArticle, updatedArticle);
+  await revisions.recordRevision(updatedArticle, { id: userId, name: await getUserName(userId) }, changes, note);
+}
+
+// ===== ARTICLE ROUTES =====
+
+// Filter presented articles by tag/category, newest first, and cut out the page after `cursor`
+function paginateArticles(
+  articles: any[],
+  { tag, category, cursor, limit }: { tag?: string; category?: string; cursor: pagination.Cursor | null; limit: number | null },
+) {
+  const sortedArticles = articles
+    .filter((article: any) => !tag || article.tags.includes(normalizeTag(tag)))
+    .filter((article: any) => !category || article.category?.toLowerCase() === category.trim().toLowerCase())
+    .sort(pagination.compareArticles);
+
+  return { ...pagination.paginate(sortedArticles, cursor, limit), total: sortedArticles.length };
+}
+
+// Shared list handler - anonymous readers only see published articles,
+// authenticated users may filter with ?status=draft|scheduled|published|archived|all.
+// Supports ?limit=&cursor= pagination, ?fields=summary to leave out content,
+// and ?tag= / ?category= taxonomy filters.
+async function listArticles(c: Context, tagFilter?: string) {
+  try {
+    const requestedStatus = c.req.query('status');
+    const onlyPublished = c.req.query('published') === 'true' || !requestedStatus;
+    const summaryOnly = c.req.query('fields') === 'summary';
+    const limitParam = c.req.query('limit');
+    const cursorParam = c.req.query('cursor');
+    const tag = tagFilter ?? c.req.query('tag');
+    const category = c.req.query('category');
+
+    const limit = limitParam ? parseInt(limitParam, 10) : null;
+    const cursor = cursorParam ? pagination.decodeCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+
+    const user = onlyPublished ? null : await getAuthUser(c.req.raw);
+    if (!onlyPublished && !user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    const articles = (await kv.getByPrefix('article:'))
+      .map(presentArticle)
+      .filter((article: any) => {
+        if (!user) return article.published;
+        return canListArticle(user, article) && (requestedStatus === 'all' || article.status === requestedStatus);
+      });
+
+    const { page, nextCursor, total } = paginateArticles(articles, { tag, category, cursor, limit });
+
+    return c.json({
+      articles: summaryOnly ? page.map(toArticleSummary) : page,
+      nextCursor,
+      total,
+    });
   } catch (error) {
     console.log('Error fetching articles:', error);
     return c.json({ error: 'Failed to fetch articles' }, 500);
   }
+}
+
+// Get articles
+app.get("/make-server-2b00e03f/articles", openapi.route({
+  operationId: 'listArticles',
+  summary: 'List articles, newest first',
+  description: "Readers get published articles; signed-in staff may ask for other statuses, which lists their own unpublished articles, or everyone's with article:edit-any. Pass limit to page through the list with nextCursor.",
+  tag: 'Articles',
+  auth: 'optional',
+  query: schemas.ARTICLE_LIST_QUERY,
+  response: schemas.ARTICLE_PAGE,
+  responses: { 401: 'A status was asked for without signing in' },
+}), (c) => listArticles(c));
+
+// Get single article by slug - former slugs redirect to the current one
+app.get("/make-server-2b00e03f/articles/by-slug/:slug", openapi.route({
+  operationId: 'getArticleBySlug',
+  summary: 'Get an article by its slug',
+  description: 'Unpublished articles are only found by their author and users with article:edit-any.',
+  tag: 'Articles',
+  auth: 'optional',
+  response: schemas.ARTICLE_WITH_META,
+  responses: { 301: 'A former slug of the article; redirects to the current one', 404: 'Article not found' },
+}), async (c) => {
+  try {
+    const slug = c.req.param('slug');
+    const articleId = await getSlugOwner(slug);
+    const article = articleId ? await kv.get(`article:${articleId}`) : null;
+
+    if (!article) {
+      return c.json({ error: 'Article not found' }, 404);
+    }
+
+    if (!(await canViewArticle(c.req.raw, article))) {
+      return c.json({ error: 'Article not found' }, 404);
+    }
+
+    // Relative Location so it resolves against whatever public URL the client used
+    if (article.slug !== slug) {
+      return c.redirect(encodeURIComponent(article.slug), 301);
+    }
+
+    return c.json({ article: presentArticle(article), meta: await getArticleMeta(article) });
+  } catch (error) {
+    console.log('Error fetching article by slug:', error);
+    return c.json({ error: 'Failed to fetch article' }, 500);
+  }
 });
 
 // Get single article by ID
-app.get("/make-server-2b00e03f/articles/:id", async (c) => {
+app.get("/make-server-2b00e03f/articles/:id", openapi.route({
+  operationId: 'getArticle',
+  summary: 'Get an article by id',
+  description: 'Unpublished articles are only found by their author and users with article:edit-any.',
+  tag: 'Articles',
+  auth: 'optional',
+  response: schemas.ARTICLE_WITH_META,
+  responses: { 404: 'Article not found' },
+}), async (c) => {
   try {
     const id = c.req.param('id');
     const article = await kv.get(`article:${id}`);
@@ -102,56 +736,104 @@ app.get("/make-server-2b00e03f/articles/:id", async (c) => {
     if (!article) {
       return c.json({ error: 'Article not found' }, 404);
     }
+
+    // Unpublished articles are only visible to their author and those who can edit any article
+    if (!(await canViewArticle(c.req.raw, article))) {
+      return c.json({ error: 'Article not found' }, 404);
+    }
     
-    return c.json({ article });
+    return c.json({ article: presentArticle(article), meta: await getArticleMeta(article) });
   } catch (error) {
     console.log('Error fetching article:', error);
     return c.json({ error: 'Failed to fetch article' }, 500);
   }
 });
 
-// Create new article (requires auth)
-app.post("/make-server-2b00e03f/articles", async (c) => {
+// Create new article (requires article:create, plus article:publish to publish or schedule)
+app.post("/make-server-2b00e03f/articles", openapi.route({
+  operationId: 'createArticle',
+  summary: 'Create an article',
+  description: 'Publishing or scheduling it also needs the article:publish permission.',
+  tag: 'Articles',
+  auth: 'article:create',
+  body: schemas.ARTICLE_INPUT,
+  response: schemas.ARTICLE_RESULT,
+}), async (c) => {
   try {
-    const userId = await verifyAuth(c.req.raw);
-    if (!userId) {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
       return c.json({ error: 'Unauthorized - Please log in' }, 401);
     }
 
-    const { title, content, excerpt, imageUrl, videoUrl, audioUrl } = await c.req.json();
-    
-    if (!title || !content) {
-      return c.json({ error: 'Title and content are required' }, 400);
+    if (!permissions.hasPermission(user, 'article:create')) {
+      return c.json({ error: 'Forbidden - Your role cannot create articles' }, 403);
+    }
+
+    const { title, content, format = 'markdown', excerpt, seoTitle, seoDescription, imageUrl, videoUrl, audioUrl, audioDuration, status = 'draft', publishAt = null, tags, category, slug, noindex = false } = await c.req.json();
+
+    if (status === 'scheduled' && !publishAt) {
+      return c.json({ error: 'Scheduled articles require a publishAt date' }, 400);
+    }
+
+    if (!permissions.canChangeStatus(user, null, status)) {
+      return c.json({ error: 'Forbidden - Only editors can publish or schedule articles' }, 403);
     }
 
     const id = crypto.randomUUID();
     const article = {
       id,
+      slug: await findAvailableSlug(slug || slugify(title), id),
+      previousSlugs: [],
       title,
       content,
+      format,
+      ...reading.getReadingStats(content, format),
       excerpt: excerpt || content.substring(0, 150) + '...',
+      seoTitle: seo.normalizeSeoField(seoTitle),
+      seoDescription: seo.normalizeSeoField(seoDescription),
       imageUrl: imageUrl || null,
+      responsiveImage: await getResponsiveImage(c, null, imageUrl || null),
       videoUrl: videoUrl || null,
       audioUrl: audioUrl || null,
-      authorId: userId,
+      ...(await getAudioMetadata(c, null, audioUrl || null, audioDuration)),
+      tags: normalizeTags(tags),
+      category: normalizeCategory(category),
+      noindex: noindex === true,
+      status,
+      publishAt: publishAt ? new Date(publishAt).toISOString() : null,
+      publishedAt: status === 'published' ? new Date().toISOString() : null,
+      authorId: user.id,
+      revisionCount: 1,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
 
-    await kv.set(`article:${id}`, article);
+    await kv.mset([`article:${id}`, `slug:${article.slug}`], [article, { slug: article.slug, articleId: id }]);
+    await revisions.recordRevision(article, { id: user.id, name: await getUserName(user.id) }, []);
+    await searchIndex.indexArticle(article);
+    await prerender.invalidatePages();
     
-    return c.json({ success: true, article });
+    return c.json({ success: true, article: presentArticle(article) });
   } catch (error) {
     console.log('Error creating article:', error);
     return c.json({ error: 'Failed to create article' }, 500);
   }
 });
 
-// Update article (requires auth)
-app.put("/make-server-2b00e03f/articles/:id", async (c) => {
+// Update article (requires edit rights on the article, plus article:publish to change visibility)
+app.put("/make-server-2b00e03f/articles/:id", openapi.route({
+  operationId: 'updateArticle',
+  summary: 'Update an article',
+  description: 'Contributors and authors may edit their own articles, editors any. Publishing, scheduling or unpublishing needs the article:publish permission.',
+  tag: 'Articles',
+  auth: 'signed-in',
+  body: schemas.ARTICLE_UPDATE,
+  response: schemas.ARTICLE_RESULT,
+  responses: { 403: 'You cannot edit this article or change its status', 404: 'Article not found', 409: 'That slug is already used by another article' },
+}), async (c) => {
   try {
-    const userId = await verifyAuth(c.req.raw);
-    if (!userId) {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
       return c.json({ error: 'Unauthorized - Please log in' }, 401);
     }
 
@@ -162,33 +844,93 @@ app.put("/make-server-2b00e03f/articles/:id", async (c) => {
       return c.json({ error: 'Article not found' }, 404);
     }
 
-    const { title, content, excerpt, imageUrl, videoUrl, audioUrl } = await c.req.json();
+    if (!permissions.canEditArticle(user, existingArticle)) {
+      return c.json({ error: 'Forbidden - You cannot edit this article' }, 403);
+    }
+
+    const { title, content, format, excerpt, seoTitle, seoDescription, imageUrl, videoUrl, audioUrl, audioDuration, status, publishAt, tags, category, slug, noindex } = await c.req.json();
+
+    // Articles created before slugs existed get one from their title on first save
+    const currentSlug = existingArticle.slug ?? await findAvailableSlug(slugify(existingArticle.title), id);
+    const nextSlug = slug ?? currentSlug;
+    const slugOwner = await getSlugOwner(nextSlug);
+    if (slugOwner && slugOwner !== id) {
+      return c.json({ error: 'That slug is already used by another article' }, 409);
+    }
+
+    const previousSlugs: string[] = existingArticle.previousSlugs ?? [];
+    const nextPreviousSlugs = nextSlug !== currentSlug && existingArticle.slug
+      ? [...new Set([...previousSlugs, currentSlug])].filter((previous) => previous !== nextSlug)
+      : previousSlugs.filter((previous) => previous !== nextSlug);
+
+    const nextStatus = status ?? getArticleStatus(existingArticle);
+    const nextPublishAt = publishAt !== undefined ? publishAt : existingArticle.publishAt ?? null;
+    if (nextStatus === 'scheduled' && !nextPublishAt) {
+      return c.json({ error: 'Scheduled articles require a publishAt date' }, 400);
+    }
+
+    if (!permissions.canChangeStatus(user, getArticleStatus(existingArticle), nextStatus)) {
+      return c.json({ error: 'Forbidden - Only editors can publish, schedule or unpublish articles' }, 403);
+    }
     
+    const nextAudioUrl = (audioUrl !== undefined ? audioUrl : existingArticle.audioUrl) || null;
+    const nextImageUrl = (imageUrl !== undefined ? imageUrl : existingArticle.imageUrl) || null;
+    const nextContent = content ?? existingArticle.content;
+    const nextFormat = format ?? markdown.getContentFormat(existingArticle);
+
     const updatedArticle = {
       ...existingArticle,
+      slug: nextSlug,
+      previousSlugs: nextPreviousSlugs,
       title: title ?? existingArticle.title,
-      content: content ?? existingArticle.content,
+      content: nextContent,
+      format: nextFormat,
+      ...reading.getReadingStats(nextContent, nextFormat),
       excerpt: excerpt ?? existingArticle.excerpt,
-      imageUrl: imageUrl !== undefined ? imageUrl : existingArticle.imageUrl,
+      seoTitle: seoTitle !== undefined ? seo.normalizeSeoField(seoTitle) : existingArticle.seoTitle ?? null,
+      seoDescription: seoDescription !== undefined ? seo.normalizeSeoField(seoDescription) : existingArticle.seoDescription ?? null,
+      imageUrl: nextImageUrl,
+      responsiveImage: await getResponsiveImage(c, existingArticle, nextImageUrl),
       videoUrl: videoUrl !== undefined ? videoUrl : existingArticle.videoUrl,
-      audioUrl: audioUrl !== undefined ? audioUrl : existingArticle.audioUrl,
+      audioUrl: nextAudioUrl,
+      ...(await getAudioMetadata(c, existingArticle, nextAudioUrl, audioDuration)),
+      tags: tags !== undefined ? normalizeTags(tags) : existingArticle.tags ?? [],
+      category: category !== undefined ? normalizeCategory(category) : existingArticle.category ?? null,
+      noindex: noindex !== undefined ? noindex === true : existingArticle.noindex ?? false,
+      status: nextStatus,
+      publishAt: nextPublishAt ? new Date(nextPublishAt).toISOString() : null,
+      publishedAt: existingArticle.publishedAt ??
+        (nextStatus === 'published' && getArticleStatus(existingArticle) !== 'published' ? new Date().toISOString() : null),
+      revisionCount: nextRevisionCount(existingArticle),
       updatedAt: new Date().toISOString(),
     };
 
-    await kv.set(`article:${id}`, updatedArticle);
+    // The old slug record is kept, still pointing here, so it acts as a redirect alias
+    await kv.mset([`article:${id}`, `slug:${nextSlug}`], [updatedArticle, { slug: nextSlug, articleId: id }]);
+    await recordUpdateRevision(existingArticle, updatedArticle, user.id);
+    await searchIndex.indexArticle(updatedArticle);
+    await prerender.invalidatePages();
     
-    return c.json({ success: true, article: updatedArticle });
+    return c.json({ success: true, article: presentArticle(updatedArticle) });
   } catch (error) {
     console.log('Error updating article:', error);
     return c.json({ error: 'Failed to update article' }, 500);
   }
 });
 
-// Delete article (requires auth)
-app.delete("/make-server-2b00e03f/articles/:id", async (c) => {
+// Delete article (requires delete rights on the article)
+app.delete("/make-server-2b00e03f/articles/:id", openapi.route({
+  operationId: 'deleteArticle',
+  summary: 'Delete an article with its comments and history',
+  description: 'Authors may delete their own articles, editors any.',
+  tag: 'Articles',
+  auth: 'signed-in',
+  response: schemas.SUCCESS,
+  responses: { 403: 'You cannot delete this article', 404: 'Article not found' },
+}), async (c) => {
   try {
-    const userId = await verifyAuth(c.req.raw);
-    if (!userId) {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
       return c.json({ error: 'Unauthorized - Please log in' }, 401);
     }
 
@@ -199,14 +941,25 @@ app.delete("/make-server-2b00e03f/articles/:id", async (c) => {
       return c.json({ error: 'Article not found' }, 404);
     }
 
+    if (!permissions.canDeleteArticle(user, article)) {
+      return c.json({ error: 'Forbidden - You cannot delete this article' }, 403);
+    }
+
     await kv.del(`article:${id}`);
+    await searchIndex.removeArticleFromIndex(id);
+    await prerender.invalidatePages();
+    await revisions.deleteRevisions(id);
+
+    // Release the article's current and former slugs
+    const slugKeys = [article.slug, ...(article.previousSlugs ?? [])]
+      .filter(Boolean)
+      .map((slug: string) => `slug:${slug}`);
+    if (slugKeys.length > 0) {
+      await kv.mdel(slugKeys);
+    }
     
     // Also delete all comments for this article
-    const comments = await kv.getByPrefix(`comment:${id}:`);
-    const commentKeys = comments.map(item => item.key);
-    if (commentKeys.length > 0) {
-      await kv.mdel(commentKeys);
-    }
+    await comments.deleteArticleComments(id);
     
     return c.json({ success: true });
   } catch (error) {
@@ -215,78 +968,1216 @@ app.delete("/make-server-2b00e03f/articles/:id", async (c) => {
   }
 });
 
-// ===== COMMENT ROUTES =====
+// ===== REVISION ROUTES =====
 
-// Get comments for an article
-app.get("/make-server-2b00e03f/comments/:articleId", async (c) => {
+// List an article's revisions, newest first (requires edit rights on the article)
+app.get("/make-server-2b00e03f/articles/:id/revisions", openapi.route({
+  operationId: 'listRevisions',
+  summary: 'List an article\'s revisions',
+  description: 'Needs edit rights on the article.',
+  tag: 'Revisions',
+  auth: 'signed-in',
+  response: schemas.REVISION_LIST,
+  responses: { 403: 'You cannot view this article\'s history', 404: 'Article not found' },
+}), async (c) => {
   try {
-    const articleId = c.req.param('articleId');
-    const comments = await kv.getByPrefix(`comment:${articleId}:`);
-    
-    // Sort by createdAt (oldest first)
-    const sortedComments = comments
-      .map(item => item.value)
-      .sort((a: any, b: any) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
-    
-    return c.json({ comments: sortedComments });
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const article = await kv.get(`article:${id}`);
+    if (!article) {
+      return c.json({ error: 'Article not found' }, 404);
+    }
+
+    if (!permissions.canEditArticle(user, article)) {
+      return c.json({ error: 'Forbidden - You cannot view this article\'s history' }, 403);
+    }
+
+    return c.json({ revisions: await revisions.listRevisions(id) });
   } catch (error) {
-    console.log('Error fetching comments:', error);
-    return c.json({ error: 'Failed to fetch comments' }, 500);
+    console.log('Error fetching revisions:', error);
+    return c.json({ error: 'Failed to fetch revisions' }, 500);
   }
 });
 
-// Create new comment
-app.post("/make-server-2b00e03f/comments/:articleId", async (c) => {
+// Get a single revision including its content (requires edit rights on the article)
+app.get("/make-server-2b00e03f/articles/:id/revisions/:number", openapi.route({
+  operationId: 'getRevision',
+  summary: 'Get a revision including its content',
+  description: 'Needs edit rights on the article.',
+  tag: 'Revisions',
+  auth: 'signed-in',
+  params: schemas.REVISION_PARAMS,
+  response: schemas.REVISION_RESULT,
+  responses: { 403: 'You cannot view this article\'s history', 404: 'Article or revision not found' },
+}), async (c) => {
   try {
-    const articleId = c.req.param('articleId');
-    const { name, content } = await c.req.json();
-    
-    if (!name || !content) {
-      return c.json({ error: 'Name and content are required' }, 400);
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
     }
 
-    // Verify article exists
-    const article = await kv.get(`article:${articleId}`);
+    const id = c.req.param('id');
+    const article = await kv.get(`article:${id}`);
     if (!article) {
       return c.json({ error: 'Article not found' }, 404);
     }
 
-    const commentId = crypto.randomUUID();
-    const comment = {
-      id: commentId,
-      articleId,
-      name,
-      content,
-      createdAt: new Date().toISOString(),
-    };
+    if (!permissions.canEditArticle(user, article)) {
+      return c.json({ error: 'Forbidden - You cannot view this article\'s history' }, 403);
+    }
 
-    await kv.set(`comment:${articleId}:${commentId}`, comment);
-    
-    return c.json({ success: true, comment });
+    const number = parseInt(c.req.param('number'), 10);
+    const revision = isNaN(number) ? null : await revisions.getRevision(id, number);
+    if (!revision) {
+      return c.json({ error: 'Revision not found' }, 404);
+    }
+
+    return c.json({ revision });
   } catch (error) {
-    console.log('Error creating comment:', error);
-    return c.json({ error: 'Failed to create comment' }, 500);
+    console.log('Error fetching revision:', error);
+    return c.json({ error: 'Failed to fetch revision' }, 500);
   }
 });
 
-// Delete comment (requires auth)
-app.delete("/make-server-2b00e03f/comments/:articleId/:commentId", async (c) => {
+// Restore an article's text from a revision, recorded as a new revision (requires edit rights)
+app.post("/make-server-2b00e03f/articles/:id/revisions/:number/restore", openapi.route({
+  operationId: 'restoreRevision',
+  summary: 'Restore an article\'s text from a revision',
+  description: 'Needs edit rights on the article. The restored text is recorded as a new revision.',
+  tag: 'Revisions',
+  auth: 'signed-in',
+  params: schemas.REVISION_PARAMS,
+  response: schemas.ARTICLE_RESULT,
+  responses: { 403: 'You cannot edit this article', 404: 'Article or revision not found' },
+}), async (c) => {
   try {
-    const userId = await verifyAuth(c.req.raw);
-    if (!userId) {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
       return c.json({ error: 'Unauthorized - Please log in' }, 401);
     }
 
-    const articleId = c.req.param('articleId');
-    const commentId = c.req.param('commentId');
-    
-    const comment = await kv.get(`comment:${articleId}:${commentId}`);
-    if (!comment) {
-      return c.json({ error: 'Comment not found' }, 404);
-    }
-
-    await kv.del(`comment:${articleId}:${commentId}`);
-    
+    const id = c.req.param('id');
+    const existingArticle = await kv.get(`article:${id}`);
+    if (!existingArticle) {
+      return c.json({ error: 'Article not found' }, 404);
+    }
+
+    if (!permissions.canEditArticle(user, existingArticle)) {
+      return c.json({ error: 'Forbidden - You cannot edit this article' }, 403);
+    }
+
+    const number = parseInt(c.req.param('number'), 10);
+    const revision = isNaN(number) ? null : await revisions.getRevision(id, number);
+    if (!revision) {
+      return c.json({ error: 'Revision not found' }, 404);
+    }
+
+    const updatedArticle = {
+      ...existingArticle,
+      title: revision.title,
+      excerpt: revision.excerpt,
+      content: revision.content,
+      ...reading.getReadingStats(revision.content, markdown.getContentFormat(existingArticle)),
+      revisionCount: nextRevisionCount(existingArticle),
+      updatedAt: new Date().toISOString(),
+    };
+
+    await kv.set(`article:${id}`, updatedArticle);
+    await recordUpdateRevision(existingArticle, updatedArticle, user.id, `Restored from revision ${number}`);
+    await searchIndex.indexArticle(updatedArticle);
+    await prerender.invalidatePages();
+
+    return c.json({ success: true, article: presentArticle(updatedArticle) });
+  } catch (error) {
+    console.log('Error restoring revision:', error);
+    return c.json({ error: 'Failed to restore revision' }, 500);
+  }
+});
+
+// ===== TAXONOMY ROUTES =====
+
+// List tags with the number of published articles using each
+// (?status=all counts every article and requires auth, for the admin tag manager)
+app.get("/make-server-2b00e03f/tags", openapi.route({
+  operationId: 'listTags',
+  summary: 'List tags with the number of published articles using each',
+  tag: 'Tags and categories',
+  auth: 'optional',
+  query: schemas.TAXONOMY_QUERY,
+  response: schemas.TAG_LIST,
+  responses: { 401: 'status=all was asked for without signing in' },
+}), async (c) => {
+  try {
+    const includeAll = c.req.query('status') === 'all';
+    const user = includeAll ? await getAuthUser(c.req.raw) : null;
+    if (includeAll && !user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    const articles = (await kv.getByPrefix('article:'))
+      .map(presentArticle)
+      .filter((article: any) => (user ? canListArticle(user, article) : article.published));
+
+    return c.json({ tags: countBy(articles, (article) => article.tags) });
+  } catch (error) {
+    console.log('Error fetching tags:', error);
+    return c.json({ error: 'Failed to fetch tags' }, 500);
+  }
+});
+
+// List published articles with a tag - same query params as GET /articles
+app.get("/make-server-2b00e03f/tags/:tag/articles", openapi.route({
+  operationId: 'listTagArticles',
+  summary: 'List articles with a tag',
+  description: 'Takes the same parameters as GET /articles.',
+  tag: 'Tags and categories',
+  auth: 'optional',
+  query: schemas.TAG_ARTICLE_LIST_QUERY,
+  response: schemas.ARTICLE_PAGE,
+  responses: { 401: 'A status was asked for without signing in' },
+}), (c) => listArticles(c, c.req.param('tag')));
+
+// Rename a tag on every article; renaming onto an existing tag merges the two (requires tag:manage)
+app.put("/make-server-2b00e03f/tags/:tag", openapi.route({
+  operationId: 'renameTag',
+  summary: 'Rename a tag on every article',
+  tag: 'Tags and categories',
+  auth: 'tag:manage',
+  body: schemas.TAG_RENAME,
+  response: schemas.TAG_CHANGE_RESULT,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'tag:manage')) {
+      return c.json({ error: 'Forbidden - Only editors can manage tags' }, 403);
+    }
+
+    const tag = normalizeTag(c.req.param('tag'));
+    const { name } = await c.req.json();
+    const target = normalizeTag(name);
+    const updated = await mergeTags([tag], target);
+    
+    return c.json({ success: true, tag: target, updated });
+  } catch (error) {
+    console.log('Error renaming tag:', error);
+    return c.json({ error: 'Failed to rename tag' }, 500);
+  }
+});
+
+// Merge several tags into one on every article (requires tag:manage)
+app.post("/make-server-2b00e03f/tags/merge", openapi.route({
+  operationId: 'mergeTags',
+  summary: 'Merge several tags into one on every article',
+  tag: 'Tags and categories',
+  auth: 'tag:manage',
+  body: schemas.TAG_MERGE,
+  response: schemas.TAG_CHANGE_RESULT,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'tag:manage')) {
+      return c.json({ error: 'Forbidden - Only editors can manage tags' }, 403);
+    }
+
+    const { sources, target } = await c.req.json();
+    const sourceTags = normalizeTags(sources);
+    const targetTag = normalizeTag(target);
+    const updated = await mergeTags(sourceTags, targetTag);
+    
+    return c.json({ success: true, tag: targetTag, updated });
+  } catch (error) {
+    console.log('Error merging tags:', error);
+    return c.json({ error: 'Failed to merge tags' }, 500);
+  }
+});
+
+// List categories with the number of published articles in each (?status=all as for tags)
+app.get("/make-server-2b00e03f/categories", openapi.route({
+  operationId: 'listCategories',
+  summary: 'List categories with the number of published articles in each',
+  tag: 'Tags and categories',
+  auth: 'optional',
+  query: schemas.TAXONOMY_QUERY,
+  response: schemas.CATEGORY_LIST,
+  responses: { 401: 'status=all was asked for without signing in' },
+}), async (c) => {
+  try {
+    const includeAll = c.req.query('status') === 'all';
+    const user = includeAll ? await getAuthUser(c.req.raw) : null;
+    if (includeAll && !user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    const articles = (await kv.getByPrefix('article:'))
+      .map(presentArticle)
+      .filter((article: any) => (user ? canListArticle(user, article) : article.published));
+
+    return c.json({
+      categories: countBy(articles, (article) => (article.category ? [article.category] : [])),
+    });
+  } catch (error) {
+    console.log('Error fetching categories:', error);
+    return c.json({ error: 'Failed to fetch categories' }, 500);
+  }
+});
+
+// ===== SEARCH ROUTES =====
+
+// Search published articles - supports plain terms, prefix* terms and "quoted phrases"
+app.get("/make-server-2b00e03f/search", openapi.route({
+  operationId: 'searchArticles',
+  summary: 'Search published articles',
+  tag: 'Search',
+  auth: 'public',
+  query: schemas.SEARCH_QUERY,
+  response: schemas.SEARCH_RESULTS,
+}), async (c) => {
+  try {
+    const query = c.req.query('q')!.trim();
+    const limitParam = c.req.query('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : 20;
+
+    const hits = await searchIndex.search(query, (article) => isArticlePublished(article), limit);
+
+    return c.json({
+      query,
+      results: hits.map((hit) => ({
+        article: toArticleSummary(presentArticle(hit.article)),
+        score: hit.score,
+        title: hit.title,
+        snippet: hit.snippet,
+      })),
+    });
+  } catch (error) {
+    console.log('Error searching articles:', error);
+    return c.json({ error: 'Failed to search articles' }, 500);
+  }
+});
+
+// Rebuild the search index from every stored article (requires search:reindex)
+app.post("/make-server-2b00e03f/search/reindex", openapi.route({
+  operationId: 'reindexSearch',
+  summary: 'Rebuild the search index from every stored article',
+  tag: 'Search',
+  auth: 'search:reindex',
+  response: schemas.REINDEX_RESULT,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'search:reindex')) {
+      return c.json({ error: 'Forbidden - Only admins can rebuild the search index' }, 403);
+    }
+
+    const articles = await kv.getByPrefix('article:');
+    for (const article of articles) {
+      await searchIndex.indexArticle(article);
+    }
+
+    return c.json({ success: true, indexed: articles.length });
+  } catch (error) {
+    console.log('Error rebuilding search index:', error);
+    return c.json({ error: 'Failed to rebuild search index' }, 500);
+  }
+});
+
+// ===== SETTINGS ROUTES =====
+
+// Site title, description, address and feed options - public, since the blog and feeds use them
+app.get("/make-server-2b00e03f/settings/site", openapi.route({
+  operationId: 'getSiteSettings',
+  summary: 'Get the site settings',
+  tag: 'Settings',
+  auth: 'public',
+  response: schemas.SITE_SETTINGS_RESULT,
+}), async (c) => {
+  try {
+    return c.json({ settings: await siteSettings.getSiteSettings() });
+  } catch (error) {
+    console.log('Error fetching site settings:', error);
+    return c.json({ error: 'Failed to fetch site settings' }, 500);
+  }
+});
+
+// Update site settings (requires user:manage)
+app.put("/make-server-2b00e03f/settings/site", openapi.route({
+  operationId: 'updateSiteSettings',
+  summary: 'Update the site settings',
+  tag: 'Settings',
+  auth: 'user:manage',
+  body: schemas.SITE_SETTINGS_UPDATE,
+  response: schemas.SITE_SETTINGS_RESULT,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'user:manage')) {
+      return c.json({ error: 'Forbidden - Only admins can change site settings' }, 403);
+    }
+
+    const changes = await c.req.json();
+    const settings = await siteSettings.saveSiteSettings(changes, user.id);
+    // The site title and address appear in every page's meta tags
+    await prerender.invalidatePages();
+
+    return c.json({ success: true, settings });
+  } catch (error) {
+    console.log('Error updating site settings:', error);
+    return c.json({ error: 'Failed to update site settings' }, 500);
+  }
+});
+
+// Podcast show metadata (requires user:manage)
+app.get("/make-server-2b00e03f/settings/podcast", openapi.route({
+  operationId: 'getPodcastSettings',
+  summary: 'Get the podcast show details',
+  tag: 'Settings',
+  auth: 'user:manage',
+  response: schemas.PODCAST_SETTINGS_RESULT,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'user:manage')) {
+      return c.json({ error: 'Forbidden - Only admins can change site settings' }, 403);
+    }
+
+    return c.json({ settings: await siteSettings.getPodcastSettings() });
+  } catch (error) {
+    console.log('Error fetching podcast settings:', error);
+    return c.json({ error: 'Failed to fetch podcast settings' }, 500);
+  }
+});
+
+// Update podcast show metadata (requires user:manage)
+app.put("/make-server-2b00e03f/settings/podcast", openapi.route({
+  operationId: 'updatePodcastSettings',
+  summary: 'Update the podcast show details',
+  tag: 'Settings',
+  auth: 'user:manage',
+  body: schemas.PODCAST_SETTINGS_UPDATE,
+  response: schemas.PODCAST_SETTINGS_RESULT,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'user:manage')) {
+      return c.json({ error: 'Forbidden - Only admins can change site settings' }, 403);
+    }
+
+    const changes = await c.req.json();
+    return c.json({ success: true, settings: await siteSettings.savePodcastSettings(changes, user.id) });
+  } catch (error) {
+    console.log('Error updating podcast settings:', error);
+    return c.json({ error: 'Failed to update podcast settings' }, 500);
+  }
+});
+
+// ===== MEDIA ROUTES =====
+
+const MAX_MEDIA_LIST = 200;
+
+// Upload an image, audio or video file (requires media:upload). Multipart form with a "file" field.
+app.post("/make-server-2b00e03f/media", openapi.route({
+  operationId: 'uploadMedia',
+  summary: 'Upload an image, audio or video file',
+  tag: 'Media',
+  auth: 'media:upload',
+  form: schemas.MEDIA_UPLOAD,
+  response: schemas.MEDIA_UPLOAD_RESULT,
+  responses: { 413: 'File is too large' },
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'media:upload')) {
+      return c.json({ error: 'Forbidden - Your role cannot upload media' }, 403);
+    }
+
+    const body = await c.req.parseBody();
+    const file = body['file'] as File;
+
+    // Reject oversized files before reading them into memory
+    if (file.size > Math.max(...Object.values(media.MAX_MEDIA_SIZES))) {
+      return c.json({ error: 'File is too large' }, 413);
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const checked = media.validateUpload(bytes, file.type);
+    if ('error' in checked) {
+      return c.json({ error: checked.error }, 400);
+    }
+
+    const asset = await media.uploadMedia(
+      { name: file.name, bytes, mimeType: checked.mimeType, kind: checked.kind },
+      user.id,
+      localMediaUrl(c),
+    );
+
+    // The upload is usable without variants, so a processing failure only costs the srcset
+    if (asset.kind === 'image') {
+      await images.prepareUploadedImage(asset, bytes, localMediaUrl(c)).catch((error) => {
+        console.log('Error preparing image variants:', error);
+      });
+    }
+
+    return c.json({ success: true, asset });
+  } catch (error) {
+    console.log('Error uploading media:', error);
+    return c.json({ error: 'Failed to upload media' }, 500);
+  }
+});
+
+// Browse uploaded media (requires media:upload). Optional ?q= file name search and ?kind=image|audio|video.
+app.get("/make-server-2b00e03f/media", openapi.route({
+  operationId: 'listMedia',
+  summary: 'Browse uploaded media',
+  tag: 'Media',
+  auth: 'media:upload',
+  query: schemas.MEDIA_LIST_QUERY,
+  response: schemas.MEDIA_LIST,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'media:upload')) {
+      return c.json({ error: 'Forbidden - Your role cannot use the media library' }, 403);
+    }
+
+    const kind = (c.req.query('kind') || undefined) as media.MediaKind | undefined;
+    const assets = await media.listMedia({ query: c.req.query('q'), kind });
+    return c.json({ assets: assets.slice(0, MAX_MEDIA_LIST), total: assets.length });
+  } catch (error) {
+    console.log('Error listing media:', error);
+    return c.json({ error: 'Failed to list media' }, 500);
+  }
+});
+
+// Delete an uploaded file. Articles that still link to it are left as they are.
+app.delete("/make-server-2b00e03f/media/:id", openapi.route({
+  operationId: 'deleteMedia',
+  summary: 'Delete an uploaded file',
+  description: 'Staff may delete their own uploads; media:delete-any allows deleting any. Articles that still link to the file are left as they are.',
+  tag: 'Media',
+  auth: 'signed-in',
+  response: schemas.SUCCESS,
+  responses: { 403: 'You cannot delete this file', 404: 'Media not found' },
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    const asset = await media.getMedia(c.req.param('id'));
+    if (!asset) {
+      return c.json({ error: 'Media not found' }, 404);
+    }
+
+    if (!permissions.canDeleteMedia(user, asset)) {
+      return c.json({ error: 'Forbidden - You cannot delete this file' }, 403);
+    }
+
+    if (asset.kind === 'image') {
+      await images.removeResponsiveImage(asset.url);
+    }
+    await media.deleteMedia(asset);
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting media:', error);
+    return c.json({ error: 'Failed to delete media' }, 500);
+  }
+});
+
+// Files stored by the local development stand-in (MEDIA_LOCAL_DIR); Storage serves its own
+app.get(`${MEDIA_FILES_PATH}*`, openapi.route({
+  operationId: 'getMediaFile',
+  summary: 'Download a locally stored file',
+  description: 'Only for the local development stand-in (MEDIA_LOCAL_DIR); files in Storage are served by Storage.',
+  tag: 'Media',
+  auth: 'public',
+  produces: 'application/octet-stream',
+  responses: { 404: 'File not found' },
+}), async (c) => {
+  try {
+    const file = await media.readLocalFile(c.req.path.slice(MEDIA_FILES_PATH.length));
+    if (!file) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+
+    return c.body(file.bytes, 200, {
+      'Content-Type': file.mimeType,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    });
+  } catch (error) {
+    console.log('Error serving media file:', error);
+    return c.json({ error: 'Failed to serve file' }, 500);
+  }
+});
+
+// ===== FEED ROUTES =====
+
+const FEEDS_NEED_SITE_URL = 'Set the public site URL in the site settings to enable the feeds';
+
+const FEED_CONTENT_TYPES = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+// Render the published-articles feed, optionally narrowed with ?tag= or ?author=<user id>
+async function renderFeed(c: Context, format: 'rss' | 'atom') {
+  try {
+    const site = await siteSettings.getSiteSettings();
+    if (!site.siteUrl) {
+      return c.json({ error: FEEDS_NEED_SITE_URL }, 503);
+    }
+
+    const tag = c.req.query('tag') ? normalizeTag(c.req.query('tag')!) : null;
+    const authorId = c.req.query('author') ?? null;
+
+    const allArticles = await kv.getByPrefix('article:');
+    const published = allArticles
+      .filter((article: any) => isArticlePublished(article))
+      .filter((article: any) => !tag || (article.tags ?? []).includes(tag))
+      .filter((article: any) => !authorId || article.authorId === authorId)
+      .sort((a: any, b: any) => new Date(getPublishedAt(b)).getTime() - new Date(getPublishedAt(a)).getTime())
+      .slice(0, site.feedItemLimit);
+
+    const authorIds = [...new Set<string>(published.map((article: any) => article.authorId).filter(Boolean))];
+    const authorNames = new Map(await Promise.all(authorIds.map(async (id) => [id, await getUserName(id)] as const)));
+
+    const items: feeds.FeedArticle[] = published.map((article: any) => ({
+      id: article.id,
+      slug: article.slug ?? null,
+      title: article.title,
+      excerpt: article.excerpt ?? '',
+      content: article.content ?? '',
+      format: markdown.getContentFormat(article),
+      imageUrl: article.imageUrl ?? null,
+      tags: article.tags ?? [],
+      category: article.category ?? null,
+      authorName: authorNames.get(article.authorId) ?? null,
+      publishedAt: getPublishedAt(article),
+      updatedAt: article.updatedAt ?? article.createdAt,
+    }));
+
+    const subtitle = tag
+      ? `Tag: ${tag}`
+      : authorId
+        ? `By ${authorNames.get(authorId) ?? (await getUserName(authorId)) ?? 'unknown author'}`
+        : undefined;
+    const options = { site, selfUrl: publicUrl(c), subtitle };
+    const body = format === 'rss' ? feeds.buildRss(items, options) : feeds.buildAtom(items, options);
+
+    return c.body(body, 200, {
+      'Content-Type': FEED_CONTENT_TYPES[format],
+      'Cache-Control': 'public, max-age=900',
+    });
+  } catch (error) {
+    console.log('Error generating feed:', error);
+    return c.json({ error: 'Failed to generate feed' }, 500);
+  }
+}
+
+// RSS 2.0 feed of published articles
+app.get("/make-server-2b00e03f/feed.xml", openapi.route({
+  operationId: 'getRssFeed',
+  summary: 'RSS 2.0 feed of published articles',
+  tag: 'Feeds',
+  auth: 'public',
+  query: schemas.FEED_QUERY,
+  produces: 'application/rss+xml',
+  responses: { 503: 'The public site URL is not set' },
+}), (c) => renderFeed(c, 'rss'));
+
+// Atom 1.0 feed of published articles
+app.get("/make-server-2b00e03f/atom.xml", openapi.route({
+  operationId: 'getAtomFeed',
+  summary: 'Atom 1.0 feed of published articles',
+  tag: 'Feeds',
+  auth: 'public',
+  query: schemas.FEED_QUERY,
+  produces: 'application/atom+xml',
+  responses: { 503: 'The public site URL is not set' },
+}), (c) => renderFeed(c, 'atom'));
+
+// Podcast feed of every published article with an audio file
+app.get("/make-server-2b00e03f/podcast.xml", openapi.route({
+  operationId: 'getPodcastFeed',
+  summary: 'Podcast feed of published articles with an audio file',
+  tag: 'Feeds',
+  auth: 'public',
+  produces: 'application/rss+xml',
+  responses: { 503: 'The public site URL is not set' },
+}), async (c) => {
+  try {
+    const [site, podcastSettings] = await Promise.all([siteSettings.getSiteSettings(), siteSettings.getPodcastSettings()]);
+    if (!site.siteUrl) {
+      return c.json({ error: FEEDS_NEED_SITE_URL }, 503);
+    }
+
+    const allArticles = await kv.getByPrefix('article:');
+    const published = allArticles.filter((article: any) => article.audioUrl && isArticlePublished(article));
+
+    const authorIds = [...new Set<string>(published.map((article: any) => article.authorId).filter(Boolean))];
+    const authorNames = new Map(await Promise.all(authorIds.map(async (id) => [id, await getUserName(id)] as const)));
+
+    const episodes: podcast.Episode[] = published.map((article: any) => ({
+      id: article.id,
+      slug: article.slug ?? null,
+      title: article.title,
+      excerpt: article.excerpt ?? '',
+      imageUrl: article.imageUrl ?? null,
+      authorName: authorNames.get(article.authorId) ?? null,
+      audioUrl: article.audioUrl,
+      audioLength: article.audioLength ?? null,
+      audioType: article.audioType ?? null,
+      audioDuration: article.audioDuration ?? null,
+      publishedAt: getPublishedAt(article),
+    }));
+
+    const body = await podcast.buildPodcastFeed(episodes, { site, podcast: podcastSettings, selfUrl: publicUrl(c) });
+
+    return c.body(body, 200, {
+      'Content-Type': FEED_CONTENT_TYPES.rss,
+      'Cache-Control': 'public, max-age=900',
+    });
+  } catch (error) {
+    console.log('Error generating podcast feed:', error);
+    return c.json({ error: 'Failed to generate podcast feed' }, 500);
+  }
+});
+
+// ===== SITEMAP ROUTES =====
+
+// Every indexable page: the home page, published articles that aren't flagged noindex, and their tags
+async function getSitemapEntries(site: siteSettings.SiteSettings): Promise<sitemap.SitemapEntry[]> {
+  const allArticles = await kv.getByPrefix('article:');
+  const indexable = allArticles
+    .filter((article: any) => isArticlePublished(article) && !article.noindex)
+    .sort((a: any, b: any) => new Date(getPublishedAt(b)).getTime() - new Date(getPublishedAt(a)).getTime());
+
+  const lastmodOf = (article: any): string => article.updatedAt ?? getPublishedAt(article);
+
+  const tagLastmod = new Map<string, string>();
+  for (const article of indexable) {
+    for (const tag of article.tags ?? []) {
+      const current = tagLastmod.get(tag);
+      if (!current || lastmodOf(article) > current) tagLastmod.set(tag, lastmodOf(article));
+    }
+  }
+
+  return [
+    { loc: `${site.siteUrl}/`, lastmod: indexable[0] ? lastmodOf(indexable[0]) : null },
+    ...indexable.map((article: any) => ({ loc: feeds.articleUrl(site, article), lastmod: lastmodOf(article) })),
+    ...[...tagLastmod].sort(([a], [b]) => a.localeCompare(b)).map(([tag, lastmod]) => ({
+      loc: `${site.siteUrl}/tag/${encodeURIComponent(tag)}`,
+      lastmod,
+    })),
+  ];
+}
+
+const XML_HEADERS = {
+  'Content-Type': 'application/xml; charset=utf-8',
+  'Cache-Control': 'public, max-age=3600',
+};
+
+// Sitemap - a single urlset, or an index of numbered pages once there are many URLs
+app.get("/make-server-2b00e03f/sitemap.xml", openapi.route({
+  operationId: 'getSitemap',
+  summary: 'Sitemap of every indexable page',
+  description: 'A single urlset, or an index of numbered pages once there are many URLs.',
+  tag: 'Feeds',
+  auth: 'public',
+  produces: 'application/xml',
+  responses: { 503: 'The public site URL is not set' },
+}), async (c) => {
+  try {
+    const site = await siteSettings.getSiteSettings();
+    if (!site.siteUrl) {
+      return c.json({ error: 'Set the public site URL in the site settings to enable the sitemap' }, 503);
+    }
+
+    const pages = sitemap.paginate(await getSitemapEntries(site));
+    if (pages.length <= 1) {
+      return c.body(sitemap.buildUrlset(pages[0] ?? []), 200, XML_HEADERS);
+    }
+
+    const index = pages.map((page, i) => ({
+      loc: publicUrl(c, `/make-server-2b00e03f/sitemap/pages-${i + 1}.xml`),
+      lastmod: sitemap.latestLastmod(page),
+    }));
+    return c.body(sitemap.buildSitemapIndex(index), 200, XML_HEADERS);
+  } catch (error) {
+    console.log('Error generating sitemap:', error);
+    return c.json({ error: 'Failed to generate sitemap' }, 500);
+  }
+});
+
+// One page of a split sitemap, e.g. sitemap/pages-2.xml
+app.get("/make-server-2b00e03f/sitemap/:file", openapi.route({
+  operationId: 'getSitemapPage',
+  summary: 'One page of a split sitemap, e.g. pages-2.xml',
+  tag: 'Feeds',
+  auth: 'public',
+  produces: 'application/xml',
+  responses: { 404: 'Sitemap not found', 503: 'The public site URL is not set' },
+}), async (c) => {
+  try {
+    const match = c.req.param('file').match(/^pages-(\d+)\.xml$/);
+    if (!match) {
+      return c.json({ error: 'Sitemap not found' }, 404);
+    }
+
+    const site = await siteSettings.getSiteSettings();
+    if (!site.siteUrl) {
+      return c.json({ error: 'Set the public site URL in the site settings to enable the sitemap' }, 503);
+    }
+
+    const page = sitemap.paginate(await getSitemapEntries(site))[Number(match[1]) - 1];
+    if (!page) {
+      return c.json({ error: 'Sitemap not found' }, 404);
+    }
+
+    return c.body(sitemap.buildUrlset(page), 200, XML_HEADERS);
+  } catch (error) {
+    console.log('Error generating sitemap page:', error);
+    return c.json({ error: 'Failed to generate sitemap' }, 500);
+  }
+});
+
+// robots.txt - serve it from the site root by rewriting /robots.txt to this route on the frontend host
+app.get("/make-server-2b00e03f/robots.txt", openapi.route({
+  operationId: 'getRobots',
+  summary: 'robots.txt for the site',
+  tag: 'Feeds',
+  auth: 'public',
+  produces: 'text/plain',
+}), async (c) => {
+  try {
+    const site = await siteSettings.getSiteSettings();
+    const body = sitemap.buildRobots(site, publicUrl(c, '/make-server-2b00e03f/sitemap.xml'));
+
+    return c.body(body, 200, {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600',
+    });
+  } catch (error) {
+    console.log('Error generating robots.txt:', error);
+    return c.json({ error: 'Failed to generate robots.txt' }, 500);
+  }
+});
+
+// ===== PAGE ROUTES =====
+
+const APP_SHELL_TTL_MS = 5 * 60 * 1000;
+const APP_SHELL_TIMEOUT_MS = 5000;
+
+let appShell: { html: string; fetchedAt: number } | null = null;
+
+// The reader app's index.html, fetched from the frontend host and kept for a few minutes so a
+// new deploy is picked up without refetching it for every request
+async function getAppShell(site: siteSettings.SiteSettings): Promise<string | null> {
+  if (appShell && Date.now() - appShell.fetchedAt < APP_SHELL_TTL_MS) return appShell.html;
+  if (!site.siteUrl) return null;
+
+  try {
+    const response = await fetch(`${site.siteUrl}/index.html`, { signal: AbortSignal.timeout(APP_SHELL_TIMEOUT_MS) });
+    if (!response.ok) {
+      console.log('Error fetching app shell:', response.status);
+      return appShell?.html ?? null;
+    }
+    appShell = { html: await response.text(), fetchedAt: Date.now() };
+    return appShell.html;
+  } catch (error) {
+    console.log('Error fetching app shell:', error);
+    return appShell?.html ?? null;
+  }
+}
+
+// Stand-in when the frontend can't be reached: enough for link previews, with a link onwards
+const fallbackDocument = (site: siteSettings.SiteSettings, heading: string, href: string) => `<!DOCTYPE html>
+<html lang="${feeds.escapeXml(site.language)}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${feeds.escapeXml(site.title)}</title>
+  </head>
+  <body>
+    <p><a href="${feeds.escapeXml(href)}">${feeds.escapeXml(heading)}</a></p>
+  </body>
+</html>`;
+
+// Same page size as the reader app's listings, so its "Load More" carries on from the cursor
+const LISTING_PAGE_SIZE = 9;
+
+// Browsers and CDNs may reuse a page briefly; the server's own copy is dropped as soon as articles change
+const PAGE_HEADERS = { 'Cache-Control': 'public, max-age=60' };
+
+// When the next scheduled article goes live, which changes the listings without any write
+function getNextPublishTime(articles: any[]): number | null {
+  const now = Date.now();
+  const upcoming = articles
+    .filter((article: any) => getArticleStatus(article) === 'scheduled' && article.publishAt)
+    .map((article: any) => new Date(article.publishAt).getTime())
+    .filter((time) => time > now);
+  return upcoming.length > 0 ? Math.min(...upcoming) : null;
+}
+
+interface RenderablePage {
+  data: prerender.InitialData;
+  meta: seo.PageMeta;
+  // When the page would change without any article being saved
+  expiresAt?: number | null;
+}
+
+// Serve a rendered page from the cache, or render it with the data from load() and cache it.
+// load() returns null when there is nothing at this path, or a response such as a redirect.
+async function servePage(
+  c: Context,
+  path: string,
+  load: (site: siteSettings.SiteSettings) => Promise<RenderablePage | Response | null>,
+) {
+  const site = await siteSettings.getSiteSettings();
+  const shell = await getAppShell(site);
+
+  const cached = shell ? await prerender.getCachedPage(path, shell) : null;
+  if (cached) {
+    return c.html(cached, 200, PAGE_HEADERS);
+  }
+
+  const page = await load(site);
+  if (page instanceof Response) return page;
+
+  if (!page) {
+    // The app shows its not-found page
+    return c.html(shell ?? fallbackDocument(site, 'Page not found', `${site.siteUrl}/`), 404);
+  }
+
+  // Without the app's index.html there is nothing to render into; crawlers still get the meta tags
+  if (!shell) {
+    return c.html(seo.injectHead(fallbackDocument(site, page.meta.title, page.meta.canonicalUrl ?? ''), page.meta), 200, PAGE_HEADERS);
+  }
+
+  const html = seo.injectHead(await prerender.renderDocument(shell, page.data), page.meta);
+  await prerender.cachePage(path, shell, html, page.expiresAt ?? null);
+  return c.html(html, 200, PAGE_HEADERS);
+}
+
+type ListingFilter = { type: 'tag' | 'category'; value: string };
+
+const listingPath = (filter: ListingFilter | null) => (filter ? `/${filter.type}/${encodeURIComponent(filter.value)}` : '/');
+
+// The home page or a tag or category listing, from presented published articles. Limited to the
+// first `limit` articles, or all of them when limit is null.
+function buildListingPage(site: siteSettings.SiteSettings, published: any[], filter: ListingFilter | null, limit: number | null) {
+  const path = listingPath(filter);
+  const { page, nextCursor } = paginateArticles(published, {
+    tag: filter?.type === 'tag' ? filter.value : undefined,
+    category: filter?.type === 'category' ? filter.value : undefined,
+    cursor: null,
+    limit,
+  });
+
+  const heading = filter ? (filter.type === 'tag' ? `#${filter.value}` : filter.value) : null;
+  const meta = seo.buildListingMeta(site, path, heading);
+  const data: prerender.InitialData = {
+    page: 'listing',
+    path,
+    articles: page.map(toArticleSummary),
+    nextCursor,
+    tags: countBy(published, (article) => article.tags),
+    meta,
+  };
+  return { data, meta };
+}
+
+// An article's page, at the address it is currently linked by
+async function buildArticlePage(article: any) {
+  const meta = await getArticleMeta(article);
+  const path = `/articles/${encodeURIComponent(article.slug ?? article.id)}`;
+  const data: prerender.InitialData = { page: 'article', path, article: presentArticle(article), meta };
+  return { data, meta };
+}
+
+// The home, tag and category listings, showing their first page of articles
+function serveListingPage(c: Context, filter: ListingFilter | null) {
+  return servePage(c, listingPath(filter), async (site) => {
+    const articles = await kv.getByPrefix('article:');
+    const published = articles.map(presentArticle).filter((article: any) => article.published);
+    const listing = buildListingPage(site, published, filter, LISTING_PAGE_SIZE);
+
+    // A tag or category no published article uses doesn't exist; it isn't rendered or cached
+    if (filter && listing.data.articles.length === 0) return null;
+
+    return { ...listing, expiresAt: getNextPublishTime(articles) };
+  });
+}
+
+// Public pages rendered to HTML, for a fast first paint and for crawlers and link previews that
+// don't run JavaScript. Rewrite /, /tag/*, /category/* and /articles/* on the frontend host to
+// these routes; the app hydrates the page in the browser and takes over from there.
+app.get("/make-server-2b00e03f/pages", openapi.route({
+  operationId: 'renderHomePage',
+  summary: 'The home page, rendered',
+  tag: 'Pages',
+  auth: 'public',
+  produces: 'text/html',
+}), async (c) => {
+  try {
+    return await serveListingPage(c, null);
+  } catch (error) {
+    console.log('Error rendering home page:', error);
+    return c.json({ error: 'Failed to render page' }, 500);
+  }
+});
+
+app.get("/make-server-2b00e03f/pages/tag/:tag", openapi.route({
+  operationId: 'renderTagPage',
+  summary: 'A tag\'s listing page, rendered',
+  description: 'Unknown pages get the app\'s not-found page with a 404.',
+  tag: 'Pages',
+  auth: 'public',
+  produces: 'text/html',
+}), async (c) => {
+  try {
+    return await serveListingPage(c, { type: 'tag', value: c.req.param('tag') });
+  } catch (error) {
+    console.log('Error rendering tag page:', error);
+    return c.json({ error: 'Failed to render page' }, 500);
+  }
+});
+
+app.get("/make-server-2b00e03f/pages/category/:category", openapi.route({
+  operationId: 'renderCategoryPage',
+  summary: 'A category\'s listing page, rendered',
+  description: 'Unknown pages get the app\'s not-found page with a 404.',
+  tag: 'Pages',
+  auth: 'public',
+  produces: 'text/html',
+}), async (c) => {
+  try {
+    return await serveListingPage(c, { type: 'category', value: c.req.param('category') });
+  } catch (error) {
+    console.log('Error rendering category page:', error);
+    return c.json({ error: 'Failed to render page' }, 500);
+  }
+});
+
+app.get("/make-server-2b00e03f/pages/articles/:slug", openapi.route({
+  operationId: 'renderArticlePage',
+  summary: 'An article\'s page, rendered',
+  description: 'Unknown pages get the app\'s not-found page with a 404.',
+  tag: 'Pages',
+  auth: 'public',
+  produces: 'text/html',
+  responses: { 301: 'A former slug or the article\'s id; redirects to its current address' },
+}), async (c) => {
+  try {
+    const slug = c.req.param('slug');
+
+    return await servePage(c, `/articles/${encodeURIComponent(slug)}`, async (site) => {
+      const articleId = await getSlugOwner(slug) ?? slug;
+      const article = await kv.get(`article:${articleId}`);
+      if (!article || !isArticlePublished(article)) return null;
+
+      // Former slugs and ids redirect to the article's current address
+      if (article.slug && article.slug !== slug) {
+        return c.redirect(site.siteUrl ? feeds.articleUrl(site, presentArticle(article)) : encodeURIComponent(article.slug), 301);
+      }
+
+      return await buildArticlePage(article);
+    });
+  } catch (error) {
+    console.log('Error rendering article page:', error);
+    return c.json({ error: 'Failed to render page' }, 500);
+  }
+});
+
+// Every public page with the data to render it, and the uploaded files those pages use, for the
+// static site export (npm run export). Listings include all their articles rather than a first page.
+app.get("/make-server-2b00e03f/export/pages", openapi.route({
+  operationId: 'exportPages',
+  summary: 'Every public page with its data, for the static site export',
+  tag: 'Pages',
+  auth: 'public',
+  response: schemas.EXPORT_PAGES,
+}), async (c) => {
+  try {
+    const site = await siteSettings.getSiteSettings();
+    const articles = (await kv.getByPrefix('article:')).filter((article: any) => isArticlePublished(article));
+    const published = articles.map(presentArticle);
+
+    const filters: ListingFilter[] = [
+      ...countBy(published, (article) => article.tags).map(({ name }) => ({ type: 'tag' as const, value: name })),
+      ...countBy(published, (article) => (article.category ? [article.category] : [])).map(({ name }) => ({ type: 'category' as const, value: name })),
+    ];
+
+    // Article pages carry updatedAt, when the article itself last changed
+    const exportPage = ({ data, meta }: { data: prerender.InitialData; meta: seo.PageMeta }, updatedAt: string | null) =>
+      ({ path: data.path, updatedAt, head: seo.renderHead(meta), data });
+    const pages = [
+      exportPage(buildListingPage(site, published, null, null), null),
+      ...filters.map((filter) => exportPage(buildListingPage(site, published, filter, null), null)),
+      ...await Promise.all(articles.map(async (article: any) => exportPage(await buildArticlePage(article), article.updatedAt))),
+    ];
+
+    // Only files the published articles refer to
+    const referenced = published.map((article: any) => JSON.stringify(article)).join('\n');
+    const files = [...await media.listMedia({}), ...await images.listVariantFiles()]
+      .filter(({ url }) => referenced.includes(url))
+      .map(({ url, path }) => ({ url, path }));
+
+    return c.json({
+      site: { title: site.title, description: site.description, siteUrl: site.siteUrl, language: site.language },
+      pages,
+      media: files,
+    });
+  } catch (error) {
+    console.log('Error exporting pages:', error);
+    return c.json({ error: 'Failed to export pages' }, 500);
+  }
+});
+
+// ===== COMMENT ROUTES =====
+
+// Get approved comments for an article, oldest first - replies reference their parent by parentId
+app.get("/make-server-2b00e03f/comments/:articleId", openapi.route({
+  operationId: 'listComments',
+  summary: 'List an article\'s approved comments',
+  tag: 'Comments',
+  auth: 'public',
+  response: schemas.COMMENT_THREAD,
+}), async (c) => {
+  try {
+    const articleId = c.req.param('articleId');
+    const articleComments = await comments.listArticleComments(articleId);
+    const { maxDepth } = await comments.getSettings();
+    
+    return c.json({ comments: comments.toPublicThread(articleComments), maxDepth });
+  } catch (error) {
+    console.log('Error fetching comments:', error);
+    return c.json({ error: 'Failed to fetch comments' }, 500);
+  }
+});
+
+// Create new comment or reply - depending on the moderation settings it is published or held for review.
+// Signed-in staff comment under their account name and skip moderation.
+app.post("/make-server-2b00e03f/comments/:articleId", openapi.route({
+  operationId: 'createComment',
+  summary: 'Comment on an article or reply to a comment',
+  description: 'Depending on the moderation settings the comment is published at once or held for review. Signed-in staff comment under their account name and skip moderation.',
+  tag: 'Comments',
+  auth: 'optional',
+  body: schemas.NEW_COMMENT,
+  response: schemas.COMMENT_RESULT,
+  responses: { 404: 'The article or the comment replied to was not found' },
+}), async (c) => {
+  try {
+    const articleId = c.req.param('articleId');
+    const body = await c.req.json();
+    const { email, content, parentId } = body;
+    const user = await getAuthUser(c.req.raw);
+    const name = user ? await getUserName(user.id) : body.name;
+    
+    if (!name) {
+      return c.json({ error: 'Name is required' }, 400);
+    }
+
+    // Verify article exists and is visible to readers
+    const article = await kv.get(`article:${articleId}`);
+    if (!article || !isArticlePublished(article)) {
+      return c.json({ error: 'Article not found' }, 404);
+    }
+
+    let parent = null;
+    if (parentId) {
+      parent = await comments.getComment(articleId, parentId);
+      if (!parent || parent.status !== 'approved' || parent.deleted) {
+        return c.json({ error: 'The comment you are replying to was not found' }, 404);
+      }
+
+      const { maxDepth } = await comments.getSettings();
+      if (parent.depth >= maxDepth) {
+        return c.json({ error: 'This thread is too deeply nested to reply to' }, 400);
+      }
+    }
+
+    const comment = await comments.createComment(articleId, {
+      name,
+      email: user ? null : email || null,
+      content,
+      parent,
+      staffUserId: user?.id ?? null,
+    });
+    
+    return c.json({ success: true, comment: comments.toPublicComment(comment) });
+  } catch (error) {
+    console.log('Error creating comment:', error);
+    return c.json({ error: 'Failed to create comment' }, 500);
+  }
+});
+
+// Delete comment (requires comment:moderate) - comments with replies are kept as "[deleted]" placeholders
+app.delete("/make-server-2b00e03f/comments/:articleId/:commentId", openapi.route({
+  operationId: 'deleteComment',
+  summary: 'Delete a comment',
+  description: 'Comments with replies are kept as "[deleted]" placeholders.',
+  tag: 'Comments',
+  auth: 'comment:moderate',
+  response: schemas.SUCCESS,
+  responses: { 404: 'Comment not found' },
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'comment:moderate')) {
+      return c.json({ error: 'Forbidden - Only editors can delete comments' }, 403);
+    }
+
+    const articleId = c.req.param('articleId');
+    const commentId = c.req.param('commentId');
+    
+    const comment = await comments.getComment(articleId, commentId);
+    if (!comment) {
+      return c.json({ error: 'Comment not found' }, 404);
+    }
+
+    await comments.deleteComment(comment);
+    
     return c.json({ success: true });
   } catch (error) {
     console.log('Error deleting comment:', error);
@@ -294,4 +2185,170 @@ app.delete("/make-server-2b00e03f/comments/:articleId/:commentId", async (c) =>
   }
 });
 
+// ===== MODERATION ROUTES =====
+
+// Moderation inbox - comments across all articles with a status, pending by default (requires comment:moderate)
+app.get("/make-server-2b00e03f/moderation/comments", openapi.route({
+  operationId: 'listModerationQueue',
+  summary: 'Comments across all articles with a status',
+  tag: 'Moderation',
+  auth: 'comment:moderate',
+  query: schemas.MODERATION_QUEUE_QUERY,
+  response: schemas.MODERATION_QUEUE,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'comment:moderate')) {
+      return c.json({ error: 'Forbidden - Only editors can moderate comments' }, 403);
+    }
+
+    const status = (c.req.query('status') || 'pending') as comments.CommentStatus;
+    const queue = await comments.listCommentsByStatus(status);
+
+    // Attach article titles so moderators can see where each comment was left
+    const articleIds = [...new Set(queue.map((comment) => comment.articleId))];
+    const articles = articleIds.length > 0 ? await kv.mget(articleIds.map((id) => `article:${id}`)) : [];
+    const titles = new Map(articles.filter(Boolean).map((article: any) => [article.id, article.title]));
+
+    return c.json({
+      comments: queue.map((comment) => ({ ...comment, articleTitle: titles.get(comment.articleId) ?? null })),
+    });
+  } catch (error) {
+    console.log('Error fetching moderation queue:', error);
+    return c.json({ error: 'Failed to fetch moderation queue' }, 500);
+  }
+});
+
+// Bulk approve/reject/spam comments (requires comment:moderate)
+// Body: { status, comments: [{ articleId, id }] }
+app.post("/make-server-2b00e03f/moderation/comments", openapi.route({
+  operationId: 'moderateComments',
+  summary: 'Approve, reject or mark comments as spam in bulk',
+  tag: 'Moderation',
+  auth: 'comment:moderate',
+  body: schemas.MODERATION_ACTION,
+  response: schemas.MODERATION_RESULT,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'comment:moderate')) {
+      return c.json({ error: 'Forbidden - Only editors can moderate comments' }, 403);
+    }
+
+    const { status, comments: targets } = await c.req.json();
+
+    const updated = [];
+    const notFound = [];
+    for (const target of targets) {
+      const comment = target?.articleId && target?.id
+        ? await comments.getComment(target.articleId, target.id)
+        : null;
+      if (!comment) {
+        notFound.push(target);
+        continue;
+      }
+      updated.push(await comments.setCommentStatus(comment, status, user.id));
+    }
+    
+    return c.json({ success: true, comments: updated, notFound });
+  } catch (error) {
+    console.log('Error moderating comments:', error);
+    return c.json({ error: 'Failed to moderate comments' }, 500);
+  }
+});
+
+// Get the comment moderation settings (requires comment:moderate)
+app.get("/make-server-2b00e03f/moderation/settings", openapi.route({
+  operationId: 'getModerationSettings',
+  summary: 'Get the comment moderation settings',
+  tag: 'Moderation',
+  auth: 'comment:moderate',
+  response: schemas.MODERATION_SETTINGS_RESULT,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'comment:moderate')) {
+      return c.json({ error: 'Forbidden - Only editors can moderate comments' }, 403);
+    }
+
+    return c.json({ settings: await comments.getSettings() });
+  } catch (error) {
+    console.log('Error fetching moderation settings:', error);
+    return c.json({ error: 'Failed to fetch moderation settings' }, 500);
+  }
+});
+
+// Update the comment moderation settings (requires comment:moderate)
+app.put("/make-server-2b00e03f/moderation/settings", openapi.route({
+  operationId: 'updateModerationSettings',
+  summary: 'Update the comment moderation settings',
+  tag: 'Moderation',
+  auth: 'comment:moderate',
+  body: schemas.MODERATION_SETTINGS_UPDATE,
+  response: schemas.MODERATION_SETTINGS_RESULT,
+}), async (c) => {
+  try {
+    const user = await getAuthUser(c.req.raw);
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Please log in' }, 401);
+    }
+
+    if (!permissions.hasPermission(user, 'comment:moderate')) {
+      return c.json({ error: 'Forbidden - Only editors can moderate comments' }, 403);
+    }
+
+    const current = await comments.getSettings();
+    const { moderation = current.moderation, maxDepth = current.maxDepth } = await c.req.json();
+    return c.json({ success: true, settings: await comments.saveSettings({ moderation, maxDepth }, user.id) });
+  } catch (error) {
+    console.log('Error updating moderation settings:', error);
+    return c.json({ error: 'Failed to update moderation settings' }, 500);
+  }
+});
+
+// ===== API DOCS =====
+
+// OpenAPI description of every route above, built from the same schemas that check their requests
+app.get("/make-server-2b00e03f/openapi.json", openapi.route({
+  operationId: 'getOpenApiDocument',
+  summary: 'This OpenAPI document',
+  tag: 'Docs',
+  auth: 'public',
+  response: schemas.OPENAPI_DOCUMENT,
+}), async (c) => {
+  try {
+    const site = await siteSettings.getSiteSettings();
+    return c.json(openapi.buildDocument(app.routes, {
+      title: `${site.title} API`,
+      version: '1.0.0',
+      serverUrl: publicUrl(c, '/make-server-2b00e03f'),
+      basePath: '/make-server-2b00e03f',
+    }));
+  } catch (error) {
+    console.log('Error building OpenAPI document:', error);
+    return c.json({ error: 'Failed to build API description' }, 500);
+  }
+});
+
+// Browsable docs for the document above. Its URL is relative so it resolves against the public address.
+app.get("/make-server-2b00e03f/docs", openapi.route({
+  operationId: 'getApiDocs',
+  summary: 'Interactive API docs',
+  tag: 'Docs',
+  auth: 'public',
+  produces: 'text/html',
+}), swaggerUI({ url: 'openapi.json' }));
+
 Deno.serve(app.fetch);
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as store from "./memory_store.ts";
+import * as claims from "./claims.tsx";
+import { claimInvite, createInvite, listInvites, markInviteUsed, releaseInvite, revokeInvite } from "./invites.tsx";
+
+vi.mock("./kv_store.tsx", () => import("./memory_store.ts"));
+vi.mock("npm:@supabase/supabase-js@2", () => import("./memory_store.ts"));
+
+const EMAIL = 'new.writer@example.com';
+
+describe('claimInvite', () => {
+  beforeEach(() => {
+    store.clear();
+  });
+
+  it('claims a pending invite once', async () => {
+    const { invite, token } = await createInvite('author', null, 7, 'admin-1');
+
+    const claimed = await claimInvite(token, EMAIL);
+    expect(claimed).toMatchObject({ id: invite.id, role: 'author', usedBy: null });
+    expect(claimed?.usedAt).not.toBeNull();
+
+    expect(await claimInvite(token, EMAIL)).toBeNull();
+  });
+
+  it('lets only one of several racing signups through', async () => {
+    const { token } = await createInvite('editor', null, 7, 'admin-1');
+
+    const results = await Promise.all([1, 2, 3, 4].map((n) => claimInvite(token, `writer${n}@example.com`)));
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('stores only the token\'s hash', async () => {
+    const { invite, token } = await createInvite('author', null, 7, 'admin-1');
+    expect(invite.id).toMatch(/^[0-9a-f]{64}$/);
+    expect(invite.id).not.toBe(token);
+    expect(JSON.stringify(await listInvites())).not.toContain(token);
+  });
+
+  it('rejects unknown tokens', async () => {
+    await createInvite('author', null, 7, 'admin-1');
+    expect(await claimInvite('not-a-token', EMAIL)).toBeNull();
+  });
+
+  it('holds an email-locked invite for that address, in any case', async () => {
+    const { token } = await createInvite('author', 'New.Writer@Example.com ', 7, 'admin-1');
+
+    expect(await claimInvite(token, 'someone.else@example.com')).toBeNull();
+    expect(await claimInvite(token, EMAIL.toUpperCase())).not.toBeNull();
+  });
+
+  it('rejects expired and revoked invites', async () => {
+    const expired = await createInvite('author', null, 0, 'admin-1');
+    expect(await claimInvite(expired.token, EMAIL)).toBeNull();
+
+    const revoked = await createInvite('author', null, 7, 'admin-1');
+    await revokeInvite(revoked.invite.id);
+    expect(await claimInvite(revoked.token, EMAIL)).toBeNull();
+  });
+
+  it('can be claimed again once released', async () => {
+    const { token } = await createInvite('author', null, 7, 'admin-1');
+
+    const claimed = await claimInvite(token, EMAIL);
+    await releaseInvite(claimed!);
+
+    const [listed] = await listInvites();
+    expect(listed).toMatchObject({ state: 'pending', usedAt: null, usedBy: null });
+    expect(await claimInvite(token, EMAIL)).not.toBeNull();
+  });
+
+  it('stays used once the account exists', async () => {
+    const { invite, token } = await createInvite('author', null, 7, 'admin-1');
+
+    const claimed = await claimInvite(token, EMAIL);
+    await markInviteUsed(claimed!, 'user-1');
+
+    const [listed] = await listInvites();
+    expect(listed).toMatchObject({ state: 'used', usedBy: 'user-1', usedAt: claimed!.usedAt });
+    expect(await claims.getClaim(`invite:${invite.id}`)).toBeDefined();
+    expect(await claimInvite(token, EMAIL)).toBeNull();
+  });
+
+  it('keeps the claim even if the invite record is reset', async () => {
+    const { invite, token } = await createInvite('author', null, 7, 'admin-1');
+    await claimInvite(token, EMAIL);
+
+    // A write that lost the race and put the pending record back
+    await store.set(`invite:${invite.id}`, invite);
+    expect(await claimInvite(token, EMAIL)).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+// Single-use invite tokens for staff registration, stored in the KV table.
+//
+// Key layout:
+//   invite:<sha256(token)> -> { id, role, email, createdBy, createdAt, expiresAt, usedAt, usedBy, revokedAt }
+//
+// Only the hash is stored, so the raw token is shown to the admin once at creation
+// and a leaked KV row can't be turned into a working invite.
+//
+// A signup claims its invite (see claims.tsx) before creating the account, so of two signups
+// racing for one invite only one goes on. The claim stays once the account exists, keeping the
+// invite single-use; usedBy is filled in then.
+import * as kv from "./kv_store.tsx";
+import * as claims from "./claims.tsx";
+import type { Role } from "./permissions.tsx";
+
+export interface Invite {
+  id: string;
+  role: Role;
+  email: string | null;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt: string | null;
+  usedBy: string | null;
+  revokedAt: string | null;
+}
+
+export type InviteState = 'pending' | 'used' | 'revoked' | 'expired';
+
+const inviteKey = (id: string) => `invite:${id}`;
+
+const hashToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const generateToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export const getInviteState = (invite: Invite, now = Date.now()): InviteState => {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.usedAt) return 'used';
+  if (new Date(invite.expiresAt).getTime() <= now) return 'expired';
+  return 'pending';
+};
+
+// Create an invite and return it along with the raw token, which is not stored
+export const createInvite = async (
+  role: Role,
+  email: string | null,
+  expiresInDays: number,
+  createdBy: string,
+): Promise<{ invite: Invite; token: string }> => {
+  const token = generateToken();
+  const id = await hashToken(token);
+  const now = Date.now();
+  const invite: Invite = {
+    id,
+    role,
+    email: email ? email.trim().toLowerCase() : null,
+    createdBy,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    usedAt: null,
+    usedBy: null,
+    revokedAt: null,
+  };
+
+  await kv.set(inviteKey(id), invite);
+  return { invite, token };
+};
+
+export const listInvites = async (): Promise<Array<Invite & { state: InviteState }>> => {
+  const invites: Invite[] = await kv.getByPrefix('invite:');
+  return invites
+    .map((invite) => ({ ...invite, state: getInviteState(invite) }))
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
+
+// Find a pending invite for a raw token, checking the email lock if the invite has one
+export const findUsableInvite = async (token: string, email: string): Promise<Invite | null> => {
+  const invite: Invite | undefined = await kv.get(inviteKey(await hashToken(token)));
+  if (!invite || getInviteState(invite) !== 'pending') return null;
+  if (invite.email && invite.email !== email.trim().toLowerCase()) return null;
+  return invite;
+};
+
+// Claim a pending invite for a signup in progress, returning it only if the claim held
+export const claimInvite = async (token: string, email: string): Promise<Invite | null> => {
+  const invite = await findUsableInvite(token, email);
+  if (!invite) return null;
+
+  if (!await claims.claim(inviteKey(invite.id))) return null;
+
+  const claimed = { ...invite, usedAt: new Date().toISOString() };
+  await kv.set(inviteKey(invite.id), claimed);
+  return claimed;
+};
+
+// Hand a claimed invite back when the account couldn't be created
+export const releaseInvite = async (invite: Invite): Promise<void> => {
+  await kv.set(inviteKey(invite.id), { ...invite, usedAt: null, usedBy: null });
+  await claims.releaseClaim(inviteKey(invite.id));
+};
+
+export const markInviteUsed = async (invite: Invite, userId: string): Promise<void> => {
+  await kv.set(inviteKey(invite.id), { ...invite, usedAt: invite.usedAt ?? new Date().toISOString(), usedBy: userId });
+};
+
+export const revokeInvite = async (id: string): Promise<Invite | null> => {
+  const invite: Invite | undefined = await kv.get(inviteKey(id));
+  if (!invite) return null;
+
+  const revoked = { ...invite, revokedAt: invite.revokedAt ?? new Date().toISOString() };
+  await kv.set(inviteKey(id), revoked);
+  return revoked;
+};
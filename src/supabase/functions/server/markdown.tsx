@@ -0,0 +1,36 @@
+// Markdown (GFM) article bodies rendered to HTML on the server, for feeds.
+//
+// Uses the same unified plugins as the reader's ArticleContent component: inline HTML is parsed
+// and then filtered through rehype-sanitize's GitHub allow-list, so the two render alike.
+import { unified } from "npm:unified@11";
+import remarkParse from "npm:remark-parse@11";
+import remarkGfm from "npm:remark-gfm@4";
+import remarkRehype from "npm:remark-rehype@11";
+import rehypeRaw from "npm:rehype-raw@7";
+import rehypeSanitize from "npm:rehype-sanitize@6";
+import rehypeStringify from "npm:rehype-stringify@10";
+
+export const CONTENT_FORMATS = ['markdown', 'plain'];
+
+// Articles saved before Markdown support are plain text
+export const getContentFormat = (article: { format?: string }): string => article.format ?? 'plain';
+
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkRehype, { allowDangerousHtml: true })
+  .use(rehypeRaw)
+  .use(rehypeSanitize)
+  .use(rehypeStringify);
+
+export const renderMarkdown = (markdown: string): string => String(processor.processSync(markdown));
+
+type HastNode = { type: string; value?: string; children?: HastNode[] };
+
+// Elements are joined with a space so table cells and list items don't run together
+const collectText = (node: HastNode): string =>
+  node.type === 'text' ? node.value ?? '' : (node.children ?? []).map(collectText).join(' ');
+
+// The words a reader sees, without Markdown syntax or markup
+export const markdownToText = (markdown: string): string =>
+  collectText(processor.runSync(processor.parse(markdown)) as HastNode);
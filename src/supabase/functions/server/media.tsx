@@ -0,0 +1,239 @@
+// Uploaded images, audio and video for articles.
+//
+// Files go to a public Supabase Storage bucket. For local development without Storage, set
+// MEDIA_LOCAL_DIR and files are written there instead and served by the media file route.
+//
+// Key layout:
+//   media:<id> -> { id, path, url, filename, mimeType, kind, size, uploadedBy, createdAt }
+//
+// Uploads are checked against an allow-list of types, using the file's leading bytes rather
+// than the type the browser reports, and a size limit per kind.
+import * as kv from "./kv_store.tsx";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+export type MediaKind = 'image' | 'audio' | 'video';
+
+export const MEDIA_KINDS: MediaKind[] = ['image', 'audio', 'video'];
+
+// SVG is left out on purpose: it can carry scripts, and is served from a public URL
+export const MEDIA_TYPES: Record<string, { kind: MediaKind; extension: string }> = {
+  'image/jpeg': { kind: 'image', extension: 'jpg' },
+  'image/png': { kind: 'image', extension: 'png' },
+  'image/gif': { kind: 'image', extension: 'gif' },
+  'image/webp': { kind: 'image', extension: 'webp' },
+  'image/avif': { kind: 'image', extension: 'avif' },
+  'audio/mpeg': { kind: 'audio', extension: 'mp3' },
+  'audio/mp4': { kind: 'audio', extension: 'm4a' },
+  'audio/ogg': { kind: 'audio', extension: 'ogg' },
+  'audio/wav': { kind: 'audio', extension: 'wav' },
+  'video/mp4': { kind: 'video', extension: 'mp4' },
+  'video/webm': { kind: 'video', extension: 'webm' },
+  'video/quicktime': { kind: 'video', extension: 'mov' },
+};
+
+const MB = 1024 * 1024;
+
+export const MAX_MEDIA_SIZES: Record<MediaKind, number> = {
+  image: 10 * MB,
+  audio: 50 * MB,
+  video: 50 * MB,
+};
+
+const BUCKET = 'make-2b00e03f-media';
+
+const LOCAL_DIR = Deno.env.get('MEDIA_LOCAL_DIR');
+
+export interface MediaAsset {
+  id: string;
+  path: string;
+  url: string;
+  filename: string;
+  mimeType: string;
+  kind: MediaKind;
+  size: number;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+const mediaKey = (id: string) => `media:${id}`;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+// Identify a file from its leading bytes. MP4 and WebM containers hold either audio or video,
+// so the reported type decides which of the two they are.
+export const detectMimeType = (bytes: Uint8Array, reportedType: string): string | null => {
+  const reportedAudio = reportedType.startsWith('audio/');
+
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WAVE'), 8)) return 'audio/wav';
+  if (startsWith(bytes, ascii('OggS'))) return 'audio/ogg';
+  if (startsWith(bytes, ascii('ID3')) || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return reportedAudio ? null : 'video/webm';
+  if (startsWith(bytes, ascii('ftyp'), 4)) {
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (brand === 'qt  ') return 'video/quicktime';
+    return brand.startsWith('M4A') || reportedAudio ? 'audio/mp4' : 'video/mp4';
+  }
+  return null;
+};
+
+// Check an upload, returning its detected type or an error message
+export const validateUpload = (
+  bytes: Uint8Array,
+  reportedType: string,
+): { mimeType: string; kind: MediaKind } | { error: string } => {
+  const mimeType = detectMimeType(bytes, reportedType);
+  const type = mimeType ? MEDIA_TYPES[mimeType] : undefined;
+  if (!mimeType || !type) {
+    return { error: 'Unsupported file type. Upload a JPEG, PNG, GIF, WebP or AVIF image, MP3, M4A, Ogg or WAV audio, or MP4, WebM or MOV video' };
+  }
+  if (bytes.length > MAX_MEDIA_SIZES[type.kind]) {
+    return { error: `${type.kind[0].toUpperCase()}${type.kind.slice(1)} files can be at most ${MAX_MEDIA_SIZES[type.kind] / MB} MB` };
+  }
+  return { mimeType, kind: type.kind };
+};
+
+// Keep the original name readable in the URL, minus anything that needs escaping
+const safeBaseName = (filename: string) =>
+  filename
+    .replace(/\.[^.]*$/, '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 60)
+    .replace(/^-+|-+$/g, '') || 'file';
+
+const storage = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+).storage;
+
+let bucketReady: Promise<void> | null = null;
+
+// Create the public bucket the first time anything is uploaded
+const ensureBucket = () => {
+  bucketReady ??= (async () => {
+    const { data: buckets, error } = await storage.listBuckets();
+    if (error) throw error;
+    if (buckets?.some((bucket) => bucket.name === BUCKET)) return;
+
+    const { error: createError } = await storage.createBucket(BUCKET, {
+      public: true,
+      allowedMimeTypes: Object.keys(MEDIA_TYPES),
+      fileSizeLimit: Math.max(...Object.values(MAX_MEDIA_SIZES)),
+    });
+    if (createError && !/already exists/i.test(createError.message)) throw createError;
+  })().catch((error) => {
+    bucketReady = null;
+    throw error;
+  });
+  return bucketReady;
+};
+
+// Write the file and return its public URL. localUrl builds the URL for files kept on disk.
+export const storeFile = async (path: string, bytes: Uint8Array, mimeType: string, localUrl: (path: string) => string) => {
+  if (LOCAL_DIR) {
+    const file = `${LOCAL_DIR}/${path}`;
+    await Deno.mkdir(file.slice(0, file.lastIndexOf('/')), { recursive: true });
+    await Deno.writeFile(file, bytes);
+    return localUrl(path);
+  }
+
+  await ensureBucket();
+  const { error } = await storage.from(BUCKET).upload(path, bytes, {
+    contentType: mimeType,
+    // Paths are unique per upload, so the files never change
+    cacheControl: '31536000',
+  });
+  if (error) throw error;
+  return storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+// Whether a URL points into this site's media storage. Files articles link to are only fetched
+// by the server (audio probed, images resized) from there, since an author-supplied URL could
+// otherwise point the function at internal hosts.
+export const isStoredFileUrl = (url: string, localUrl: (path: string) => string): boolean => {
+  if (!URL.canParse(url)) return false;
+  const base = LOCAL_DIR ? localUrl('') : storage.from(BUCKET).getPublicUrl('').data.publicUrl;
+  // Compared after parsing, so ../ segments can't climb out of the bucket
+  return new URL(url).href.startsWith(base);
+};
+
+export const removeFiles = async (paths: string[]) => {
+  if (paths.length === 0) return;
+
+  if (LOCAL_DIR) {
+    for (const path of paths) {
+      await Deno.remove(`${LOCAL_DIR}/${path}`).catch((error) => {
+        if (!(error instanceof Deno.errors.NotFound)) throw error;
+      });
+    }
+    return;
+  }
+
+  const { error } = await storage.from(BUCKET).remove(paths);
+  if (error) throw error;
+};
+
+export const uploadMedia = async (
+  file: { name: string; bytes: Uint8Array; mimeType: string; kind: MediaKind },
+  uploadedBy: string,
+  localUrl: (path: string) => string,
+): Promise<MediaAsset> => {
+  const id = crypto.randomUUID();
+  const path = `${id}/${safeBaseName(file.name)}.${MEDIA_TYPES[file.mimeType].extension}`;
+  const asset: MediaAsset = {
+    id,
+    path,
+    url: await storeFile(path, file.bytes, file.mimeType, localUrl),
+    filename: file.name,
+    mimeType: file.mimeType,
+    kind: file.kind,
+    size: file.bytes.length,
+    uploadedBy,
+    createdAt: new Date().toISOString(),
+  };
+  await kv.set(mediaKey(id), asset);
+  return asset;
+};
+
+export const getMedia = async (id: string): Promise<MediaAsset | null> => (await kv.get(mediaKey(id))) ?? null;
+
+// Newest first, optionally limited to one kind and to file names containing the query
+export const listMedia = async ({ query, kind }: { query?: string; kind?: MediaKind }): Promise<MediaAsset[]> => {
+  const needle = query?.trim().toLowerCase();
+  const assets: MediaAsset[] = await kv.getByPrefix('media:');
+  return assets
+    .filter((asset) => !kind || asset.kind === kind)
+    .filter((asset) => !needle || asset.filename.toLowerCase().includes(needle))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteMedia = async (asset: MediaAsset): Promise<void> => {
+  await removeFiles([asset.path]);
+  await kv.del(mediaKey(asset.id));
+};
+
+// Read a file written by the local stand-in, or null if there is none
+export const readLocalFile = async (path: string): Promise<{ bytes: Uint8Array<ArrayBuffer>; mimeType: string } | null> => {
+  if (!LOCAL_DIR || path.split('/').some((segment) => segment === '..' || segment === '')) return null;
+
+  const extension = path.slice(path.lastIndexOf('.') + 1);
+  const mimeType = Object.keys(MEDIA_TYPES).find((type) => MEDIA_TYPES[type].extension === extension);
+  if (!mimeType) return null;
+
+  try {
+    return { bytes: await Deno.readFile(`${LOCAL_DIR}/${path}`), mimeType };
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+};
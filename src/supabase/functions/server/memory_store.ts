@@ -0,0 +1,52 @@
+// In-memory stand-in for the KV table, for unit tests. It offers kv_store.tsx's functions and the
+// part of a Supabase client that claims.tsx uses, both over the same rows:
+//
+//   vi.mock("./kv_store.tsx", () => import("./memory_store.ts"));
+//   vi.mock("npm:@supabase/supabase-js@2", () => import("./memory_store.ts"));
+//
+// Values are copied in and out, as they are by the JSONB column.
+const rows = new Map<string, unknown>();
+
+// Postgres unique_violation, as the table's primary key raises it
+const DUPLICATE_KEY = '23505';
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+export const clear = (): void => rows.clear();
+
+export const set = async (key: string, value: any): Promise<void> => {
+  rows.set(key, copy(value));
+};
+
+export const get = async (key: string): Promise<any> => copy(rows.get(key));
+
+export const del = async (key: string): Promise<void> => {
+  rows.delete(key);
+};
+
+export const mset = async (keys: string[], values: any[]): Promise<void> => {
+  keys.forEach((key, index) => rows.set(key, copy(values[index])));
+};
+
+// Like the table, leaves out keys that have no row
+export const mget = async (keys: string[]): Promise<any[]> =>
+  keys.filter((key) => rows.has(key)).map((key) => copy(rows.get(key)));
+
+export const mdel = async (keys: string[]): Promise<void> => {
+  keys.forEach((key) => rows.delete(key));
+};
+
+export const getByPrefix = async (prefix: string): Promise<any[]> =>
+  [...rows.entries()].filter(([key]) => key.startsWith(prefix)).map(([, value]) => copy(value));
+
+export const createClient = (_url: string, _key: string) => ({
+  from: (_table: string) => ({
+    insert: async ({ key, value }: { key: string; value: unknown }) => {
+      if (rows.has(key)) {
+        return { error: { code: DUPLICATE_KEY, message: 'duplicate key value violates unique constraint' } };
+      }
+      rows.set(key, copy(value));
+      return { error: null };
+    },
+  }),
+});
@@ -0,0 +1,275 @@
+// Route descriptions for the OpenAPI document. Every route is registered with route(spec) in front
+// of its handler: the middleware checks the path parameters, query string and body against the
+// spec's schemas before the handler runs, and buildDocument() reads the same specs back from
+// app.routes to describe the API at GET /openapi.json, so what is documented is what is enforced.
+import type { Context, MiddlewareHandler } from "npm:hono";
+import { validate, type Schema } from "./validation.tsx";
+import { ERROR } from "./schemas.tsx";
+import type { Permission } from "./permissions.tsx";
+
+// public    - anyone
+// optional  - anyone, and signed-in users get more (unpublished articles, staff comments)
+// signed-in - any staff account; the handler checks rights on the record itself
+// otherwise - staff whose role has this permission
+export type RouteAuth = 'public' | 'optional' | 'signed-in' | Permission;
+
+export interface RouteSpec {
+  operationId: string;
+  summary: string;
+  description?: string;
+  // Groups operations in the docs page
+  tag: string;
+  auth: RouteAuth;
+  // Path parameters that aren't plain strings
+  params?: Record<string, Schema>;
+  // An object schema whose properties are the query parameters
+  query?: Schema;
+  // A JSON body
+  body?: Schema;
+  // A multipart form body
+  form?: Schema;
+  // The JSON sent back on success
+  response?: Schema;
+  // Content type of a successful response that isn't JSON, e.g. a feed
+  produces?: string;
+  // Other outcomes worth knowing about, by status; errors carry the usual { error } body
+  responses?: Record<number, string>;
+}
+
+const SPEC = Symbol('route spec');
+
+type DocumentedHandler = MiddlewareHandler & { [SPEC]?: RouteSpec };
+
+// Path parameters and query strings arrive as text; numbers and booleans are read as such so the
+// schemas can describe them with their real types
+const coerce = (schema: Schema | undefined, value: string): unknown => {
+  if ((schema?.type === 'integer' || schema?.type === 'number') && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (schema?.type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+};
+
+const checkRequest = async (c: Context, spec: RouteSpec): Promise<string | null> => {
+  for (const [name, schema] of Object.entries(spec.params ?? {})) {
+    const error = validate(schema, coerce(schema, c.req.param(name) ?? ''), name);
+    if (error) return error;
+  }
+
+  if (spec.query) {
+    // Empty parameters (?tag=) count as left out
+    const query = Object.fromEntries(
+      Object.entries(c.req.query())
+        .filter(([, value]) => value !== '')
+        .map(([name, value]) => [name, coerce(spec.query!.properties?.[name], value)]),
+    );
+    const error = validate(spec.query, query);
+    if (error) return error;
+  }
+
+  if (spec.body) {
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return 'Request body must be valid JSON';
+    }
+    const error = validate(spec.body, body);
+    if (error) return error;
+  }
+
+  if (spec.form) {
+    const error = validate(spec.form, await c.req.parseBody());
+    if (error) return error;
+  }
+
+  return null;
+};
+
+// Middleware that rejects requests not matching the spec with a 400, and carries the spec for buildDocument()
+export const route = (spec: RouteSpec): MiddlewareHandler => {
+  const handler: DocumentedHandler = async (c, next) => {
+    const error = await checkRequest(c, spec);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+    await next();
+  };
+  handler[SPEC] = spec;
+  return handler;
+};
+
+// ===== Document =====
+
+interface RegisteredRoute {
+  method: string;
+  path: string;
+  handler: unknown;
+}
+
+interface DocumentOptions {
+  title: string;
+  version: string;
+  // Public address the paths below are relative to
+  serverUrl: string;
+  // Prefix the routes are registered under, left out of the documented paths
+  basePath: string;
+}
+
+const AUTH_NOTES: Record<string, string> = {
+  public: '',
+  optional: 'Open to everyone; signed-in staff get more, as described.',
+  'signed-in': 'Requires a signed-in staff account.',
+};
+
+const isPermission = (auth: RouteAuth): auth is Permission => !(auth in AUTH_NOTES);
+
+const authNote = (auth: RouteAuth) => (isPermission(auth) ? `Requires the ${auth} permission.` : AUTH_NOTES[auth]);
+
+// Schemas with a title are listed once under components and referenced by $ref everywhere they're used
+class Components {
+  readonly schemas: Record<string, unknown> = {};
+  private readonly sources = new Map<string, Schema>();
+
+  convert(schema: Schema): Record<string, unknown> {
+    const converted: Record<string, unknown> = { ...schema };
+    if (schema.items) converted.items = this.convert(schema.items);
+    if (schema.anyOf) converted.anyOf = schema.anyOf.map((option) => this.convert(option));
+    if (schema.properties) {
+      converted.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, property]) => [name, this.convert(property)]),
+      );
+    }
+    if (!schema.title) return converted;
+
+    const existing = this.sources.get(schema.title);
+    if (existing && existing !== schema) {
+      throw new Error(`Two different schemas are titled ${schema.title}`);
+    }
+    if (!existing) {
+      this.sources.set(schema.title, schema);
+      this.schemas[schema.title] = converted;
+    }
+    return { $ref: `#/components/schemas/${schema.title}` };
+  }
+}
+
+const jsonContent = (schema: Record<string, unknown>) => ({ 'application/json': { schema } });
+
+const describeOperation = (method: string, path: string, spec: RouteSpec | undefined, components: Components) => {
+  const pathParams = path.split('/').filter((segment) => segment.startsWith(':') || segment === '*')
+    .map((segment) => (segment === '*' ? 'path' : segment.slice(1)));
+
+  if (!spec) {
+    return {
+      parameters: pathParams.map((name) => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+      responses: { 200: { description: 'OK' } },
+    };
+  }
+
+  const parameter = (name: string, location: 'path' | 'query', schema: Schema, required: boolean) => {
+    const { description, ...rest } = schema;
+    return { name, in: location, required, ...(description ? { description } : {}), schema: components.convert(rest) };
+  };
+
+  const parameters = [
+    ...pathParams.map((name) => parameter(name, 'path', spec.params?.[name] ?? { type: 'string' }, true)),
+    ...Object.entries(spec.query?.properties ?? {}).map(([name, schema]) =>
+      parameter(name, 'query', schema, spec.query?.required?.includes(name) ?? false)
+    ),
+  ];
+
+  const error = (description: string) => ({ description, content: jsonContent(components.convert(ERROR)) });
+
+  const responses: Record<number, unknown> = {
+    200: {
+      description: 'OK',
+      ...(spec.produces
+        ? { content: { [spec.produces]: { schema: { type: 'string' } } } }
+        : spec.response ? { content: jsonContent(components.convert(spec.response)) } : {}),
+    },
+  };
+  if (spec.params || spec.query || spec.body || spec.form) {
+    responses[400] = error('The request failed validation');
+  }
+  if (spec.auth !== 'public' && spec.auth !== 'optional') {
+    responses[401] = error('Not signed in');
+  }
+  if (isPermission(spec.auth)) {
+    responses[403] = error(`The role lacks the ${spec.auth} permission`);
+  }
+  for (const [status, description] of Object.entries(spec.responses ?? {})) {
+    responses[Number(status)] = Number(status) >= 400 ? error(description) : { description };
+  }
+  responses[500] = error('Something went wrong on the server');
+
+  const description = [spec.description, authNote(spec.auth)].filter(Boolean).join('\n\n');
+
+  return {
+    operationId: spec.operationId,
+    summary: spec.summary,
+    ...(description ? { description } : {}),
+    tags: [spec.tag],
+    ...(isPermission(spec.auth) ? { security: [{ bearerAuth: [spec.auth] }] } : {}),
+    'x-auth': spec.auth,
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(spec.body ? { requestBody: { required: true, content: jsonContent(components.convert(spec.body)) } } : {}),
+    ...(spec.form
+      ? { requestBody: { required: true, content: { 'multipart/form-data': { schema: components.convert(spec.form) } } } }
+      : {}),
+    responses,
+  };
+};
+
+// The OpenAPI 3.1 document for every route registered under basePath, in registration order
+export const buildDocument = (routes: RegisteredRoute[], { title, version, serverUrl, basePath }: DocumentOptions) => {
+  const components = new Components();
+  const operations = new Map<string, { method: string; path: string; spec?: RouteSpec }>();
+
+  for (const { method, path, handler } of routes) {
+    // app.use() middleware is registered for every method
+    if (method === 'ALL' || !path.startsWith(basePath)) continue;
+    const key = `${method} ${path}`;
+    const operation = operations.get(key) ?? { method, path };
+    operation.spec ??= (handler as DocumentedHandler)[SPEC];
+    operations.set(key, operation);
+  }
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  const operationIds = new Set<string>();
+  for (const { method, path, spec } of operations.values()) {
+    if (spec) {
+      if (operationIds.has(spec.operationId)) throw new Error(`Two routes use the operationId ${spec.operationId}`);
+      operationIds.add(spec.operationId);
+    }
+    const documentedPath = path.slice(basePath.length).replace(/:(\w+)/g, '{$1}').replace(/\*$/, '{path}');
+    paths[documentedPath] ??= {};
+    paths[documentedPath][method.toLowerCase()] = describeOperation(method, path, spec, components);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title,
+      version,
+      description:
+        'Every request carries a bearer token: a signed-in user\'s access token, or the project\'s anon key ' +
+        'for public routes. Errors come back as { "error": "..." } with a message suitable for showing to the user.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      schemas: components.schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: "A signed-in user's Supabase access token, or the project's anon key. Operations that need a permission name it in their security requirement.",
+        },
+      },
+    },
+  };
+};
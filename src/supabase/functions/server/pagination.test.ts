@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { compareArticles, decodeCursor, encodeCursor, paginate, type Cursor } from "./pagination.tsx";
+
+const article = (id: string, createdAt: string) => ({ id, createdAt, title: `Article ${id}` });
+
+// Two pairs share a timestamp, so only the id keeps their order stable
+const articles = [
+  article('a', '2026-01-01T00:00:00.000Z'),
+  article('b', '2026-02-01T00:00:00.000Z'),
+  article('c', '2026-02-01T00:00:00.000Z'),
+  article('d', '2026-03-01T00:00:00.000Z'),
+  article('e', '2026-04-01T00:00:00.000Z'),
+  article('f', '2026-04-01T00:00:00.000Z'),
+  article('g', '2026-05-01T00:00:00.000Z'),
+].sort(compareArticles);
+
+// Follow nextCursor from the first page to the last, collecting the ids of every page
+const walk = (list: typeof articles, limit: number) => {
+  const pages: string[][] = [];
+  let cursor: Cursor | null = null;
+  do {
+    const { page, nextCursor }: { page: typeof list; nextCursor: string | null } = paginate(list, cursor, limit);
+    pages.push(page.map(({ id }) => id));
+    cursor = nextCursor ? decodeCursor(nextCursor) : null;
+  } while (cursor);
+  return pages;
+};
+
+describe('compareArticles', () => {
+  it('sorts newest first, breaking ties by id', () => {
+    expect(articles.map(({ id }) => id)).toEqual(['g', 'f', 'e', 'd', 'c', 'b', 'a']);
+  });
+});
+
+describe('cursor encoding', () => {
+  it('round-trips the sort key and nothing else', () => {
+    const cursor = encodeCursor(articles[0]);
+    expect(decodeCursor(cursor)).toEqual({ id: 'g', createdAt: '2026-05-01T00:00:00.000Z' });
+  });
+
+  it('is opaque base64', () => {
+    expect(encodeCursor(articles[0])).toMatch(/^[A-Za-z0-9+/]+=*$/);
+  });
+
+  it.each([
+    ['not base64', '%%%'],
+    ['not JSON', btoa('page 2')],
+    ['missing the id', btoa(JSON.stringify({ createdAt: '2026-05-01T00:00:00.000Z' }))],
+    ['a non-string date', btoa(JSON.stringify({ createdAt: 1, id: 'g' }))],
+    ['null', btoa('null')],
+  ])('rejects %s', (_description, cursor) => {
+    expect(decodeCursor(cursor)).toBeNull();
+  });
+});
+
+describe('paginate', () => {
+  it('returns everything without a limit', () => {
+    expect(paginate(articles, null, null)).toEqual({ page: articles, nextCursor: null });
+  });
+
+  it.each([1, 2, 3, 7, 10])('visits every article once with pages of %i', (limit) => {
+    const pages = walk(articles, limit);
+    expect(pages.flat()).toEqual(['g', 'f', 'e', 'd', 'c', 'b', 'a']);
+    expect(pages.every((page) => page.length <= limit)).toBe(true);
+  });
+
+  it('leaves nextCursor off the last page', () => {
+    const { page, nextCursor } = paginate(articles, decodeCursor(encodeCursor(articles[4])), 2);
+    expect(page.map(({ id }) => id)).toEqual(['b', 'a']);
+    expect(nextCursor).toBeNull();
+  });
+
+  it('carries on after an article that has since been deleted', () => {
+    const cursor = decodeCursor(encodeCursor(articles[2]));
+    const remaining = articles.filter(({ id }) => id !== 'e');
+    expect(paginate(remaining, cursor, 2).page.map(({ id }) => id)).toEqual(['d', 'c']);
+  });
+
+  it('does not repeat articles when newer ones are published between pages', () => {
+    const { nextCursor } = paginate(articles, null, 3);
+    const published = [article('h', '2026-06-01T00:00:00.000Z'), ...articles].sort(compareArticles);
+    expect(paginate(published, decodeCursor(nextCursor!), 3).page.map(({ id }) => id)).toEqual(['d', 'c', 'b']);
+  });
+
+  it('returns an empty page for a cursor past the end', () => {
+    const cursor = { id: 'a', createdAt: '2025-01-01T00:00:00.000Z' };
+    expect(paginate(articles, cursor, 3)).toEqual({ page: [], nextCursor: null });
+  });
+});
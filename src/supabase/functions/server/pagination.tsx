@@ -0,0 +1,43 @@
+// Cursor pagination for article listings.
+//
+// Listings are sorted newest first with id as a tie-breaker, so every article has a unique
+// position. A cursor is that position for the last article on a page; the next page starts
+// after it, so articles published in between don't shift the pages a reader has yet to load.
+export interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+// Newest first, with id as a tie-breaker so cursors are stable
+export const compareArticles = (a: Cursor, b: Cursor): number => {
+  const byDate = new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  return byDate !== 0 ? byDate : b.id.localeCompare(a.id);
+};
+
+// Cursors are opaque to clients: base64 of the sort key of the last article on a page
+export const encodeCursor = (article: Cursor): string =>
+  btoa(JSON.stringify({ createdAt: article.createdAt, id: article.id }));
+
+export const decodeCursor = (cursor: string): Cursor | null => {
+  try {
+    const decoded = JSON.parse(atob(cursor));
+    return typeof decoded?.createdAt === 'string' && typeof decoded?.id === 'string' ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+// Cut the page after `cursor` out of articles sorted with compareArticles
+export const paginate = <T extends Cursor>(
+  sortedArticles: T[],
+  cursor: Cursor | null,
+  limit: number | null,
+): { page: T[]; nextCursor: string | null } => {
+  // Skip everything up to and including the article the cursor points at
+  const startIndex = cursor ? sortedArticles.findIndex((article) => compareArticles(cursor, article) < 0) : 0;
+  const remaining = startIndex === -1 ? [] : sortedArticles.slice(startIndex);
+  const page = limit !== null ? remaining.slice(0, limit) : remaining;
+  const nextCursor = limit !== null && remaining.length > limit ? encodeCursor(page[page.length - 1]) : null;
+
+  return { page, nextCursor };
+};
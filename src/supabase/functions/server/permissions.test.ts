@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  canChangeStatus,
+  canDeleteArticle,
+  canDeleteMedia,
+  canEditArticle,
+  getPermissions,
+  hasPermission,
+  isRole,
+  ROLES,
+  type Permission,
+  type Role,
+} from "./permissions.tsx";
+
+vi.mock("./kv_store.tsx", () => import("./memory_store.ts"));
+
+const user = (role: Role) => ({ id: `${role}-1`, role });
+
+const article = (authorId: string, status: string) => ({ id: 'article-1', authorId, status });
+
+describe('role permissions', () => {
+  const matrix: Record<Permission, Role[]> = {
+    'article:create': ['contributor', 'author', 'editor', 'admin'],
+    'article:edit-own': ['contributor', 'author', 'editor', 'admin'],
+    'article:edit-any': ['editor', 'admin'],
+    'article:delete-own': ['author', 'editor', 'admin'],
+    'article:delete-any': ['editor', 'admin'],
+    'article:publish': ['editor', 'admin'],
+    'comment:moderate': ['editor', 'admin'],
+    'tag:manage': ['editor', 'admin'],
+    'search:reindex': ['admin'],
+    'media:upload': ['contributor', 'author', 'editor', 'admin'],
+    'media:delete-any': ['editor', 'admin'],
+    'user:manage': ['admin'],
+  };
+
+  for (const [permission, roles] of Object.entries(matrix) as Array<[Permission, Role[]]>) {
+    it.each(ROLES)(`${permission} for %s`, (role) => {
+      expect(hasPermission(user(role), permission)).toBe(roles.includes(role));
+    });
+  }
+
+  it('grants nothing outside the matrix', () => {
+    for (const role of ROLES) {
+      expect(getPermissions(role).every((permission) => permission in matrix)).toBe(true);
+    }
+  });
+
+  it('recognizes only the four roles', () => {
+    expect(ROLES.every(isRole)).toBe(true);
+    expect(isRole('owner')).toBe(false);
+    expect(isRole(undefined)).toBe(false);
+  });
+});
+
+describe('canEditArticle', () => {
+  it('lets contributors edit only their own drafts', () => {
+    const contributor = user('contributor');
+    expect(canEditArticle(contributor, article(contributor.id, 'draft'))).toBe(true);
+    expect(canEditArticle(contributor, article(contributor.id, 'published'))).toBe(false);
+    expect(canEditArticle(contributor, article(contributor.id, 'scheduled'))).toBe(false);
+    expect(canEditArticle(contributor, article('someone-else', 'draft'))).toBe(false);
+  });
+
+  it('treats articles without a status as published', () => {
+    const contributor = user('contributor');
+    expect(canEditArticle(contributor, { id: 'article-1', authorId: contributor.id })).toBe(false);
+  });
+
+  it('lets authors edit their own articles in any status', () => {
+    const author = user('author');
+    expect(canEditArticle(author, article(author.id, 'published'))).toBe(true);
+    expect(canEditArticle(author, article('someone-else', 'draft'))).toBe(false);
+  });
+
+  it.each(['editor', 'admin'] as const)('lets %s edit anyone\'s article', (role) => {
+    expect(canEditArticle(user(role), article('someone-else', 'published'))).toBe(true);
+  });
+});
+
+describe('canDeleteArticle', () => {
+  it('keeps contributors from deleting, even their own drafts', () => {
+    const contributor = user('contributor');
+    expect(canDeleteArticle(contributor, article(contributor.id, 'draft'))).toBe(false);
+  });
+
+  it('lets authors delete only their own articles', () => {
+    const author = user('author');
+    expect(canDeleteArticle(author, article(author.id, 'published'))).toBe(true);
+    expect(canDeleteArticle(author, article('someone-else', 'draft'))).toBe(false);
+  });
+
+  it('lets editors delete anyone\'s article', () => {
+    expect(canDeleteArticle(user('editor'), article('someone-else', 'published'))).toBe(true);
+  });
+});
+
+describe('canDeleteMedia', () => {
+  it('lets uploaders remove their own files and editors anyone\'s', () => {
+    const contributor = user('contributor');
+    expect(canDeleteMedia(contributor, { uploadedBy: contributor.id })).toBe(true);
+    expect(canDeleteMedia(contributor, { uploadedBy: 'someone-else' })).toBe(false);
+    expect(canDeleteMedia(user('editor'), { uploadedBy: 'someone-else' })).toBe(true);
+  });
+});
+
+describe('canChangeStatus', () => {
+  it('keeps authors between unpublished statuses', () => {
+    const author = user('author');
+    expect(canChangeStatus(author, 'draft', 'draft')).toBe(true);
+    expect(canChangeStatus(author, null, 'draft')).toBe(true);
+    expect(canChangeStatus(author, 'draft', 'published')).toBe(false);
+    expect(canChangeStatus(author, 'draft', 'scheduled')).toBe(false);
+    expect(canChangeStatus(author, 'published', 'draft')).toBe(false);
+  });
+
+  it('leaves an unchanged status alone, even a published one', () => {
+    expect(canChangeStatus(user('author'), 'published', 'published')).toBe(true);
+  });
+
+  it('lets publishers move articles anywhere', () => {
+    expect(canChangeStatus(user('editor'), 'draft', 'published')).toBe(true);
+    expect(canChangeStatus(user('admin'), 'scheduled', 'draft')).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+// Role-based access control for the blog's staff accounts.
+//
+// Roles, from least to most privileged:
+//   contributor - writes drafts and edits their own drafts
+//   author      - manages their own articles, but cannot publish
+//   editor      - manages every article, publishes, moderates comments and tags
+//   admin       - everything, plus user and role management
+//
+// Roles are stored per user as user_role:<userId> -> { userId, role, updatedAt }.
+import * as kv from "./kv_store.tsx";
+
+export const ROLES = ['contributor', 'author', 'editor', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'article:create'
+  | 'article:edit-own'
+  | 'article:edit-any'
+  | 'article:delete-own'
+  | 'article:delete-any'
+  | 'article:publish'
+  | 'comment:moderate'
+  | 'tag:manage'
+  | 'search:reindex'
+  | 'media:upload'
+  | 'media:delete-any'
+  | 'user:manage';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  contributor: ['article:create', 'article:edit-own', 'media:upload'],
+  author: ['article:create', 'article:edit-own', 'article:delete-own', 'media:upload'],
+  editor: [
+    'article:create', 'article:edit-own', 'article:edit-any', 'article:delete-own', 'article:delete-any',
+    'article:publish', 'comment:moderate', 'tag:manage', 'media:upload', 'media:delete-any',
+  ],
+  admin: [
+    'article:create', 'article:edit-own', 'article:edit-any', 'article:delete-own', 'article:delete-any',
+    'article:publish', 'comment:moderate', 'tag:manage', 'search:reindex', 'media:upload', 'media:delete-any',
+    'user:manage',
+  ],
+};
+
+// Statuses that make an article visible to readers, now or later
+const PUBLISHING_STATUSES = ['published', 'scheduled'];
+
+export interface AuthUser {
+  id: string;
+  role: Role;
+}
+
+const roleKey = (userId: string) => `user_role:${userId}`;
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+
+export const getPermissions = (role: Role): Permission[] => ROLE_PERMISSIONS[role];
+
+export const hasPermission = (user: AuthUser, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[user.role].includes(permission);
+
+// Deployments that had accounts before roles existed name their admin with this secret; that
+// account is made admin the first time it signs in without a role record
+const ADMIN_USER_ID = Deno.env.get('ADMIN_USER_ID');
+
+// Look up a user's role. Accounts without a role record are contributors.
+export const getRole = async (userId: string): Promise<Role> => {
+  const record = await kv.get(roleKey(userId));
+  if (isRole(record?.role)) return record.role;
+
+  if (ADMIN_USER_ID && userId === ADMIN_USER_ID) {
+    await setRole(userId, 'admin');
+    return 'admin';
+  }
+
+  return 'contributor';
+};
+
+export const setRole = async (userId: string, role: Role): Promise<void> => {
+  await kv.set(roleKey(userId), { userId, role, updatedAt: new Date().toISOString() });
+};
+
+export const listRoles = async (): Promise<Array<{ userId: string; role: Role }>> =>
+  await kv.getByPrefix('user_role:');
+
+// Contributors may only touch their own drafts; authors their own articles; editors and admins anything
+export const canEditArticle = (user: AuthUser, article: any): boolean => {
+  if (hasPermission(user, 'article:edit-any')) return true;
+  if (article.authorId !== user.id || !hasPermission(user, 'article:edit-own')) return false;
+  return user.role !== 'contributor' || (article.status ?? 'published') === 'draft';
+};
+
+export const canDeleteArticle = (user: AuthUser, article: any): boolean => {
+  if (hasPermission(user, 'article:delete-any')) return true;
+  return article.authorId === user.id && hasPermission(user, 'article:delete-own');
+};
+
+// Uploaders can remove their own files; editors and admins can remove any
+export const canDeleteMedia = (user: AuthUser, asset: { uploadedBy: string }): boolean =>
+  hasPermission(user, 'media:delete-any') || (asset.uploadedBy === user.id && hasPermission(user, 'media:upload'));
+
+// Moving an article into (or out of) a reader-visible status requires publish rights
+export const canChangeStatus = (user: AuthUser, fromStatus: string | null, toStatus: string): boolean => {
+  if (fromStatus === toStatus) return true;
+  if (hasPermission(user, 'article:publish')) return true;
+  return !PUBLISHING_STATUSES.includes(toStatus) && !PUBLISHING_STATUSES.includes(fromStatus ?? '');
+};
@@ -0,0 +1,135 @@
+// Podcast feed (iTunes + Podcasting 2.0 tags) built from published articles with an audioUrl.
+//
+// Enclosure size and type are probed when an article's audio is saved and kept on the article
+// as audioLength/audioType; audioDuration (seconds) is reported by the editor, which reads it
+// from the file in the browser. Episode numbers follow publish order, oldest first.
+import { articleUrl, element, escapeXml } from "./feeds.tsx";
+import type { PodcastSettings, SiteSettings } from "./settings.tsx";
+
+export interface Episode {
+  id: string;
+  slug: string | null;
+  title: string;
+  excerpt: string;
+  imageUrl: string | null;
+  authorName: string | null;
+  audioUrl: string;
+  audioLength: number | null;
+  audioType: string | null;
+  audioDuration: number | null;
+  publishedAt: string;
+}
+
+export interface AudioInfo {
+  audioLength: number | null;
+  audioType: string;
+}
+
+const AUDIO_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/x-m4a',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/opus',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+};
+
+// The namespace Podcasting 2.0 uses to derive a feed's podcast:guid
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+const PROBE_TIMEOUT_MS = 5000;
+
+// Guess from the file extension; URLs that don't parse get the default
+export const audioTypeFromUrl = (url: string): string => {
+  const extension = URL.canParse(url) ? new URL(url).pathname.split('.').pop()?.toLowerCase() ?? '' : '';
+  return AUDIO_TYPES[extension] ?? 'audio/mpeg';
+};
+
+// Ask the audio host for the file's size and type; the extension is the fallback when it won't say.
+// Only called for files in the site's own media storage.
+export const probeAudio = async (url: string): Promise<AudioInfo> => {
+  try {
+    const response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    const length = Number(response.headers.get('Content-Length'));
+    const type = response.headers.get('Content-Type')?.split(';')[0].trim();
+    return {
+      audioLength: response.ok && length > 0 ? length : null,
+      audioType: response.ok && type?.startsWith('audio/') ? type : audioTypeFromUrl(url),
+    };
+  } catch (error) {
+    console.log('Error probing audio file:', url, error);
+    return { audioLength: null, audioType: audioTypeFromUrl(url) };
+  }
+};
+
+// UUIDv5 of the feed URL without its scheme, as the Podcasting 2.0 spec prescribes
+const podcastGuid = async (feedUrl: string): Promise<string> => {
+  const namespace = PODCAST_GUID_NAMESPACE.replace(/-/g, '').match(/../g)!.map((byte) => parseInt(byte, 16));
+  const name = new TextEncoder().encode(feedUrl.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, ''));
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', new Uint8Array([...namespace, ...name]))).slice(0, 16);
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = Array.from(hash, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+export const buildPodcastFeed = async (
+  episodes: Episode[],
+  { site, podcast, selfUrl }: { site: SiteSettings; podcast: PodcastSettings; selfUrl: string },
+): Promise<string> => {
+  const title = podcast.title || site.title;
+  const description = podcast.description || site.description;
+  const author = podcast.author || podcast.ownerName || site.title;
+
+  const numbered = [...episodes]
+    .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime())
+    .map((episode, index) => ({ ...episode, number: index + 1 }))
+    .reverse();
+
+  const items = numbered.map((episode) => element('item', [
+    `<title>${escapeXml(episode.title)}</title>`,
+    `<link>${escapeXml(articleUrl(site, episode))}</link>`,
+    `<guid isPermaLink="false">urn:uuid:${episode.id}</guid>`,
+    `<pubDate>${new Date(episode.publishedAt).toUTCString()}</pubDate>`,
+    `<description>${escapeXml(episode.excerpt)}</description>`,
+    `<enclosure url="${escapeXml(episode.audioUrl)}" length="${episode.audioLength ?? 0}" type="${escapeXml(episode.audioType ?? audioTypeFromUrl(episode.audioUrl))}" />`,
+    episode.audioDuration ? `<itunes:duration>${Math.round(episode.audioDuration)}</itunes:duration>` : null,
+    `<itunes:episode>${episode.number}</itunes:episode>`,
+    `<podcast:episode>${episode.number}</podcast:episode>`,
+    '<itunes:episodeType>full</itunes:episodeType>',
+    `<itunes:author>${escapeXml(episode.authorName ?? author)}</itunes:author>`,
+    episode.imageUrl && `<itunes:image href="${escapeXml(episode.imageUrl)}" />`,
+    `<itunes:explicit>${podcast.explicit}</itunes:explicit>`,
+  ], '    '));
+
+  const channel = [
+    `<title>${escapeXml(title)}</title>`,
+    `<link>${escapeXml(site.siteUrl || selfUrl)}</link>`,
+    `<description>${escapeXml(description)}</description>`,
+    `<language>${escapeXml(site.language)}</language>`,
+    `<atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml" />`,
+    `<itunes:author>${escapeXml(author)}</itunes:author>`,
+    `<itunes:summary>${escapeXml(description)}</itunes:summary>`,
+    `<itunes:type>${podcast.type}</itunes:type>`,
+    `<itunes:explicit>${podcast.explicit}</itunes:explicit>`,
+    podcast.category && `<itunes:category text="${escapeXml(podcast.category)}" />`,
+    podcast.imageUrl && `<itunes:image href="${escapeXml(podcast.imageUrl)}" />`,
+    podcast.imageUrl && `<image><url>${escapeXml(podcast.imageUrl)}</url><title>${escapeXml(title)}</title><link>${escapeXml(site.siteUrl || selfUrl)}</link></image>`,
+    (podcast.ownerName || podcast.ownerEmail) &&
+      `<itunes:owner>${[
+        podcast.ownerName && `<itunes:name>${escapeXml(podcast.ownerName)}</itunes:name>`,
+        podcast.ownerEmail && `<itunes:email>${escapeXml(podcast.ownerEmail)}</itunes:email>`,
+      ].filter(Boolean).join('')}</itunes:owner>`,
+    `<podcast:guid>${await podcastGuid(selfUrl)}</podcast:guid>`,
+    podcast.ownerEmail && `<podcast:locked owner="${escapeXml(podcast.ownerEmail)}">yes</podcast:locked>`,
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+${element('channel', [...channel, ...items.map((item) => item.trimStart())], '  ')}
+</rss>
+`;
+};
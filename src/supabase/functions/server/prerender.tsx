@@ -0,0 +1,94 @@
+// Pre-rendered public pages: the reader app rendered to HTML from the KV data, so the first paint
+// doesn't wait for JavaScript and a fetch, and crawlers see the content. The page's data goes
+// into the HTML alongside it, and the app hydrates the markup from that data without refetching.
+//
+// Key layout:
+//   page:<path> -> { path, html, shellVersion, expiresAt, renderedAt }
+//
+// Rendered pages are kept until an article changes (invalidatePages), the next scheduled article
+// goes live, or the frontend is redeployed with a new index.html.
+import * as kv from "./kv_store.tsx";
+
+// Even without any of the above, pages are re-rendered now and then
+const MAX_PAGE_AGE_MS = 24 * 60 * 60 * 1000;
+
+// What the app needs to render a page; mirrors InitialData in the app's App.tsx
+export type InitialData =
+  | { page: 'listing'; path: string; articles: any[]; nextCursor: string | null; tags: Array<{ name: string; count: number }>; meta: unknown }
+  | { page: 'article'; path: string; article: any; meta: unknown };
+
+interface CachedPage {
+  path: string;
+  html: string;
+  shellVersion: string;
+  expiresAt: number;
+  renderedAt: string;
+}
+
+interface Renderer {
+  render: (url: string, data: InitialData) => string;
+}
+
+const pageKey = (path: string) => `page:${path}`;
+
+let renderer: Promise<Renderer | null> | null = null;
+
+// The app's server bundle, built into ./ssr by `npm run build:ssr`. Without it pages are still
+// served with their data and meta tags, and the browser renders them as before.
+const loadRenderer = (): Promise<Renderer | null> =>
+  // @ts-ignore: the bundle only exists once built, and has no type declarations
+  renderer ??= import("./ssr/entry-server.js").catch((error) => {
+    console.log('Server rendering unavailable, run npm run build:ssr before deploying:', error);
+    return null;
+  });
+
+// Pages rendered into an older index.html point at scripts and styles a redeploy has replaced
+const getShellVersion = async (shell: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(shell));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedPage = async (path: string, shell: string): Promise<string | null> => {
+  const cached: CachedPage | null = await kv.get(pageKey(path));
+  if (!cached || cached.expiresAt <= Date.now()) return null;
+  return cached.shellVersion === await getShellVersion(shell) ? cached.html : null;
+};
+
+// expiresAt is when the page could next change by itself, i.e. a scheduled article goes live
+export const cachePage = async (path: string, shell: string, html: string, expiresAt: number | null): Promise<void> => {
+  const page: CachedPage = {
+    path,
+    html,
+    shellVersion: await getShellVersion(shell),
+    expiresAt: Math.min(expiresAt ?? Infinity, Date.now() + MAX_PAGE_AGE_MS),
+    renderedAt: new Date().toISOString(),
+  };
+  await kv.set(pageKey(path), page);
+};
+
+// Called whenever articles change. Every page is dropped, since a change to one article can
+// show up on the home page, its tag and category pages and its own page.
+export const invalidatePages = async (): Promise<void> => {
+  const pages: CachedPage[] = await kv.getByPrefix('page:');
+  if (pages.length > 0) {
+    await kv.mdel(pages.map((page) => pageKey(page.path)));
+  }
+};
+
+// The app's markup and its data, put into the root element of index.html. "<" is escaped inside
+// the JSON so article text can't close the script element.
+export const renderDocument = async (shell: string, data: InitialData): Promise<string> => {
+  const app = await loadRenderer();
+  let appHtml = '';
+  if (app) {
+    try {
+      appHtml = app.render(data.path, data);
+    } catch (error) {
+      // The browser can still render the page from the data
+      console.log('Error rendering page:', data.path, error);
+    }
+  }
+
+  const dataScript = `<script id="initial-data" type="application/json">${JSON.stringify(data).replace(/</g, '\\u003c')}</script>`;
+  return shell.replace(/<div id="root">\s*<\/div>/i, () => `<div id="root">${appHtml}</div>\n    ${dataScript}`);
+};
@@ -0,0 +1,24 @@
+// Word counts and reading time estimates for articles.
+//
+// Computed whenever an article's content is saved and stored on the article, so listings can
+// show them without loading or parsing article bodies.
+import * as markdown from "./markdown.tsx";
+
+// A typical adult silent reading speed for non-fiction
+const WORDS_PER_MINUTE = 230;
+
+export interface ReadingStats {
+  wordCount: number;
+  readingTime: number; // minutes
+}
+
+export const countWords = (text: string): number =>
+  text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu)?.length ?? 0;
+
+export const getReadingStats = (content: string, format: string): ReadingStats => {
+  const wordCount = countWords(format === 'markdown' ? markdown.markdownToText(content) : content);
+  return {
+    wordCount,
+    readingTime: Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)),
+  };
+};
@@ -0,0 +1,94 @@
+// Immutable article revision history, stored in the KV table.
+//
+// Key layout:
+//   revision:<articleId>:<number> -> { articleId, number, title, excerpt, content, fields, changes, authorId, authorName, note, createdAt }
+//
+// Numbers are zero-padded in the key so a prefix scan returns revisions in order. Every save of an
+// article is recorded once it has been stored, as a snapshot of the text and the other editable
+// fields along with the names of the fields it changed.
+//
+// Revisions are inserted, never overwritten (see claims.tsx). A revision takes the number in the
+// saved article's revisionCount, or the next free one when a concurrent save has taken it, so
+// revisionCount may fall behind the latest revision; it is only where the search starts.
+import * as kv from "./kv_store.tsx";
+import * as claims from "./claims.tsx";
+
+const TEXT_FIELDS = ['title', 'excerpt', 'content'] as const;
+
+// Everything else an editor can change, kept in a revision's fields
+const OTHER_FIELDS = [
+  'slug', 'format', 'status', 'publishAt', 'tags', 'category', 'imageUrl', 'videoUrl', 'audioUrl',
+  'seoTitle', 'seoDescription', 'noindex',
+] as const;
+
+export interface Revision {
+  articleId: string;
+  number: number;
+  title: string;
+  excerpt: string;
+  content: string;
+  fields: Record<string, unknown>;
+  changes: string[];
+  authorId: string;
+  authorName: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+const revisionKey = (articleId: string, number: number) =>
+  `revision:${articleId}:${String(number).padStart(8, '0')}`;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Names of the editable fields that differ between two versions of an article
+export const changedFields = (before: any, after: any): string[] =>
+  [...TEXT_FIELDS, ...OTHER_FIELDS].filter((field) => !sameValue(before[field], after[field]));
+
+// Revisions stored before fields and changes were recorded
+const normalize = (revision: Revision): Revision => ({ ...revision, fields: revision.fields ?? {}, changes: revision.changes ?? [] });
+
+// Store a snapshot of a saved article as its next revision and return it
+export const recordRevision = async (
+  article: any,
+  author: { id: string; name: string | null },
+  changes: string[],
+  note: string | null = null,
+): Promise<Revision> => {
+  const base = {
+    articleId: article.id,
+    title: article.title,
+    excerpt: article.excerpt,
+    content: article.content,
+    fields: Object.fromEntries(OTHER_FIELDS.map((field) => [field, article[field] ?? null])),
+    changes,
+    authorId: author.id,
+    authorName: author.name,
+    note,
+    createdAt: new Date().toISOString(),
+  };
+
+  for (let number = article.revisionCount ?? 1; ; number++) {
+    const revision: Revision = { ...base, number };
+    if (await claims.insertNew(revisionKey(article.id, number), revision)) return revision;
+  }
+};
+
+// All revisions of an article, newest first, without their content
+export const listRevisions = async (articleId: string) => {
+  const revisions: Revision[] = await kv.getByPrefix(`revision:${articleId}:`);
+  return revisions
+    .map(normalize)
+    .sort((a, b) => b.number - a.number)
+    .map(({ content: _content, fields: _fields, ...summary }) => summary);
+};
+
+export const getRevision = async (articleId: string, number: number): Promise<Revision | null> => {
+  const revision: Revision | undefined = await kv.get(revisionKey(articleId, number));
+  return revision ? normalize(revision) : null;
+};
+
+export const deleteRevisions = async (articleId: string): Promise<void> => {
+  const revisions: Revision[] = await kv.getByPrefix(`revision:${articleId}:`);
+  if (revisions.length === 0) return;
+  await kv.mdel(revisions.map(({ number }) => revisionKey(articleId, number)));
+};
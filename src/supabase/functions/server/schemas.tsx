@@ -0,0 +1,554 @@
+// Shapes of the API's requests and responses. Request schemas are what route() checks incoming
+// requests against before a handler runs; response schemas only describe the results. Both are
+// published in the OpenAPI document (GET /openapi.json).
+import {
+  array,
+  boolean,
+  enumOf,
+  integer,
+  nonBlank,
+  nullable,
+  number,
+  object,
+  orEmpty,
+  string,
+  type Schema,
+} from "./validation.tsx";
+import { ROLES } from "./permissions.tsx";
+import { COMMENT_STATUSES, MAX_REPLY_DEPTH, MODERATION_MODES } from "./comments.tsx";
+import { FEED_CONTENT_MODES, MAX_FEED_ITEMS, PODCAST_TYPES } from "./settings.tsx";
+import { MEDIA_KINDS } from "./media.tsx";
+import { CONTENT_FORMATS } from "./markdown.tsx";
+import { MAX_SEO_DESCRIPTION_LENGTH, MAX_SEO_TITLE_LENGTH } from "./seo.tsx";
+import { MIN_PREFIX_LENGTH } from "./search.tsx";
+
+const ARTICLE_STATUSES = ['draft', 'scheduled', 'published', 'archived'];
+
+const MAX_PAGE_SIZE = 100;
+const MAX_INVITE_DAYS = 30;
+const MAX_COMMENT_LENGTH = 1000;
+const MAX_BULK_MODERATION = 100;
+
+const SLUG_PATTERN = '^[a-z0-9]+(?:-[a-z0-9]+)*$';
+
+// Tags and categories name pages (/tag/<name>), where "." and ".." would mean another folder
+const NOT_DOT_SEGMENT = '^(?!\\s*\\.{1,2}\\s*$)';
+const taxonomyName = () => string({ pattern: NOT_DOT_SEGMENT, 'x-message': 'must not be "." or ".."' });
+const nonBlankTaxonomyName = (description?: string) =>
+  string({ pattern: `${NOT_DOT_SEGMENT}[\\s\\S]*\\S`, 'x-message': 'must not be blank, "." or ".."', description });
+
+const timestamp = (description?: string) => string({ format: 'date-time', description });
+
+export const ERROR = object(
+  { error: string({ description: 'What went wrong, suitable for showing to the user' }) },
+  { title: 'Error', required: ['error'] },
+);
+
+export const SUCCESS = object({ success: boolean() }, { title: 'Success', required: ['success'] });
+
+export const HEALTH = object({ status: enumOf(['ok']) }, { required: ['status'] });
+
+export const OPENAPI_DOCUMENT = object({}, { description: 'This document' });
+
+// ===== Articles =====
+
+const RESPONSIVE_IMAGE = object(
+  {
+    width: integer(),
+    height: integer(),
+    placeholder: string({ description: 'Tiny blurred version as a data URL, shown while the image loads' }),
+    variants: array(object({ width: integer(), url: string({ format: 'uri' }) }, { required: ['width', 'url'] })),
+  },
+  { title: 'ResponsiveImage', required: ['width', 'height', 'placeholder', 'variants'] },
+);
+
+const ARTICLE_SUMMARY_PROPERTIES: Record<string, Schema> = {
+  id: string(),
+  slug: nullable(string()),
+  title: string(),
+  format: enumOf(CONTENT_FORMATS),
+  excerpt: string(),
+  seoTitle: nullable(string({ description: 'Overrides the title in search results and link previews' })),
+  seoDescription: nullable(string({ description: 'Overrides the excerpt in search results and link previews' })),
+  imageUrl: nullable(string()),
+  responsiveImage: nullable(RESPONSIVE_IMAGE),
+  videoUrl: nullable(string()),
+  audioUrl: nullable(string()),
+  audioDuration: nullable(number({ description: 'Seconds' })),
+  tags: array(string()),
+  category: nullable(string()),
+  status: enumOf(ARTICLE_STATUSES, { description: 'Scheduled articles read as published once their publishAt has passed' }),
+  publishAt: nullable(timestamp()),
+  published: boolean({ description: 'Whether readers can see the article' }),
+  publishedAt: nullable(timestamp()),
+  noindex: boolean({ description: 'Kept out of the sitemap and search engines' }),
+  authorId: string(),
+  wordCount: integer(),
+  readingTime: integer({ description: 'Minutes' }),
+  createdAt: timestamp(),
+  updatedAt: timestamp(),
+};
+
+export const ARTICLE_SUMMARY = object(ARTICLE_SUMMARY_PROPERTIES, {
+  title: 'ArticleSummary',
+  description: 'An article without its content, as list views return it',
+  required: Object.keys(ARTICLE_SUMMARY_PROPERTIES),
+});
+
+export const ARTICLE = object(
+  { ...ARTICLE_SUMMARY_PROPERTIES, content: string() },
+  { title: 'Article', required: [...Object.keys(ARTICLE_SUMMARY_PROPERTIES), 'content'] },
+);
+
+const META_TAG = object(
+  { property: string(), name: string(), content: string() },
+  { title: 'MetaTag', description: 'Open Graph and article:* tags use property, the rest name', required: ['content'] },
+);
+
+export const PAGE_META = object(
+  {
+    title: string(),
+    description: string(),
+    canonicalUrl: nullable(string({ format: 'uri' })),
+    tags: array(META_TAG),
+    jsonLd: object({}, { description: 'schema.org data for the page' }),
+  },
+  { title: 'PageMeta', description: 'Head tags for the page showing an article', required: ['title', 'description', 'canonicalUrl', 'tags', 'jsonLd'] },
+);
+
+export const ARTICLE_WITH_META = object({ article: ARTICLE, meta: PAGE_META }, { required: ['article', 'meta'] });
+
+export const ARTICLE_RESULT = object({ success: boolean(), article: ARTICLE }, { required: ['success', 'article'] });
+
+const ARTICLE_INPUT_PROPERTIES: Record<string, Schema> = {
+  slug: string({
+    pattern: SLUG_PATTERN,
+    'x-message': 'may only contain lowercase letters, numbers and single hyphens',
+    description: 'Generated from the title when left out. Former slugs keep redirecting to the article.',
+  }),
+  title: string({ minLength: 1 }),
+  content: string({ minLength: 1 }),
+  format: enumOf(CONTENT_FORMATS, { default: 'markdown' }),
+  excerpt: string({ description: 'The start of the content when left out' }),
+  seoTitle: nullable(string({ maxLength: MAX_SEO_TITLE_LENGTH })),
+  seoDescription: nullable(string({ maxLength: MAX_SEO_DESCRIPTION_LENGTH })),
+  imageUrl: nullable(string()),
+  videoUrl: nullable(string()),
+  audioUrl: nullable(orEmpty(string({ format: 'uri' })), { description: 'Makes the article a podcast episode' }),
+  audioDuration: nullable(number({ minimum: 0, description: 'Seconds' })),
+  tags: array(taxonomyName()),
+  category: nullable(taxonomyName()),
+  status: enumOf(ARTICLE_STATUSES, { default: 'draft', description: 'Publishing, scheduling or unpublishing needs the article:publish permission' }),
+  publishAt: nullable(timestamp('Required when the status is scheduled')),
+  noindex: boolean({ default: false }),
+};
+
+export const ARTICLE_INPUT = object(ARTICLE_INPUT_PROPERTIES, { title: 'ArticleInput', required: ['title', 'content'] });
+
+// Fields left out of an update keep their value, so none of them has a default
+const ARTICLE_UPDATE_PROPERTIES: Record<string, Schema> = Object.fromEntries(
+  Object.entries(ARTICLE_INPUT_PROPERTIES).map(([name, { default: _default, ...schema }]) => [name, schema]),
+);
+
+export const ARTICLE_UPDATE = object(ARTICLE_UPDATE_PROPERTIES, {
+  title: 'ArticleUpdate',
+  description: 'Only the fields given are changed',
+});
+
+const articleListProperties = {
+  status: enumOf([...ARTICLE_STATUSES, 'all'], {
+    description: "Signed-in users only; without it, only published articles are listed. Other authors' unpublished articles need article:edit-any",
+  }),
+  published: boolean({ description: 'true lists published articles only, whatever the status' }),
+  fields: enumOf(['summary'], { description: 'summary leaves out the content' }),
+  limit: integer({ minimum: 1, maximum: MAX_PAGE_SIZE, description: 'Page size; every article when left out' }),
+  cursor: string({ description: "The previous page's nextCursor" }),
+  category: string(),
+};
+
+export const ARTICLE_LIST_QUERY = object({ ...articleListProperties, tag: string() });
+
+export const TAG_ARTICLE_LIST_QUERY = object(articleListProperties);
+
+export const ARTICLE_PAGE = object(
+  {
+    articles: array(ARTICLE, { description: 'ArticleSummary objects when fields=summary' }),
+    nextCursor: nullable(string(), { description: 'null on the last page' }),
+    total: integer({ description: 'Matching articles across all pages' }),
+  },
+  { title: 'ArticlePage', required: ['articles', 'nextCursor', 'total'] },
+);
+
+export const REVISION_SUMMARY = object(
+  {
+    articleId: string(),
+    number: integer(),
+    title: string(),
+    excerpt: string(),
+    changes: array(string(), { description: 'Names of the fields this save changed; empty for the first version' }),
+    authorId: string(),
+    authorName: nullable(string()),
+    note: nullable(string()),
+    createdAt: timestamp(),
+  },
+  { title: 'RevisionSummary', required: ['articleId', 'number', 'title', 'excerpt', 'changes', 'authorId', 'authorName', 'note', 'createdAt'] },
+);
+
+export const REVISION = object(
+  {
+    ...REVISION_SUMMARY.properties,
+    content: string(),
+    fields: object({}, { description: 'The other editable fields as saved: slug, status, tags, category, media URLs, SEO fields and so on' }),
+  },
+  { title: 'Revision', required: [...REVISION_SUMMARY.required!, 'content', 'fields'] },
+);
+
+export const REVISION_LIST = object({ revisions: array(REVISION_SUMMARY, { description: 'Newest first' }) }, { required: ['revisions'] });
+
+export const REVISION_RESULT = object({ revision: REVISION }, { required: ['revision'] });
+
+export const REVISION_PARAMS = { number: integer({ minimum: 1 }) };
+
+// ===== Tags and categories =====
+
+export const TAXONOMY_QUERY = object({
+  status: enumOf(['all'], {
+    description: "Also count unpublished articles; signed-in users only. Other authors' unpublished articles need article:edit-any",
+  }),
+});
+
+const COUNTS = array(object({ name: string(), count: integer() }, { title: 'TagCount', required: ['name', 'count'] }));
+
+export const TAG_LIST = object({ tags: COUNTS }, { required: ['tags'] });
+
+export const CATEGORY_LIST = object({ categories: COUNTS }, { required: ['categories'] });
+
+export const TAG_RENAME = object(
+  { name: nonBlankTaxonomyName('Renaming onto an existing tag merges the two') },
+  { required: ['name'] },
+);
+
+export const TAG_MERGE = object(
+  { sources: array(nonBlank(), { minItems: 1 }), target: nonBlankTaxonomyName() },
+  { required: ['sources', 'target'] },
+);
+
+export const TAG_CHANGE_RESULT = object(
+  { success: boolean(), tag: string(), updated: integer({ description: 'Articles changed' }) },
+  { required: ['success', 'tag', 'updated'] },
+);
+
+// ===== Search =====
+
+const HIGHLIGHTED = object(
+  {
+    text: string(),
+    highlights: array(array(integer(), { minItems: 2, maxItems: 2 }), { description: '[start, end) offsets of matches in text' }),
+  },
+  { title: 'Highlighted', required: ['text', 'highlights'] },
+);
+
+export const SEARCH_QUERY = object(
+  {
+    q: nonBlank({ description: `Terms, prefix* terms (at least ${MIN_PREFIX_LENGTH} characters before the *) and "quoted phrases"` }),
+    limit: integer({ minimum: 1, maximum: MAX_PAGE_SIZE, default: 20 }),
+  },
+  { required: ['q'] },
+);
+
+export const SEARCH_RESULTS = object(
+  {
+    query: string(),
+    results: array(object(
+      { article: ARTICLE_SUMMARY, score: number(), title: HIGHLIGHTED, snippet: HIGHLIGHTED },
+      { title: 'SearchResult', required: ['article', 'score', 'title', 'snippet'] },
+    )),
+  },
+  { required: ['query', 'results'] },
+);
+
+export const REINDEX_RESULT = object({ success: boolean(), indexed: integer() }, { required: ['success', 'indexed'] });
+
+// ===== Comments =====
+
+export const PUBLIC_COMMENT = object(
+  {
+    id: string(),
+    articleId: string(),
+    parentId: nullable(string()),
+    depth: integer({ description: '0 for top-level comments' }),
+    name: string(),
+    content: string(),
+    status: enumOf(COMMENT_STATUSES),
+    isStaff: boolean({ description: 'Left by a signed-in staff member' }),
+    deleted: boolean({ description: 'A placeholder kept for its replies, with name and content emptied' }),
+    createdAt: timestamp(),
+    moderatedAt: nullable(timestamp()),
+  },
+  { title: 'Comment', required: ['id', 'articleId', 'parentId', 'depth', 'name', 'content', 'status', 'isStaff', 'deleted', 'createdAt'] },
+);
+
+export const COMMENT_THREAD = object(
+  {
+    comments: array(PUBLIC_COMMENT, { description: 'Oldest first; replies refer to their parent by parentId' }),
+    maxDepth: integer({ description: 'Deepest level a reply may sit at; 0 turns replies off' }),
+  },
+  { required: ['comments', 'maxDepth'] },
+);
+
+export const NEW_COMMENT = object(
+  {
+    name: string({ description: 'Required unless signed in; staff comment under their account name' }),
+    email: orEmpty(string({ format: 'email' }), { description: 'Never shown' }),
+    content: string({ minLength: 1, maxLength: MAX_COMMENT_LENGTH }),
+    parentId: string({ description: 'The approved comment this replies to' }),
+  },
+  { title: 'NewComment', required: ['content'] },
+);
+
+export const COMMENT_RESULT = object({ success: boolean(), comment: PUBLIC_COMMENT }, { required: ['success', 'comment'] });
+
+const QUEUED_COMMENT = object(
+  {
+    id: string(),
+    articleId: string(),
+    articleTitle: nullable(string()),
+    parentId: nullable(string()),
+    depth: integer(),
+    name: string(),
+    email: nullable(string()),
+    content: string(),
+    status: enumOf(COMMENT_STATUSES),
+    staffUserId: nullable(string()),
+    deleted: boolean(),
+    createdAt: timestamp(),
+    moderatedAt: nullable(timestamp()),
+    moderatedBy: nullable(string()),
+  },
+  { title: 'QueuedComment', description: 'A comment with the details only moderators see', required: ['id', 'articleId', 'name', 'content', 'status', 'createdAt'] },
+);
+
+export const MODERATION_QUEUE_QUERY = object({ status: enumOf(COMMENT_STATUSES, { default: 'pending' }) });
+
+export const MODERATION_QUEUE = object({ comments: array(QUEUED_COMMENT) }, { required: ['comments'] });
+
+const COMMENT_REF = object({ articleId: string(), id: string() }, { required: ['articleId', 'id'] });
+
+export const MODERATION_ACTION = object(
+  {
+    status: enumOf(COMMENT_STATUSES),
+    comments: array(COMMENT_REF, { minItems: 1, maxItems: MAX_BULK_MODERATION }),
+  },
+  { required: ['status', 'comments'] },
+);
+
+export const MODERATION_RESULT = object(
+  {
+    success: boolean(),
+    comments: array(QUEUED_COMMENT),
+    notFound: array(COMMENT_REF, { description: 'Comments that no longer exist' }),
+  },
+  { required: ['success', 'comments', 'notFound'] },
+);
+
+const moderationSettingsProperties = {
+  moderation: enumOf(MODERATION_MODES, { description: 'Which comments are held for review' }),
+  maxDepth: integer({ minimum: 0, maximum: MAX_REPLY_DEPTH }),
+};
+
+export const MODERATION_SETTINGS = object(
+  { ...moderationSettingsProperties, updatedAt: nullable(timestamp()), updatedBy: nullable(string()) },
+  { title: 'ModerationSettings', required: ['moderation', 'maxDepth', 'updatedAt', 'updatedBy'] },
+);
+
+export const MODERATION_SETTINGS_UPDATE = object(moderationSettingsProperties, { description: 'Only the fields given are changed' });
+
+export const MODERATION_SETTINGS_RESULT = object({ success: boolean(), settings: MODERATION_SETTINGS }, { required: ['settings'] });
+
+// ===== Settings =====
+
+const siteSettingsProperties = {
+  title: nonBlank(),
+  description: string(),
+  siteUrl: orEmpty(string({ format: 'uri' }), { description: 'Public address of the blog, used for absolute links in feeds, the sitemap and page metadata' }),
+  language: string({ description: 'BCP 47 language tag, e.g. en' }),
+  feedContent: enumOf(FEED_CONTENT_MODES, { description: 'Whether feed items carry the whole article or its excerpt' }),
+  feedItemLimit: integer({ minimum: 1, maximum: MAX_FEED_ITEMS }),
+  allowIndexing: boolean({ description: 'false asks every crawler to stay away' }),
+  robotsExtra: string({ description: 'Extra robots.txt directives' }),
+};
+
+export const SITE_SETTINGS = object(
+  { ...siteSettingsProperties, updatedAt: nullable(timestamp()), updatedBy: nullable(string()) },
+  { title: 'SiteSettings', required: [...Object.keys(siteSettingsProperties), 'updatedAt', 'updatedBy'] },
+);
+
+export const SITE_SETTINGS_UPDATE = object(siteSettingsProperties, { description: 'Only the fields given are changed' });
+
+export const SITE_SETTINGS_RESULT = object({ success: boolean(), settings: SITE_SETTINGS }, { required: ['settings'] });
+
+const podcastSettingsProperties = {
+  title: string({ description: "The site's title when empty" }),
+  description: string({ description: "The site's description when empty" }),
+  author: string(),
+  ownerName: string(),
+  ownerEmail: orEmpty(string({ format: 'email' })),
+  imageUrl: orEmpty(string({ format: 'uri' }), { description: 'Square cover art, 1400-3000px' }),
+  category: string({ description: 'Apple Podcasts category, e.g. Technology' }),
+  explicit: boolean(),
+  type: enumOf(PODCAST_TYPES),
+};
+
+export const PODCAST_SETTINGS = object(
+  { ...podcastSettingsProperties, updatedAt: nullable(timestamp()), updatedBy: nullable(string()) },
+  { title: 'PodcastSettings', required: [...Object.keys(podcastSettingsProperties), 'updatedAt', 'updatedBy'] },
+);
+
+export const PODCAST_SETTINGS_UPDATE = object(podcastSettingsProperties, { description: 'Only the fields given are changed' });
+
+export const PODCAST_SETTINGS_RESULT = object({ success: boolean(), settings: PODCAST_SETTINGS }, { required: ['settings'] });
+
+// ===== Media =====
+
+const MEDIA_ASSET = object(
+  {
+    id: string(),
+    path: string({ description: 'Where the file is stored' }),
+    url: string({ format: 'uri' }),
+    filename: string(),
+    mimeType: string(),
+    kind: enumOf(MEDIA_KINDS),
+    size: integer({ description: 'Bytes' }),
+    uploadedBy: string(),
+    createdAt: timestamp(),
+  },
+  { title: 'MediaAsset', required: ['id', 'path', 'url', 'filename', 'mimeType', 'kind', 'size', 'uploadedBy', 'createdAt'] },
+);
+
+export const MEDIA_UPLOAD = object(
+  { file: string({ format: 'binary', description: 'An image, audio or video file; its contents decide which' }) },
+  { required: ['file'] },
+);
+
+export const MEDIA_UPLOAD_RESULT = object({ success: boolean(), asset: MEDIA_ASSET }, { required: ['success', 'asset'] });
+
+export const MEDIA_LIST_QUERY = object({
+  q: string({ description: 'Matches file names' }),
+  kind: enumOf(MEDIA_KINDS),
+});
+
+export const MEDIA_LIST = object(
+  { assets: array(MEDIA_ASSET, { description: 'Newest first, at most 200' }), total: integer() },
+  { required: ['assets', 'total'] },
+);
+
+// ===== Feeds =====
+
+export const FEED_QUERY = object({
+  tag: string({ description: 'Only articles with this tag' }),
+  author: string({ description: "Only this user's articles" }),
+});
+
+// ===== Users and invites =====
+
+export const SIGNUP_STATUS = object(
+  { bootstrap: boolean({ description: 'No accounts exist yet, so signing up creates the first admin without an invite' }) },
+  { required: ['bootstrap'] },
+);
+
+export const SIGNUP = object(
+  {
+    email: string({ format: 'email' }),
+    password: string({ minLength: 1 }),
+    name: string({ minLength: 1 }),
+    inviteToken: string({ description: 'Required except for the first account' }),
+  },
+  { title: 'Signup', required: ['email', 'password', 'name'] },
+);
+
+export const SIGNUP_RESULT = object(
+  { success: boolean(), user: object({ id: string(), email: string() }), role: enumOf(ROLES) },
+  { required: ['success', 'user', 'role'] },
+);
+
+export const CURRENT_USER = object(
+  {
+    user: object(
+      { id: string(), role: enumOf(ROLES), permissions: array(string()) },
+      { title: 'CurrentUser', required: ['id', 'role', 'permissions'] },
+    ),
+  },
+  { required: ['user'] },
+);
+
+export const USER_LIST = object(
+  {
+    users: array(object(
+      { id: string(), email: nullable(string()), name: nullable(string()), role: enumOf(ROLES), createdAt: timestamp() },
+      { title: 'StaffUser', required: ['id', 'email', 'name', 'role', 'createdAt'] },
+    )),
+  },
+  { required: ['users'] },
+);
+
+export const ROLE_CHANGE = object({ role: enumOf(ROLES) }, { required: ['role'] });
+
+export const ROLE_CHANGE_RESULT = object(
+  { success: boolean(), user: object({ id: string(), role: enumOf(ROLES) }, { required: ['id', 'role'] }) },
+  { required: ['success', 'user'] },
+);
+
+const INVITE = object(
+  {
+    id: string(),
+    role: enumOf(ROLES),
+    email: nullable(string({ description: 'Only this address may use the invite' })),
+    createdBy: string(),
+    createdAt: timestamp(),
+    expiresAt: timestamp(),
+    usedAt: nullable(timestamp()),
+    usedBy: nullable(string()),
+    revokedAt: nullable(timestamp()),
+    state: enumOf(['pending', 'used', 'revoked', 'expired']),
+  },
+  { title: 'Invite', required: ['id', 'role', 'email', 'createdBy', 'createdAt', 'expiresAt', 'usedAt', 'usedBy', 'revokedAt', 'state'] },
+);
+
+export const INVITE_LIST = object({ invites: array(INVITE) }, { required: ['invites'] });
+
+export const INVITE_INPUT = object(
+  {
+    role: enumOf(ROLES),
+    email: nullable(string({ format: 'email' })),
+    expiresInDays: integer({ minimum: 1, maximum: MAX_INVITE_DAYS, default: 7 }),
+  },
+  { required: ['role'] },
+);
+
+export const INVITE_CREATED = object(
+  { success: boolean(), invite: INVITE, token: string({ description: 'Goes into the invite link; it is not shown again' }) },
+  { required: ['success', 'invite', 'token'] },
+);
+
+export const INVITE_RESULT = object({ success: boolean(), invite: INVITE }, { required: ['success', 'invite'] });
+
+// ===== Pages =====
+
+export const EXPORT_PAGES = object(
+  {
+    site: object({ title: string(), description: string(), siteUrl: string(), language: string() }),
+    pages: array(object(
+      {
+        path: string(),
+        updatedAt: nullable(timestamp(), { description: 'For articles; listings have none' }),
+        head: string({ description: 'HTML for the page head' }),
+        data: object({}, { description: "What the app's server renderer needs for the page" }),
+      },
+      { required: ['path', 'updatedAt', 'head', 'data'] },
+    )),
+    media: array(object({ url: string({ format: 'uri' }), path: string() }, { required: ['url', 'path'] }), {
+      description: 'Uploaded files and image variants the published articles use',
+    }),
+  },
+  { required: ['site', 'pages', 'media'] },
+);
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as store from "./memory_store.ts";
+import { indexArticle, MIN_PREFIX_LENGTH, parseQuery, search, tokenize, type Highlighted } from "./search.tsx";
+
+vi.mock("./kv_store.tsx", () => import("./memory_store.ts"));
+
+const addArticle = async (article: { id: string; title: string; excerpt: string; content: string }) => {
+  await store.set(`article:${article.id}`, article);
+  await indexArticle(article);
+};
+
+const visible = () => true;
+
+// The highlighted parts of a title or snippet
+const highlighted = ({ text, highlights }: Highlighted) => highlights.map(([from, to]) => text.slice(from, to));
+
+describe('tokenize', () => {
+  it('lowercases, splits on punctuation and drops stop words', () => {
+    expect(tokenize('The Quick-Brown fox, and THE dog!')).toEqual(['quick', 'brown', 'fox', 'dog']);
+  });
+
+  it('strips diacritics', () => {
+    expect(tokenize('Café Straße naïve')).toEqual(['cafe', 'straße', 'naive']);
+  });
+
+  it('keeps digits and letters from other scripts', () => {
+    expect(tokenize('Node 20 и Deno 2')).toEqual(['node', '20', 'и', 'deno', '2']);
+  });
+
+  it('returns nothing for text without words', () => {
+    expect(tokenize(' -- ... ')).toEqual([]);
+  });
+});
+
+describe('parseQuery', () => {
+  it('splits terms and quoted phrases', () => {
+    expect(parseQuery('react "server components" hooks')).toEqual({
+      terms: [
+        { term: 'react', prefix: false },
+        { term: 'server', prefix: false },
+        { term: 'components', prefix: false },
+        { term: 'hooks', prefix: false },
+      ],
+      phrases: [['server', 'components']],
+    });
+  });
+
+  it('marks a trailing * as a prefix on the last token only', () => {
+    expect(parseQuery('type-scr*').terms).toEqual([
+      { term: 'type', prefix: false },
+      { term: 'scr', prefix: true },
+    ]);
+  });
+
+  it(`treats prefixes shorter than ${MIN_PREFIX_LENGTH} characters as plain terms`, () => {
+    expect(parseQuery('re*').terms).toEqual([{ term: 're', prefix: false }]);
+  });
+
+  it('ignores stop words and empty phrases', () => {
+    expect(parseQuery('the "of a" *')).toEqual({ terms: [], phrases: [] });
+  });
+});
+
+describe('search', () => {
+  beforeEach(async () => {
+    store.clear();
+    await addArticle({
+      id: 'cafe',
+      title: 'Café culture',
+      excerpt: 'Where to drink coffee',
+      content: 'A guide to the best café in town. Cafés serve coffee, and coffee is good.',
+    });
+    await addArticle({
+      id: 'types',
+      title: 'TypeScript types',
+      excerpt: 'Typing the server',
+      content: 'Server components render on the server. Types keep them honest.',
+    });
+  });
+
+  it('highlights matches in the original text, accents and all', async () => {
+    const [hit] = await search('cafe', visible, 10);
+    expect(hit.article.id).toBe('cafe');
+    expect(highlighted(hit.title)).toEqual(['Café']);
+    expect(highlighted(hit.snippet)).toEqual(['café']);
+  });
+
+  it('highlights every word a prefix matches', async () => {
+    const [hit] = await search('typ*', visible, 10);
+    expect(hit.article.id).toBe('types');
+    expect(highlighted(hit.title)).toEqual(['TypeScript', 'types']);
+    expect(highlighted(hit.snippet)).toEqual(['Types']);
+  });
+
+  it('highlights accented words written with combining marks', async () => {
+    await addArticle({ id: 'decomposed', title: 'Cafe\u0301 menu', excerpt: '', content: 'Prices' });
+    const [hit] = await search('cafe menu', visible, 10);
+    expect(hit.article.id).toBe('decomposed');
+    expect(highlighted(hit.title)).toEqual(['Cafe\u0301', 'menu']);
+  });
+
+  it('requires every term to match', async () => {
+    expect(await search('coffee server', visible, 10)).toEqual([]);
+  });
+
+  it('requires phrases to appear intact', async () => {
+    expect((await search('"server components"', visible, 10)).map(({ article }) => article.id)).toEqual(['types']);
+    expect(await search('"components server"', visible, 10)).toEqual([]);
+  });
+
+  it('shifts highlights to match a cut snippet', async () => {
+    const padding = 'Lorem ipsum dolor sit amet. '.repeat(10);
+    await addArticle({ id: 'long', title: 'Long read', excerpt: '', content: `${padding}The needle is here. ${padding}` });
+
+    const [hit] = await search('needle', visible, 10);
+    expect(hit.snippet.text.startsWith('…')).toBe(true);
+    expect(hit.snippet.text.endsWith('…')).toBe(true);
+    expect(highlighted(hit.snippet)).toEqual(['needle']);
+  });
+
+  it('leaves out articles readers cannot see', async () => {
+    expect(await search('coffee', (article) => article.id !== 'cafe', 10)).toEqual([]);
+  });
+
+  it('ranks title matches above content matches', async () => {
+    await addArticle({ id: 'mention', title: 'Mornings', excerpt: '', content: 'Types of breakfast.' });
+    expect((await search('types', visible, 10)).map(({ article }) => article.id)).toEqual(['types', 'mention']);
+  });
+});
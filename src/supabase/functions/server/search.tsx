@@ -0,0 +1,290 @@
+// Inverted full-text index for articles, stored in the KV table.
+//
+// Key layout:
+//   search:term:<term>  -> { term, postings: { [articleId]: { title, excerpt, content } } }
+//   search:doc:<id>     -> { id, terms: string[] }  (terms an article is listed under, for cleanup)
+//
+// Postings hold per-field term frequencies so queries can be ranked without loading
+// every article; only the matching candidates are fetched to build snippets.
+import * as kv from "./kv_store.tsx";
+
+type Field = 'title' | 'excerpt' | 'content';
+
+type Postings = Record<string, Record<Field, number>>;
+
+export interface Highlighted {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchHit {
+  article: any;
+  score: number;
+  title: Highlighted;
+  snippet: Highlighted;
+}
+
+const FIELDS: Field[] = ['title', 'excerpt', 'content'];
+
+const FIELD_WEIGHTS: Record<Field, number> = { title: 5, excerpt: 2, content: 1 };
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with',
+]);
+
+const SNIPPET_RADIUS = 80;
+
+// Shorter prefixes match so much of the index that loading it would cost more than it finds;
+// "a*" is searched as the term "a"
+export const MIN_PREFIX_LENGTH = 3;
+
+const termKey = (term: string) => `search:term:${term}`;
+const docKey = (id: string) => `search:doc:${id}`;
+
+// Lowercase and strip diacritics so "Café" matches "cafe"
+const normalize = (text: string) =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Split text into index terms, dropping stop words
+export const tokenize = (text: string): string[] =>
+  normalize(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0 && !STOP_WORDS.has(token));
+
+// Count term frequencies per field for one article
+const buildPostings = (article: any): Map<string, Record<Field, number>> => {
+  const postings = new Map<string, Record<Field, number>>();
+  for (const field of FIELDS) {
+    for (const term of tokenize(article[field] ?? '')) {
+      const counts = postings.get(term) ?? { title: 0, excerpt: 0, content: 0 };
+      counts[field] += 1;
+      postings.set(term, counts);
+    }
+  }
+  return postings;
+};
+
+// Add or refresh an article in the index, dropping terms it no longer contains
+export const indexArticle = async (article: any): Promise<void> => {
+  const postings = buildPostings(article);
+  const previous = await kv.get(docKey(article.id));
+  const staleTerms: string[] = (previous?.terms ?? []).filter((term: string) => !postings.has(term));
+  const terms = [...postings.keys(), ...staleTerms];
+
+  const records = await kv.mget(terms.map(termKey));
+  const recordsByTerm = new Map(records.map((record: any) => [record.term, record]));
+
+  const keys: string[] = [];
+  const values: any[] = [];
+  const emptyKeys: string[] = [];
+
+  for (const term of terms) {
+    const record = recordsByTerm.get(term) ?? { term, postings: {} };
+    const nextPostings: Postings = { ...record.postings };
+    const counts = postings.get(term);
+    if (counts) {
+      nextPostings[article.id] = counts;
+    } else {
+      delete nextPostings[article.id];
+    }
+
+    if (Object.keys(nextPostings).length === 0) {
+      emptyKeys.push(termKey(term));
+    } else {
+      keys.push(termKey(term));
+      values.push({ term, postings: nextPostings });
+    }
+  }
+
+  keys.push(docKey(article.id));
+  values.push({ id: article.id, terms: [...postings.keys()] });
+
+  await kv.mset(keys, values);
+  if (emptyKeys.length > 0) {
+    await kv.mdel(emptyKeys);
+  }
+};
+
+// Remove an article from every term it was indexed under
+export const removeArticleFromIndex = async (id: string): Promise<void> => {
+  const previous = await kv.get(docKey(id));
+  if (!previous) return;
+
+  await indexArticle({ id, title: '', excerpt: '', content: '' });
+  await kv.del(docKey(id));
+};
+
+interface ParsedQuery {
+  terms: Array<{ term: string; prefix: boolean }>;
+  phrases: string[][];
+}
+
+// Supports bare terms, prefix terms ending in "*" (MIN_PREFIX_LENGTH characters or more) and "quoted phrases"
+export const parseQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = { terms: [], phrases: [] };
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const phrase = tokenize(match[1]);
+      if (phrase.length > 0) {
+        parsed.phrases.push(phrase);
+        parsed.terms.push(...phrase.map((term) => ({ term, prefix: false })));
+      }
+      continue;
+    }
+
+    const prefix = match[2].endsWith('*');
+    const tokens = tokenize(prefix ? match[2].slice(0, -1) : match[2]);
+    tokens.forEach((term, index) => {
+      parsed.terms.push({ term, prefix: prefix && index === tokens.length - 1 && term.length >= MIN_PREFIX_LENGTH });
+    });
+  }
+
+  return parsed;
+};
+
+// Find the character ranges in `text` covered by any of the given terms
+const findMatches = (text: string, terms: Array<{ term: string; prefix: boolean }>, phrases: string[][]) => {
+  const ranges: Array<[number, number]> = [];
+  const tokens: Array<{ value: string; start: number; end: number }> = [];
+
+  // Words are found in the original text and normalized one at a time, since normalizing changes
+  // lengths (ligatures, decomposed accents, İ) and offsets into the normalized text would be off.
+  // Combining marks belong to the word so decomposed letters aren't split from their accents.
+  for (const word of text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)) {
+    const start = word.index!;
+    for (const value of normalize(word[0]).match(/[\p{L}\p{N}]+/gu) ?? []) {
+      tokens.push({ value, start, end: start + word[0].length });
+    }
+  }
+
+  for (const token of tokens) {
+    const matched = terms.some(({ term, prefix }) =>
+      prefix ? token.value.startsWith(term) : token.value === term
+    );
+    // A word can normalize to several tokens; it's highlighted once
+    if (matched && ranges.at(-1)?.[0] !== token.start) ranges.push([token.start, token.end]);
+  }
+
+  // A phrase matches when its terms appear as consecutive non-stop-word tokens
+  const contentTokens = tokens.filter((token) => !STOP_WORDS.has(token.value));
+  const phraseHits = phrases.map(() => false);
+  phrases.forEach((phrase, phraseIndex) => {
+    for (let i = 0; i + phrase.length <= contentTokens.length; i++) {
+      if (phrase.every((term, offset) => contentTokens[i + offset].value === term)) {
+        phraseHits[phraseIndex] = true;
+        break;
+      }
+    }
+  });
+
+  return { ranges, phraseHits };
+};
+
+// Cut a window of text around the first match and shift highlight ranges to fit it
+const buildSnippet = (text: string, ranges: Array<[number, number]>): Highlighted => {
+  if (ranges.length === 0) {
+    const cut = text.length > SNIPPET_RADIUS * 2 ? text.slice(0, SNIPPET_RADIUS * 2) + '…' : text;
+    return { text: cut, highlights: [] };
+  }
+
+  const start = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+  const end = Math.min(text.length, ranges[0][1] + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    highlights: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from - start + prefix.length, to - start + prefix.length]),
+  };
+};
+
+// Look up postings for every query term; prefix terms expand to all indexed terms they start
+const loadPostings = async (terms: ParsedQuery['terms']): Promise<Postings[]> =>
+  Promise.all(
+    terms.map(async ({ term, prefix }) => {
+      const records = prefix
+        ? await kv.getByPrefix(termKey(term))
+        : [await kv.get(termKey(term))].filter(Boolean);
+
+      const merged: Postings = {};
+      for (const record of records) {
+        for (const [articleId, counts] of Object.entries(record.postings as Postings)) {
+          const existing = merged[articleId] ?? { title: 0, excerpt: 0, content: 0 };
+          merged[articleId] = {
+            title: existing.title + counts.title,
+            excerpt: existing.excerpt + counts.excerpt,
+            content: existing.content + counts.content,
+          };
+        }
+      }
+      return merged;
+    })
+  );
+
+// Rank articles matching every query term. `isVisible` filters out articles readers cannot see.
+export const search = async (
+  query: string,
+  isVisible: (article: any) => boolean,
+  limit: number,
+): Promise<SearchHit[]> => {
+  const parsed = parseQuery(query);
+  if (parsed.terms.length === 0) return [];
+
+  const postingsPerTerm = await loadPostings(parsed.terms);
+
+  // Every term must match (AND semantics)
+  let candidateIds = Object.keys(postingsPerTerm[0]);
+  for (const postings of postingsPerTerm.slice(1)) {
+    candidateIds = candidateIds.filter((id) => id in postings);
+  }
+  if (candidateIds.length === 0) return [];
+
+  const scores = new Map<string, number>();
+  for (const id of candidateIds) {
+    let score = 0;
+    for (const postings of postingsPerTerm) {
+      for (const field of FIELDS) {
+        const count = postings[id][field];
+        if (count > 0) score += FIELD_WEIGHTS[field] * (1 + Math.log(count));
+      }
+    }
+    scores.set(id, score);
+  }
+
+  const articles = await kv.mget(candidateIds.map((id) => `article:${id}`));
+  const hits: SearchHit[] = [];
+
+  for (const article of articles) {
+    if (!article || !isVisible(article)) continue;
+
+    const titleMatch = findMatches(article.title ?? '', parsed.terms, parsed.phrases);
+    const excerptMatch = findMatches(article.excerpt ?? '', parsed.terms, parsed.phrases);
+    const contentMatch = findMatches(article.content ?? '', parsed.terms, parsed.phrases);
+
+    // Phrases must appear intact in at least one field
+    const phrasesMatched = parsed.phrases.every((_, index) =>
+      titleMatch.phraseHits[index] || excerptMatch.phraseHits[index] || contentMatch.phraseHits[index]
+    );
+    if (!phrasesMatched) continue;
+
+    const phraseBonus = parsed.phrases.length * FIELD_WEIGHTS.title;
+    const snippet = contentMatch.ranges.length > 0
+      ? buildSnippet(article.content, contentMatch.ranges)
+      : buildSnippet(article.excerpt ?? '', excerptMatch.ranges);
+
+    hits.push({
+      article,
+      score: (scores.get(article.id) ?? 0) + phraseBonus,
+      title: { text: article.title, highlights: titleMatch.ranges },
+      snippet,
+    });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+};
@@ -0,0 +1,162 @@
+// Per-article metadata for search engines and link previews: title and description, canonical
+// URL, Open Graph and Twitter card tags, and schema.org Article JSON-LD. Listing pages get the
+// site's own title and description.
+//
+// The same metadata is sent to the reader app with each article, which applies it to the page
+// as readers navigate, and injected into the app's HTML for crawlers that don't run JavaScript.
+import type { SiteSettings } from "./settings.tsx";
+import { articleUrl } from "./feeds.tsx";
+
+// Generous hard limits; the editor points out the much shorter lengths search results display
+export const MAX_SEO_TITLE_LENGTH = 200;
+export const MAX_SEO_DESCRIPTION_LENGTH = 500;
+
+export interface MetaTag {
+  // Open Graph and article:* tags use property=, everything else name=
+  property?: string;
+  name?: string;
+  content: string;
+}
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  canonicalUrl: string | null;
+  tags: MetaTag[];
+  jsonLd: Record<string, unknown>;
+}
+
+export interface SeoArticle {
+  id: string;
+  slug: string | null;
+  title: string;
+  excerpt: string;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  imageUrl: string | null;
+  responsiveImage: { width: number; height: number } | null;
+  tags: string[];
+  category: string | null;
+  noindex: boolean;
+  wordCount?: number;
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Empty overrides mean "use the title/excerpt"
+export const normalizeSeoField = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+export const buildArticleMeta = (article: SeoArticle, site: SiteSettings, authorName: string | null): PageMeta => {
+  const headline = article.seoTitle ?? article.title;
+  const description = article.seoDescription ?? article.excerpt;
+  // Without the public site URL there is no absolute address to point at
+  const canonicalUrl = site.siteUrl ? articleUrl(site, article) : null;
+  const publishedAt = article.publishedAt ?? article.createdAt;
+
+  const tags: Array<MetaTag | null> = [
+    { name: 'description', content: description },
+    { property: 'og:type', content: 'article' },
+    { property: 'og:title', content: headline },
+    { property: 'og:description', content: description },
+    { property: 'og:site_name', content: site.title },
+    { property: 'og:locale', content: site.language.replace('-', '_') },
+    canonicalUrl ? { property: 'og:url', content: canonicalUrl } : null,
+    article.imageUrl ? { property: 'og:image', content: article.imageUrl } : null,
+    article.imageUrl ? { property: 'og:image:alt', content: article.title } : null,
+    article.responsiveImage ? { property: 'og:image:width', content: String(article.responsiveImage.width) } : null,
+    article.responsiveImage ? { property: 'og:image:height', content: String(article.responsiveImage.height) } : null,
+    { property: 'article:published_time', content: publishedAt },
+    { property: 'article:modified_time', content: article.updatedAt },
+    article.category ? { property: 'article:section', content: article.category } : null,
+    ...article.tags.map((tag) => ({ property: 'article:tag', content: tag })),
+    { name: 'twitter:card', content: article.imageUrl ? 'summary_large_image' : 'summary' },
+    { name: 'twitter:title', content: headline },
+    { name: 'twitter:description', content: description },
+    article.imageUrl ? { name: 'twitter:image', content: article.imageUrl } : null,
+    article.noindex ? { name: 'robots', content: 'noindex' } : null,
+  ];
+
+  return {
+    title: `${headline} | ${site.title}`,
+    description,
+    canonicalUrl,
+    tags: tags.filter((tag): tag is MetaTag => tag !== null),
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'Article',
+      headline,
+      description,
+      ...(article.imageUrl ? { image: [article.imageUrl] } : {}),
+      datePublished: publishedAt,
+      dateModified: article.updatedAt,
+      ...(authorName ? { author: { '@type': 'Person', name: authorName } } : {}),
+      publisher: { '@type': 'Organization', name: site.title, ...(site.siteUrl ? { url: site.siteUrl } : {}) },
+      ...(canonicalUrl ? { url: canonicalUrl, mainEntityOfPage: { '@type': 'WebPage', '@id': canonicalUrl } } : {}),
+      ...(article.category ? { articleSection: article.category } : {}),
+      ...(article.tags.length > 0 ? { keywords: article.tags.join(', ') } : {}),
+      ...(article.wordCount !== undefined ? { wordCount: article.wordCount } : {}),
+      inLanguage: site.language,
+    },
+  };
+};
+
+// Article listings (the home, tag and category pages) describe the site itself
+export const buildListingMeta = (site: SiteSettings, path: string, heading: string | null): PageMeta => {
+  const title = heading ? `${heading} | ${site.title}` : site.title;
+  const canonicalUrl = site.siteUrl ? `${site.siteUrl}${path}` : null;
+
+  const tags: Array<MetaTag | null> = [
+    { name: 'description', content: site.description },
+    { property: 'og:type', content: 'website' },
+    { property: 'og:title', content: title },
+    { property: 'og:description', content: site.description },
+    { property: 'og:site_name', content: site.title },
+    { property: 'og:locale', content: site.language.replace('-', '_') },
+    canonicalUrl ? { property: 'og:url', content: canonicalUrl } : null,
+    { name: 'twitter:card', content: 'summary' },
+    { name: 'twitter:title', content: title },
+    { name: 'twitter:description', content: site.description },
+  ];
+
+  return {
+    title,
+    description: site.description,
+    canonicalUrl,
+    tags: tags.filter((tag): tag is MetaTag => tag !== null),
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'WebSite',
+      name: site.title,
+      description: site.description,
+      ...(site.siteUrl ? { url: site.siteUrl } : {}),
+      inLanguage: site.language,
+    },
+  };
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Tags for the document head. "<" is escaped inside the JSON so text can't close the script element.
+export const renderHead = (meta: PageMeta): string =>
+  [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    meta.canonicalUrl ? `<link rel="canonical" href="${escapeHtml(meta.canonicalUrl)}" />` : null,
+    ...meta.tags.map((tag) =>
+      tag.property
+        ? `<meta property="${escapeHtml(tag.property)}" content="${escapeHtml(tag.content)}" />`
+        : `<meta name="${escapeHtml(tag.name ?? '')}" content="${escapeHtml(tag.content)}" />`
+    ),
+    `<script type="application/ld+json">${JSON.stringify(meta.jsonLd).replace(/</g, '\\u003c')}</script>`,
+  ]
+    .filter(Boolean)
+    .join('\n    ');
+
+// Put the tags into an HTML document, replacing its own title. A replacer function keeps "$"
+// in article text from being read as a replacement pattern.
+export const injectHead = (html: string, meta: PageMeta): string =>
+  html
+    .replace(/<title>[\s\S]*?<\/title>\s*/i, '')
+    .replace(/<\/head>/i, () => `  ${renderHead(meta)}\n  </head>`);
@@ -0,0 +1,132 @@
+// Site-wide settings edited from the admin dashboard, stored in the KV table.
+//
+// Key layout:
+//   settings:site    -> { title, description, siteUrl, language, feedContent, feedItemLimit,
+//                         allowIndexing, robotsExtra, updatedAt, updatedBy }
+//   settings:podcast -> { title, description, author, ownerName, ownerEmail, imageUrl, category, explicit, type, updatedAt, updatedBy }
+//
+// siteUrl is the public address of the frontend, used to build absolute links in feeds.
+import * as kv from "./kv_store.tsx";
+
+export const FEED_CONTENT_MODES = ['full', 'excerpt'] as const;
+
+export type FeedContentMode = typeof FEED_CONTENT_MODES[number];
+
+export const MAX_FEED_ITEMS = 100;
+
+export interface SiteSettings {
+  title: string;
+  description: string;
+  siteUrl: string;
+  language: string;
+  // Whether feed items carry the whole article or only its excerpt
+  feedContent: FeedContentMode;
+  feedItemLimit: number;
+  // When false, robots.txt asks every crawler to stay away
+  allowIndexing: boolean;
+  // Extra robots.txt directives appended after the generated rules
+  robotsExtra: string;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+const SETTINGS_KEY = 'settings:site';
+
+const DEFAULT_SETTINGS: SiteSettings = {
+  title: 'My Blog',
+  description: 'Thoughts, stories, and ideas',
+  siteUrl: Deno.env.get('SITE_URL') ?? '',
+  language: 'en',
+  feedContent: 'full',
+  feedItemLimit: 20,
+  allowIndexing: true,
+  robotsExtra: '',
+  updatedAt: null,
+  updatedBy: null,
+};
+
+export const getSiteSettings = async (): Promise<SiteSettings> => ({
+  ...DEFAULT_SETTINGS,
+  ...(await kv.get(SETTINGS_KEY)),
+});
+
+export const saveSiteSettings = async (changes: Partial<SiteSettings>, userId: string): Promise<SiteSettings> => {
+  const current = await getSiteSettings();
+  const settings: SiteSettings = {
+    title: (changes.title ?? current.title).trim(),
+    description: (changes.description ?? current.description).trim(),
+    siteUrl: (changes.siteUrl ?? current.siteUrl).replace(/\/+$/, ''),
+    language: (changes.language ?? current.language).trim() || 'en',
+    feedContent: changes.feedContent ?? current.feedContent,
+    feedItemLimit: changes.feedItemLimit ?? current.feedItemLimit,
+    allowIndexing: changes.allowIndexing ?? current.allowIndexing,
+    robotsExtra: (changes.robotsExtra ?? current.robotsExtra).trim(),
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  };
+
+  await kv.set(SETTINGS_KEY, settings);
+  return settings;
+};
+
+export const PODCAST_TYPES = ['episodic', 'serial'] as const;
+
+export type PodcastType = typeof PODCAST_TYPES[number];
+
+// Show-level metadata for the podcast feed. Empty title/description fall back to the site's.
+export interface PodcastSettings {
+  title: string;
+  description: string;
+  author: string;
+  ownerName: string;
+  ownerEmail: string;
+  // Square cover art, 1400-3000px, required by Apple Podcasts
+  imageUrl: string;
+  // Apple Podcasts category, e.g. "Technology"
+  category: string;
+  explicit: boolean;
+  type: PodcastType;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+const PODCAST_SETTINGS_KEY = 'settings:podcast';
+
+const DEFAULT_PODCAST_SETTINGS: PodcastSettings = {
+  title: '',
+  description: '',
+  author: '',
+  ownerName: '',
+  ownerEmail: '',
+  imageUrl: '',
+  category: 'Technology',
+  explicit: false,
+  type: 'episodic',
+  updatedAt: null,
+  updatedBy: null,
+};
+
+export const getPodcastSettings = async (): Promise<PodcastSettings> => ({
+  ...DEFAULT_PODCAST_SETTINGS,
+  ...(await kv.get(PODCAST_SETTINGS_KEY)),
+});
+
+export const savePodcastSettings = async (changes: Partial<PodcastSettings>, userId: string): Promise<PodcastSettings> => {
+  const current = await getPodcastSettings();
+  const settings: PodcastSettings = {
+    title: (changes.title ?? current.title).trim(),
+    description: (changes.description ?? current.description).trim(),
+    author: (changes.author ?? current.author).trim(),
+    ownerName: (changes.ownerName ?? current.ownerName).trim(),
+    ownerEmail: (changes.ownerEmail ?? current.ownerEmail).trim(),
+    imageUrl: (changes.imageUrl ?? current.imageUrl).trim(),
+    category: (changes.category ?? current.category).trim(),
+    explicit: changes.explicit ?? current.explicit,
+    type: changes.type ?? current.type,
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  };
+
+  await kv.set(PODCAST_SETTINGS_KEY, settings);
+  return settings;
+};
@@ -0,0 +1,50 @@
+// XML sitemaps and robots.txt for search engines.
+//
+// Small sites get a single <urlset> at sitemap.xml. Once there are more than SITEMAP_PAGE_SIZE
+// URLs, sitemap.xml becomes a <sitemapindex> pointing at numbered pages (sitemap/pages-<n>.xml).
+import { element, escapeXml } from "./feeds.tsx";
+import type { SiteSettings } from "./settings.tsx";
+
+// Well under the protocol's 50,000 URL limit, to keep each page quick to generate
+export const SITEMAP_PAGE_SIZE = 5000;
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod: string | null;
+}
+
+const lastmod = (date: string | null) => (date ? `<lastmod>${new Date(date).toISOString()}</lastmod>` : null);
+
+export const buildUrlset = (entries: SitemapEntry[]): string => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries.map((entry) => element('url', [`<loc>${escapeXml(entry.loc)}</loc>`, lastmod(entry.lastmod)], '  ')).join('\n')}
+</urlset>
+`;
+
+export const buildSitemapIndex = (sitemaps: SitemapEntry[]): string => `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps.map((sitemap) => element('sitemap', [`<loc>${escapeXml(sitemap.loc)}</loc>`, lastmod(sitemap.lastmod)], '  ')).join('\n')}
+</sitemapindex>
+`;
+
+// Split entries into sitemap pages; page numbers start at 1
+export const paginate = (entries: SitemapEntry[]): SitemapEntry[][] => {
+  const pages: SitemapEntry[][] = [];
+  for (let start = 0; start < entries.length; start += SITEMAP_PAGE_SIZE) {
+    pages.push(entries.slice(start, start + SITEMAP_PAGE_SIZE));
+  }
+  return pages;
+};
+
+// Most recent lastmod of a group of entries, for the sitemap index
+export const latestLastmod = (entries: SitemapEntry[]): string | null =>
+  entries.reduce<string | null>((latest, entry) => (entry.lastmod && (!latest || entry.lastmod > latest) ? entry.lastmod : latest), null);
+
+export const buildRobots = (site: SiteSettings, sitemapUrl: string): string => {
+  const rules = site.allowIndexing
+    ? ['User-agent: *', 'Disallow: /admin']
+    : ['User-agent: *', 'Disallow: /'];
+  const extra = site.robotsExtra.trim();
+
+  return [...rules, ...(extra ? ['', extra] : []), '', `Sitemap: ${sitemapUrl}`, ''].join('\n');
+};
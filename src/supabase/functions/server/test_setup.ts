@@ -0,0 +1,5 @@
+// Runs before every test file. The server reads its configuration through Deno.env, which Node
+// doesn't have; tests run without any set.
+import { vi } from "vitest";
+
+vi.stubGlobal('Deno', { env: { get: (_name: string): string | undefined => undefined } });
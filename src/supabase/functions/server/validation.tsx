@@ -0,0 +1,167 @@
+// Request validation with JSON Schema. Schemas are plain objects in the subset of JSON Schema
+// below, so the ones that check requests are published unchanged in the OpenAPI document
+// (openapi.tsx) and the two can't disagree.
+//
+// validate() returns the first problem it finds as a message for the { error } response, or null.
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface Schema {
+  type?: SchemaType;
+  // Named schemas are listed once under components in the OpenAPI document and referenced from there
+  title?: string;
+  description?: string;
+  enum?: readonly unknown[];
+  // binary is an uploaded file in a multipart form
+  format?: 'date-time' | 'email' | 'uri' | 'binary';
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  anyOf?: Schema[];
+  default?: unknown;
+  // How a value failing `pattern` is described, e.g. "must not be blank"
+  'x-message'?: string;
+}
+
+type Options = Omit<Schema, 'type'>;
+
+export const string = (options: Options = {}): Schema => ({ type: 'string', ...options });
+
+export const integer = (options: Options = {}): Schema => ({ type: 'integer', ...options });
+
+export const number = (options: Options = {}): Schema => ({ type: 'number', ...options });
+
+export const boolean = (options: Options = {}): Schema => ({ type: 'boolean', ...options });
+
+export const enumOf = (values: readonly string[], options: Options = {}): Schema =>
+  ({ type: 'string', enum: values, ...options });
+
+export const array = (items: Schema, options: Options = {}): Schema => ({ type: 'array', items, ...options });
+
+export const object = (properties: Record<string, Schema>, options: Options = {}): Schema =>
+  ({ type: 'object', properties, ...options });
+
+export const nullable = (schema: Schema, options: Options = {}): Schema =>
+  ({ anyOf: [schema, { type: 'null' }], ...options });
+
+// Fields that may be cleared by sending an empty string
+export const orEmpty = (schema: Schema, options: Options = {}): Schema =>
+  ({ anyOf: [schema, { type: 'string', maxLength: 0 }], ...options });
+
+// A string with something other than whitespace in it
+export const nonBlank = (options: Options = {}): Schema =>
+  string({ pattern: '\\S', 'x-message': 'must not be blank', ...options });
+
+const TYPE_NAMES: Record<SchemaType, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'a whole number',
+  boolean: 'true or false',
+  object: 'an object',
+  array: 'a list',
+  null: 'null',
+};
+
+const matchesType = (type: SchemaType, value: unknown): boolean => {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+};
+
+const FORMATS: Record<'date-time' | 'email' | 'uri', { name: string; test: (value: string) => boolean }> = {
+  'date-time': { name: 'date', test: (value) => !isNaN(Date.parse(value)) },
+  email: { name: 'email address', test: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) },
+  uri: {
+    name: 'http or https URL',
+    test: (value) => {
+      try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+      } catch {
+        return false;
+      }
+    },
+  },
+};
+
+const range = (min: number | undefined, max: number | undefined, unit = '') => {
+  if (min !== undefined && max !== undefined) return `between ${min} and ${max}${unit}`;
+  return min !== undefined ? `at least ${min}${unit}` : `at most ${max}${unit}`;
+};
+
+// `path` names the value in messages: a field such as "tags[2]", or empty for the request body itself
+export const validate = (schema: Schema, value: unknown, path = ''): string | null => {
+  const label = path || 'Request body';
+
+  // Alternatives list the usual shape first, so that's the one a mismatch is reported against
+  if (schema.anyOf) {
+    const errors = schema.anyOf.map((option) => validate(option, value, path));
+    return errors.includes(null) ? null : errors[0];
+  }
+
+  if (schema.format === 'binary') {
+    return value instanceof Blob ? null : `${label} must be a file`;
+  }
+  if (schema.type && !matchesType(schema.type, value)) {
+    return `${label} must be ${TYPE_NAMES[schema.type]}`;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${label} must be one of: ${schema.enum.join(', ')}`;
+  }
+
+  if (typeof value === 'string') {
+    if ((schema.minLength !== undefined && value.length < schema.minLength) || (schema.maxLength !== undefined && value.length > schema.maxLength)) {
+      return schema.minLength === 1 && !value ? `${label} is required` : `${label} must be ${range(schema.minLength, schema.maxLength, ' characters')}`;
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+      return `${label} ${schema['x-message'] ?? `must match ${schema.pattern}`}`;
+    }
+    if (schema.format && !FORMATS[schema.format].test(value)) {
+      return `${label} must be a valid ${FORMATS[schema.format].name}`;
+    }
+  }
+
+  if (typeof value === 'number') {
+    if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+      return `${label} must be ${range(schema.minimum, schema.maximum)}`;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if ((schema.minItems !== undefined && value.length < schema.minItems) || (schema.maxItems !== undefined && value.length > schema.maxItems)) {
+      return `${label} must have ${range(schema.minItems, schema.maxItems, ' items')}`;
+    }
+    if (schema.items) {
+      for (let i = 0; i < value.length; i++) {
+        const error = validate(schema.items, value[i], `${label}[${i}]`);
+        if (error) return error;
+      }
+    }
+  }
+
+  if (matchesType('object', value)) {
+    const record = value as Record<string, unknown>;
+    const child = (key: string) => (path ? `${path}.${key}` : key);
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) return `${child(key)} is required`;
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (record[key] === undefined) continue;
+      const error = validate(property, record[key], child(key));
+      if (error) return error;
+    }
+  }
+
+  return null;
+};
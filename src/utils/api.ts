@@ -0,0 +1,283 @@
+import { projectId, publicAnonKey } from "./supabase/info";
+import type {
+  Article,
+  ArticleInput,
+  ArticlePage,
+  ArticleStatus,
+  ArticleWithMeta,
+  Comment,
+  CommentStatus,
+  CommentThread,
+  CurrentUser,
+  Invite,
+  MediaAsset,
+  MediaKind,
+  ModerationSettings,
+  NewComment,
+  PodcastSettings,
+  QueuedComment,
+  Revision,
+  RevisionSummary,
+  Role,
+  SearchResult,
+  SignupInput,
+  SiteSettings,
+  StaffUser,
+  TagCount,
+} from "./types";
+
+// Client for the edge function. Every call goes through request(), which sends the signed-in
+// user's access token (or the anon key), turns error responses into ApiErrors carrying the
+// server's message, and retries reads that failed on the way.
+//
+// Paths are written out in the request() calls below so `npm run check:api` can compare them
+// with the routes in supabase/functions/server/index.tsx.
+
+export const API_URL = `https://${projectId}.supabase.co/functions/v1/make-server-2b00e03f`;
+
+// Feeds are linked to rather than fetched
+export const feedUrl = (tag?: string) => `${API_URL}/feed.xml${tag ? `?tag=${encodeURIComponent(tag)}` : ''}`;
+export const atomFeedUrl = `${API_URL}/atom.xml`;
+export const podcastFeedUrl = `${API_URL}/podcast.xml`;
+
+export class ApiError extends Error {
+  // 0 when the request never got a response
+  readonly status: number;
+  // The server's own explanation, from its { error } body
+  readonly reason: string | null;
+
+  constructor(status: number, reason: string | null, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+const CONNECTION_MESSAGE = 'Unable to connect to the server. Please check your connection.';
+
+// What to tell the user about a failed call: the server's reason if it gave one, a connection
+// hint if the request didn't get through, or the fallback
+export const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof ApiError ? (error.status === 0 ? CONNECTION_MESSAGE : error.reason ?? fallback) : fallback;
+
+export const isNotFound = (error: unknown) => error instanceof ApiError && error.status === 404;
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+type Query = Record<string, string | number | null | undefined>;
+
+interface RequestOptions {
+  // The signed-in user's access token; requests without one use the anon key
+  token?: string | null;
+  query?: Query;
+  // Sent as JSON, except FormData which is sent as is
+  body?: unknown;
+}
+
+// Reads are safe to repeat, so they're retried after network errors and overloaded responses
+const RETRY_DELAYS_MS = [300, 1000];
+const RETRY_STATUSES = [429, 502, 503, 504];
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toSearchParams = (query: Query) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== null && value !== undefined && value !== '') params.set(key, String(value));
+  }
+  return params.toString();
+};
+
+async function request<T>(method: Method, path: string, { token, query, body }: RequestOptions = {}): Promise<T> {
+  const search = query ? toSearchParams(query) : '';
+  const url = `${API_URL}${path}${search ? `?${search}` : ''}`;
+  const headers: Record<string, string> = { Authorization: `Bearer ${token ?? publicAnonKey}` };
+  if (body !== undefined && !(body instanceof FormData)) headers['Content-Type'] = 'application/json';
+
+  const retries = method === 'GET' ? RETRY_DELAYS_MS.length : 0;
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: body === undefined || body instanceof FormData ? body : JSON.stringify(body),
+      });
+    } catch (error) {
+      if (attempt < retries) {
+        await wait(RETRY_DELAYS_MS[attempt]);
+        continue;
+      }
+      throw new ApiError(0, null, `${method} ${path} failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (RETRY_STATUSES.includes(response.status) && attempt < retries) {
+      await wait(RETRY_DELAYS_MS[attempt]);
+      continue;
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      const reason = typeof data?.error === 'string' ? data.error : null;
+      throw new ApiError(response.status, reason, `${method} ${path} failed with ${response.status}${reason ? `: ${reason}` : ''}`);
+    }
+    return data as T;
+  }
+}
+
+const segment = encodeURIComponent;
+
+// ===== Articles =====
+
+export interface ArticleListOptions {
+  // Readers only see published articles; staff can ask for any status
+  status?: ArticleStatus | 'all';
+  tag?: string;
+  category?: string;
+  cursor?: string | null;
+  limit?: number;
+  // Leave out the content
+  summary?: boolean;
+}
+
+export const listArticles = ({ status, tag, category, cursor, limit, summary }: ArticleListOptions = {}, token?: string | null) =>
+  request<ArticlePage>('GET', tag ? `/tags/${segment(tag)}/articles` : '/articles', {
+    token,
+    query: { status, category, cursor, limit, fields: summary ? 'summary' : undefined },
+  });
+
+export const getArticle = (id: string, token?: string | null) =>
+  request<ArticleWithMeta>('GET', `/articles/${segment(id)}`, { token });
+
+export const getArticleBySlug = (slug: string, token?: string | null) =>
+  request<ArticleWithMeta>('GET', `/articles/by-slug/${segment(slug)}`, { token });
+
+export const createArticle = (article: ArticleInput, token: string) =>
+  request<{ article: Article }>('POST', '/articles', { token, body: article });
+
+export const updateArticle = (id: string, article: ArticleInput, token: string) =>
+  request<{ article: Article }>('PUT', `/articles/${segment(id)}`, { token, body: article });
+
+export const deleteArticle = (id: string, token: string) =>
+  request<{ success: true }>('DELETE', `/articles/${segment(id)}`, { token });
+
+export const listRevisions = (articleId: string, token: string) =>
+  request<{ revisions: RevisionSummary[] }>('GET', `/articles/${segment(articleId)}/revisions`, { token });
+
+export const getRevision = (articleId: string, number: number, token: string) =>
+  request<{ revision: Revision }>('GET', `/articles/${segment(articleId)}/revisions/${number}`, { token });
+
+export const restoreRevision = (articleId: string, number: number, token: string) =>
+  request<{ article: Article }>('POST', `/articles/${segment(articleId)}/revisions/${number}/restore`, { token });
+
+// ===== Tags and categories =====
+
+// Published articles only, unless staff ask for all
+export const listTags = (all = false, token?: string | null) =>
+  request<{ tags: TagCount[] }>('GET', '/tags', { token, query: { status: all ? 'all' : undefined } });
+
+export const listCategories = (all = false, token?: string | null) =>
+  request<{ categories: TagCount[] }>('GET', '/categories', { token, query: { status: all ? 'all' : undefined } });
+
+export const renameTag = (tag: string, name: string, token: string) =>
+  request<{ tag: string; updated: number }>('PUT', `/tags/${segment(tag)}`, { token, body: { name } });
+
+export const mergeTags = (sources: string[], target: string, token: string) =>
+  request<{ tag: string; updated: number }>('POST', '/tags/merge', { token, body: { sources, target } });
+
+// ===== Search =====
+
+export const searchArticles = (query: string, limit?: number) =>
+  request<{ query: string; results: SearchResult[] }>('GET', '/search', { query: { q: query, limit } });
+
+export const reindexSearch = (token: string) =>
+  request<{ indexed: number }>('POST', '/search/reindex', { token });
+
+// ===== Comments =====
+
+export const listComments = (articleId: string) =>
+  request<CommentThread>('GET', `/comments/${segment(articleId)}`);
+
+// Staff passing their token comment under their own name
+export const postComment = (articleId: string, comment: NewComment, token?: string | null) =>
+  request<{ comment: Comment }>('POST', `/comments/${segment(articleId)}`, { token, body: comment });
+
+export const deleteComment = (articleId: string, commentId: string, token: string) =>
+  request<{ success: true }>('DELETE', `/comments/${segment(articleId)}/${segment(commentId)}`, { token });
+
+export const listModerationQueue = (status: CommentStatus, token: string) =>
+  request<{ comments: QueuedComment[] }>('GET', '/moderation/comments', { token, query: { status } });
+
+export const moderateComments = (
+  status: CommentStatus,
+  comments: Array<{ articleId: string; id: string }>,
+  token: string,
+) =>
+  request<{ comments: QueuedComment[]; notFound: Array<{ articleId: string; id: string }> }>(
+    'POST',
+    '/moderation/comments',
+    { token, body: { status, comments } },
+  );
+
+export const getModerationSettings = (token: string) =>
+  request<{ settings: ModerationSettings }>('GET', '/moderation/settings', { token });
+
+export const saveModerationSettings = (changes: Partial<ModerationSettings>, token: string) =>
+  request<{ settings: ModerationSettings }>('PUT', '/moderation/settings', { token, body: changes });
+
+// ===== Settings =====
+
+export const getSiteSettings = () =>
+  request<{ settings: SiteSettings }>('GET', '/settings/site');
+
+export const saveSiteSettings = (settings: SiteSettings, token: string) =>
+  request<{ settings: SiteSettings }>('PUT', '/settings/site', { token, body: settings });
+
+export const getPodcastSettings = (token: string) =>
+  request<{ settings: PodcastSettings }>('GET', '/settings/podcast', { token });
+
+export const savePodcastSettings = (settings: PodcastSettings, token: string) =>
+  request<{ settings: PodcastSettings }>('PUT', '/settings/podcast', { token, body: settings });
+
+// ===== Media =====
+
+export const uploadMediaFile = (file: File, token: string) => {
+  const body = new FormData();
+  body.append('file', file);
+  return request<{ asset: MediaAsset }>('POST', '/media', { token, body });
+};
+
+export const listMediaAssets = ({ query, kind }: { query?: string; kind?: MediaKind }, token: string) =>
+  request<{ assets: MediaAsset[]; total: number }>('GET', '/media', { token, query: { q: query, kind } });
+
+export const deleteMediaAsset = (id: string, token: string) =>
+  request<{ success: true }>('DELETE', `/media/${segment(id)}`, { token });
+
+// ===== Users and invites =====
+
+// Whether the next signup creates the first admin, which needs no invite
+export const getSignupStatus = () =>
+  request<{ bootstrap: boolean }>('GET', '/signup/status');
+
+export const signup = (input: SignupInput) =>
+  request<{ role: Role }>('POST', '/signup', { body: input });
+
+export const getCurrentUser = (token: string) =>
+  request<{ user: CurrentUser }>('GET', '/me', { token });
+
+export const listUsers = (token: string) =>
+  request<{ users: StaffUser[] }>('GET', '/users', { token });
+
+export const setUserRole = (id: string, role: Role, token: string) =>
+  request<{ user: { id: string; role: Role } }>('PUT', `/users/${segment(id)}/role`, { token, body: { role } });
+
+export const listInvites = (token: string) =>
+  request<{ invites: Invite[] }>('GET', '/invites', { token });
+
+// The token is only returned here; it goes into the invite link
+export const createInvite = (invite: { role: Role; email: string | null; expiresInDays: number }, token: string) =>
+  request<{ invite: Invite; token: string }>('POST', '/invites', { token, body: invite });
+
+export const revokeInvite = (id: string, token: string) =>
+  request<{ invite: Invite }>('DELETE', `/invites/${segment(id)}`, { token });
@@ -0,0 +1,60 @@
+/* Minimal LCS-based text diff used by the revision history panel */
+
+export type DiffPart = {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+};
+
+// Longest-common-subsequence diff of two token lists, merging adjacent parts of the same type
+function diffTokens(before: string[], after: string[]): DiffPart[] {
+  const rows = before.length;
+  const cols = after.length;
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], value: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ type, value });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      push('equal', before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < rows) push('removed', before[i++]);
+  while (j < cols) push('added', after[j++]);
+
+  return parts;
+}
+
+// Word-level diff, keeping whitespace as its own tokens so output reads naturally
+export function diffWords(before: string, after: string): DiffPart[] {
+  return diffTokens(before.split(/(\s+)/), after.split(/(\s+)/));
+}
+
+// Line-level diff for long text, where a word-level table would be too large
+export function diffLines(before: string, after: string): DiffPart[] {
+  const split = (text: string) => text.split(/(?<=\n)/);
+  return diffTokens(split(before), split(after));
+}
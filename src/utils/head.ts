@@ -0,0 +1,63 @@
+// Keeps the document head in step with the page being shown: title, description, canonical link,
+// social card tags and JSON-LD. Article pages get this metadata from the server alongside the
+// article, in the same form the server puts into the HTML for crawlers.
+
+export interface MetaTag {
+  property?: string;
+  name?: string;
+  content: string;
+}
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  canonicalUrl: string | null;
+  tags: MetaTag[];
+  jsonLd: Record<string, unknown>;
+}
+
+// Everything applyPageMeta writes, including tags the server put in the initial HTML
+const MANAGED_SELECTOR = [
+  'link[rel="canonical"]',
+  'meta[name="description"]',
+  'meta[name="robots"]',
+  'meta[name^="twitter:"]',
+  'meta[property^="og:"]',
+  'meta[property^="article:"]',
+  'script[type="application/ld+json"]',
+].join(', ');
+
+// A page served with article metadata carries the site name; otherwise index.html's title is it
+const defaultTitle = typeof document === 'undefined'
+  ? ''
+  : document.head.querySelector<HTMLMetaElement>('meta[property="og:site_name"]')?.content || document.title;
+
+export function clearPageMeta() {
+  document.head.querySelectorAll(MANAGED_SELECTOR).forEach((element) => element.remove());
+  document.title = defaultTitle;
+}
+
+export function applyPageMeta(meta: PageMeta) {
+  clearPageMeta();
+  document.title = meta.title;
+
+  if (meta.canonicalUrl) {
+    const link = document.createElement('link');
+    link.rel = 'canonical';
+    link.href = meta.canonicalUrl;
+    document.head.appendChild(link);
+  }
+
+  for (const tag of meta.tags) {
+    const element = document.createElement('meta');
+    if (tag.property) element.setAttribute('property', tag.property);
+    if (tag.name) element.name = tag.name;
+    element.content = tag.content;
+    document.head.appendChild(element);
+  }
+
+  const script = document.createElement('script');
+  script.type = 'application/ld+json';
+  script.textContent = JSON.stringify(meta.jsonLd);
+  document.head.appendChild(script);
+}
@@ -0,0 +1,75 @@
+import { defaultSchema } from "rehype-sanitize";
+
+// rehype plugins and the sanitize schema shared by Markdown rendering
+
+export type HastNode = {
+  type: string;
+  value?: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  data?: { meta?: string };
+  children?: HastNode[];
+};
+
+export const textOf = (node: HastNode): string =>
+  node.type === 'text' ? node.value ?? '' : (node.children ?? []).map(textOf).join('');
+
+const visit = (node: HastNode, visitor: (node: HastNode) => boolean | void) => {
+  // Returning true skips the node's children
+  if (visitor(node) === true) return;
+  node.children?.forEach((child) => visit(child, visitor));
+};
+
+// Fence options (```ts title="x.ts" {2-4}) arrive as node data, which neither rehype-raw nor the
+// sanitizer keeps, so carry them as a data-meta attribute that the schema below allows
+export const rehypeCodeMeta = () => (tree: HastNode) => {
+  visit(tree, (node) => {
+    if (node.tagName === 'code' && node.data?.meta) {
+      node.properties = { ...node.properties, dataMeta: node.data.meta };
+    }
+  });
+};
+
+export const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [...(defaultSchema.attributes?.code ?? []), 'dataMeta'],
+  },
+};
+
+const CLOBBER_PREFIX = 'user-content-';
+
+// remark-rehype already prefixes footnote ids so they can't clobber globals, and the sanitizer
+// prefixes every id again, leaving footnote links pointing at ids that no longer exist
+export const rehypeFootnoteIds = () => (tree: HastNode) => {
+  visit(tree, (node) => {
+    const id = node.properties?.id;
+    if (typeof id === 'string' && id.startsWith(CLOBBER_PREFIX + CLOBBER_PREFIX)) {
+      node.properties = { ...node.properties, id: id.slice(CLOBBER_PREFIX.length) };
+    }
+  });
+};
+
+export const slugifyHeading = (text: string) =>
+  text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s+/g, '-');
+
+// Ids for every heading, from its text, so sections can be linked to. Repeated headings get
+// -1, -2, ... in document order, so ids only change when the heading text does. Runs after the
+// sanitizer, which would otherwise prefix them with "user-content-".
+export const rehypeHeadingIds = () => (tree: HastNode) => {
+  const used = new Set<string>();
+  visit(tree, (node) => {
+    if (!node.tagName || !/^h[1-6]$/.test(node.tagName)) return;
+    const base = slugifyHeading(textOf(node)) || 'section';
+    let id = base;
+    for (let n = 1; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+    node.properties = { ...node.properties, id };
+    return true;
+  });
+};
@@ -0,0 +1,68 @@
+import { deleteMediaAsset, errorMessage, listMediaAssets, uploadMediaFile } from "./api";
+import type { MediaAsset, MediaKind } from "./types";
+
+export type { MediaAsset, MediaKind };
+
+// Client side of the media library. The server checks the file's actual contents; the limits
+// here mirror it so obviously wrong files are turned away before they are uploaded.
+
+const MB = 1024 * 1024;
+
+export const MEDIA_ACCEPT: Record<MediaKind, string> = {
+  image: 'image/jpeg,image/png,image/gif,image/webp,image/avif',
+  audio: 'audio/mpeg,audio/mp3,audio/mp4,audio/x-m4a,audio/ogg,audio/wav,audio/x-wav',
+  video: 'video/mp4,video/webm,video/quicktime',
+};
+
+const MAX_SIZES: Record<MediaKind, number> = {
+  image: 10 * MB,
+  audio: 50 * MB,
+  video: 50 * MB,
+};
+
+export const mediaKindOf = (file: File): MediaKind | null =>
+  (Object.keys(MEDIA_ACCEPT) as MediaKind[]).find((kind) => MEDIA_ACCEPT[kind].split(',').includes(file.type)) ?? null;
+
+export const formatFileSize = (bytes: number) =>
+  bytes < MB ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / MB).toFixed(1)} MB`;
+
+// Upload one file, returning the stored asset. Throws with a message fit to show the author.
+export async function uploadMedia(file: File, accessToken: string, expectedKind?: MediaKind): Promise<MediaAsset> {
+  const kind = mediaKindOf(file);
+  if (!kind || (expectedKind && kind !== expectedKind)) {
+    throw new Error(`${file.name} is not a supported ${expectedKind ?? 'image, audio or video'} file`);
+  }
+  if (file.size > MAX_SIZES[kind]) {
+    throw new Error(`${file.name} is too large (${kind} files can be at most ${formatFileSize(MAX_SIZES[kind])})`);
+  }
+
+  try {
+    const { asset } = await uploadMediaFile(file, accessToken);
+    return asset;
+  } catch (error) {
+    throw new Error(errorMessage(error, `Failed to upload ${file.name}`));
+  }
+}
+
+export async function listMedia(accessToken: string, { query, kind }: { query?: string; kind?: MediaKind } = {}): Promise<MediaAsset[]> {
+  try {
+    const { assets } = await listMediaAssets({ query, kind }, accessToken);
+    return assets;
+  } catch (error) {
+    throw new Error(errorMessage(error, 'Failed to load the media library'));
+  }
+}
+
+export async function deleteMedia(id: string, accessToken: string): Promise<void> {
+  try {
+    await deleteMediaAsset(id, accessToken);
+  } catch (error) {
+    throw new Error(errorMessage(error, 'Failed to delete file'));
+  }
+}
+
+// Markdown that shows the asset in an article: images inline, anything else as a link
+export const mediaMarkdown = (asset: MediaAsset) => {
+  const label = asset.filename.replace(/\.[^.]*$/, '').replace(/[[\]]/g, '');
+  return asset.kind === 'image' ? `![${label}](${asset.url})` : `[${label}](${asset.url})`;
+};
@@ -0,0 +1,167 @@
+import { forwardRef, useEffect, useState, type AnchorHTMLAttributes, type MouseEvent } from "react";
+
+// A small History API router: enough for the blog's handful of routes without a routing library.
+//
+// Every history entry carries a key in history.state. Scroll positions are saved per key (in
+// sessionStorage, so they survive reloads) and restored on back/forward once the page says its
+// content is ready; new pages start at the top, or at the element named by the URL's #fragment.
+//
+// When the app is rendered on the server there is no window; setServerLocation() says which page
+// is being rendered instead.
+
+export type NavigationAction = 'push' | 'replace' | 'pop';
+
+export interface Location {
+  pathname: string;
+  search: string;
+  key: string;
+  action: NavigationAction;
+}
+
+const SCROLL_STORAGE_KEY = 'scroll_positions';
+
+const isBrowser = typeof window !== 'undefined';
+
+const createKey = () => Math.random().toString(36).slice(2, 10);
+
+// The entry the page was loaded on may not have a key yet
+const currentKey = (): string => {
+  const key = window.history.state?.key;
+  if (typeof key === 'string') return key;
+  const fresh = createKey();
+  window.history.replaceState({ ...window.history.state, key: fresh }, '');
+  return fresh;
+};
+
+const readScrollPositions = (): Record<string, number> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SCROLL_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveScrollPosition = (key: string) => {
+  const positions = readScrollPositions();
+  positions[key] = window.scrollY;
+  sessionStorage.setItem(SCROLL_STORAGE_KEY, JSON.stringify(positions));
+};
+
+let location: Location = isBrowser
+  ? { pathname: window.location.pathname, search: window.location.search, key: currentKey(), action: 'pop' }
+  : { pathname: '/', search: '', key: 'server', action: 'pop' };
+
+const listeners = new Set<(location: Location) => void>();
+
+const update = (action: NavigationAction) => {
+  location = {
+    pathname: window.location.pathname,
+    search: window.location.search,
+    key: currentKey(),
+    action,
+  };
+  listeners.forEach((listener) => listener(location));
+};
+
+if (isBrowser) {
+  if ('scrollRestoration' in window.history) {
+    window.history.scrollRestoration = 'manual';
+  }
+
+  window.addEventListener('popstate', () => {
+    // Following or going back over a #fragment link stays on the same page; the browser scrolls
+    if (window.location.pathname === location.pathname && window.location.search === location.search) return;
+
+    // The window still shows the entry being left, so its scroll position can be recorded here
+    saveScrollPosition(location.key);
+    update('pop');
+  });
+
+  window.addEventListener('pagehide', () => saveScrollPosition(location.key));
+}
+
+// Server rendering renders one page at a time, synchronously, so a module-level location is enough
+export function setServerLocation(url: string) {
+  const { pathname, search } = new URL(url, 'http://localhost');
+  location = { pathname, search, key: 'server', action: 'pop' };
+}
+
+export function navigate(to: string, { replace = false }: { replace?: boolean } = {}) {
+  if (replace) {
+    window.history.replaceState({ key: location.key }, '', to);
+    update('replace');
+    return;
+  }
+
+  saveScrollPosition(location.key);
+  window.history.pushState({ key: createKey() }, '', to);
+  update('push');
+}
+
+export function useLocation(): Location {
+  const [current, setCurrent] = useState(location);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    // Catch a navigation that happened between render and subscribing
+    setCurrent(location);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+}
+
+// Restore the saved scroll position after back/forward, or start new pages at the top.
+// Pass ready=false while the page's content is still loading so there is something to scroll to.
+export function useScrollRestoration(current: Location, ready: boolean) {
+  useEffect(() => {
+    if (!ready || current.action === 'replace') return;
+    const saved = current.action === 'pop' ? readScrollPositions()[current.key] : undefined;
+    const target = saved === undefined && window.location.hash
+      ? document.getElementById(decodeURIComponent(window.location.hash.slice(1)))
+      : null;
+    if (target) {
+      target.scrollIntoView();
+    } else {
+      window.scrollTo(0, saved ?? 0);
+    }
+  }, [current.key, ready]);
+}
+
+// Match a path against a pattern such as "/articles/:slug", returning the decoded params
+export function matchRoute(pattern: string, pathname: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.replace(/\/+$/, '').split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      try {
+        params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null;
+      }
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+type LinkProps = AnchorHTMLAttributes<HTMLAnchorElement> & { to: string; replace?: boolean };
+
+// An <a> that navigates in-app, leaving modified clicks (new tab, download, ...) to the browser
+export const Link = forwardRef<HTMLAnchorElement, LinkProps>(function Link({ to, replace, onClick, target, ...props }, ref) {
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    if (target && target !== '_self') return;
+    e.preventDefault();
+    navigate(to, { replace });
+  };
+
+  return <a ref={ref} href={to} target={target} onClick={handleClick} {...props} />;
+});
@@ -0,0 +1,6 @@
+import { createClient } from "@supabase/supabase-js";
+import { projectId, publicAnonKey } from "./info";
+
+// The app's one Supabase client, used for signing in and out. Everything else goes through the
+// edge function's API (../api.ts).
+export const supabase = createClient(`https://${projectId}.supabase.co`, publicAnonKey);
@@ -0,0 +1,252 @@
+import type { PageMeta } from "./head";
+
+// What the edge function sends and accepts, shared by the API client (api.ts) and the components.
+// These mirror the server's own types in supabase/functions/server/; `npm run check:api` checks
+// the client's routes against the server's.
+
+export type Role = 'contributor' | 'author' | 'editor' | 'admin';
+
+export const ROLES: Role[] = ['contributor', 'author', 'editor', 'admin'];
+
+// ===== Articles =====
+
+export type ArticleStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
+// Articles written before Markdown support are plain text and keep their original rendering
+export type ContentFormat = 'markdown' | 'plain';
+
+// Generated by the server when an image is uploaded or an article references it
+export interface ResponsiveImageData {
+  width: number;
+  height: number;
+  placeholder: string;
+  variants: Array<{ width: number; url: string }>;
+}
+
+export interface Article {
+  id: string;
+  slug: string | null;
+  title: string;
+  content: string;
+  format: ContentFormat;
+  excerpt: string;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  imageUrl: string | null;
+  responsiveImage: ResponsiveImageData | null;
+  videoUrl: string | null;
+  audioUrl: string | null;
+  audioDuration: number | null;
+  tags: string[];
+  category: string | null;
+  status: ArticleStatus;
+  publishAt: string | null;
+  published: boolean;
+  publishedAt: string | null;
+  noindex: boolean;
+  authorId: string;
+  wordCount: number;
+  readingTime: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// List views leave out the content
+export type ArticleSummary = Omit<Article, 'content'>;
+
+// The editor's fields, as sent to create or update an article
+export interface ArticleInput {
+  slug?: string;
+  title: string;
+  content: string;
+  format: ContentFormat;
+  excerpt: string;
+  imageUrl: string;
+  videoUrl: string;
+  audioUrl: string;
+  audioDuration: number | null;
+  tags: string[];
+  category: string | null;
+  status: ArticleStatus;
+  publishAt: string | null;
+  noindex: boolean;
+  seoTitle: string | null;
+  seoDescription: string | null;
+}
+
+export interface ArticlePage {
+  articles: ArticleSummary[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export interface ArticleWithMeta {
+  article: Article;
+  meta: PageMeta | null;
+}
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+export interface RevisionSummary {
+  articleId: string;
+  number: number;
+  title: string;
+  excerpt: string;
+  changes: string[];
+  authorId: string;
+  authorName: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface Revision extends RevisionSummary {
+  content: string;
+  fields: Record<string, unknown>;
+}
+
+// ===== Search =====
+
+export interface Highlighted {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchResult {
+  article: ArticleSummary;
+  score: number;
+  title: Highlighted;
+  snippet: Highlighted;
+}
+
+// ===== Comments =====
+
+export type CommentStatus = 'pending' | 'approved' | 'rejected' | 'spam';
+
+export type ModerationMode = 'auto-approve' | 'hold-first-time' | 'hold-all';
+
+// A comment as readers see it, without the commenter's email
+export interface Comment {
+  id: string;
+  articleId: string;
+  parentId: string | null;
+  depth: number;
+  name: string;
+  content: string;
+  status: CommentStatus;
+  isStaff: boolean;
+  deleted: boolean;
+  createdAt: string;
+}
+
+export interface CommentThread {
+  comments: Comment[];
+  // Deepest level a reply may sit at; 0 turns replies off
+  maxDepth: number;
+}
+
+export interface NewComment {
+  content: string;
+  parentId?: string;
+  // Only for readers; staff comment under their account
+  name?: string;
+  email?: string;
+}
+
+// A comment in the moderation queue, with where it was left
+export interface QueuedComment {
+  id: string;
+  articleId: string;
+  articleTitle: string | null;
+  name: string;
+  email: string | null;
+  content: string;
+  status: CommentStatus;
+  createdAt: string;
+}
+
+export interface ModerationSettings {
+  moderation: ModerationMode;
+  maxDepth: number;
+}
+
+// ===== Settings =====
+
+export type FeedContentMode = 'full' | 'excerpt';
+
+export interface SiteSettings {
+  title: string;
+  description: string;
+  siteUrl: string;
+  language: string;
+  feedContent: FeedContentMode;
+  feedItemLimit: number;
+  allowIndexing: boolean;
+  robotsExtra: string;
+}
+
+export type PodcastType = 'episodic' | 'serial';
+
+export interface PodcastSettings {
+  title: string;
+  description: string;
+  author: string;
+  ownerName: string;
+  ownerEmail: string;
+  imageUrl: string;
+  category: string;
+  explicit: boolean;
+  type: PodcastType;
+}
+
+// ===== Users =====
+
+export interface CurrentUser {
+  id: string;
+  role: Role;
+  permissions: string[];
+}
+
+export interface StaffUser {
+  id: string;
+  email: string | null;
+  name: string | null;
+  role: Role;
+  createdAt: string;
+}
+
+export type InviteState = 'pending' | 'used' | 'revoked' | 'expired';
+
+export interface Invite {
+  id: string;
+  role: Role;
+  email: string | null;
+  createdAt: string;
+  expiresAt: string;
+  usedAt: string | null;
+  state: InviteState;
+}
+
+export interface SignupInput {
+  email: string;
+  password: string;
+  name: string;
+  inviteToken?: string;
+}
+
+// ===== Media =====
+
+export type MediaKind = 'image' | 'audio' | 'video';
+
+export interface MediaAsset {
+  id: string;
+  url: string;
+  filename: string;
+  mimeType: string;
+  kind: MediaKind;
+  size: number;
+  uploadedBy: string;
+  createdAt: string;
+}
@@ -55,6 +55,16 @@
       target: 'esnext',
       outDir: 'build',
     },
+    // The server rendering bundle (npm run build:ssr) runs in the Deno edge function, which can't
+    // resolve the app's npm dependencies, so everything is bundled into one file. Packages with
+    // separate DOM and server builds must pick the server one.
+    ssr: {
+      target: 'webworker',
+      noExternal: true,
+      resolve: {
+        conditions: ['deno', 'worker', 'module', 'browser', 'development|production'],
+      },
+    },
     server: {
       port: 3000,
       open: true,
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // The edge function imports its packages the Deno way; tests load them from node_modules
+    alias: [
+      { find: /^(?:npm|jsr):(@[^/@]+\/[^/@]+|[^/@]+)(?:@[^/]*)?(\/.*)?$/, replacement: '$1$2' },
+    ],
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/supabase/functions/server/test_setup.ts'],
+  },
+});